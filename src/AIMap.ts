@@ -1,10 +1,45 @@
-import { Engine } from './core/Engine';
+import { Engine, EngineEvents } from './core/Engine';
+import { EventEmitter, EventListener } from './core/EventEmitter';
 import { Camera } from './core/Camera';
-import { LayerManager } from './core/LayerManager';
+import { GlobeCameraController, GlobeCameraState, CameraConstraints } from './core/GlobeCameraController';
+import { CameraAnimation, CameraAnimationOptions, easeInOutCubic } from './core/CameraAnimation';
+import { CameraMotion } from './core/CameraMotion';
+import { UrlHash } from './core/UrlHash';
+import { Tour, TourKeyframe, TourEasing } from './core/Tour';
+import { TourPlayer } from './core/TourPlayer';
+import { BoundingCap, LonLatBounds } from './data/BoundingCap';
+import { LayerManager, LayerManagerEvents } from './core/LayerManager';
 import { GlobeRenderer } from './renderers/GlobeRenderer';
+import { FrameComposer } from './renderers/FrameComposer';
+import { ImageCapture, CaptureImageOptions } from './renderers/ImageCapture';
 import { PointLayer, PointData } from './layers/PointLayer';
+import { RenderedFeature, ScreenProjector } from './layers/Layer';
 import { GeoDataLoader } from './data/GeoDataLoader';
-import { mat4, vec3 } from 'gl-matrix';
+import { PostEffect } from './effects/PostEffect';
+import { DepthMode } from './core/PipelineCache';
+import { FrameStatsSnapshot } from './core/FrameStats';
+import { StatsHUD } from './ui/StatsHUD';
+import { BackendType, PreferredBackend } from './backends/RenderBackend';
+import { Projection, ProjectionName } from './projections/Projection';
+import { GlobeProjection } from './projections/GlobeProjection';
+import { FlatProjection } from './projections/FlatProjection';
+import { MercatorProjection } from './projections/MercatorProjection';
+import { EquirectangularProjection } from './projections/EquirectangularProjection';
+import { MorphProjection } from './projections/MorphProjection';
+import { InputContext } from './handlers/InputHandler';
+import { DragHandler } from './handlers/DragHandler';
+import { TouchZoomRotateHandler } from './handlers/TouchZoomRotateHandler';
+import { DoubleTapZoomHandler } from './handlers/DoubleTapZoomHandler';
+import { DragSelectHandler } from './handlers/DragSelectHandler';
+import { WheelHandler } from './handlers/WheelHandler';
+import { KeyboardHandler } from './handlers/KeyboardHandler';
+
+/**
+ * 渲染模式
+ * - continuous: 每帧都重新渲染
+ * - on-demand: 仅在场景变化（相机移动、图层变化、纹理加载等）或调用triggerRepaint后渲染
+ */
+export type RenderMode = 'continuous' | 'on-demand';
 
 /**
  * AIMap选项接口
@@ -26,540 +61,1807 @@ export interface AIMapOptions {
     rotation?: number;
     
     /**
-     * 是否启用控制
+     * 初始方位角（度），屏幕上方所指的方向，0为正北
+     */
+    bearing?: number;
+    
+    /**
+     * 初始俯仰角（度），0为垂直俯视
+     */
+    pitch?: number;
+    
+    /**
+     * 最小缩放级别（默认: 0.5）
+     */
+    minZoom?: number;
+    
+    /**
+     * 最大缩放级别（默认: 10）
+     */
+    maxZoom?: number;
+    
+    /**
+     * 视图中心允许的经纬度范围[[西, 南], [东, 北]]，西边界大于东边界时表示跨越180度经线
+     */
+    maxBounds?: LonLatBounds;
+    
+    /**
+     * 锁定方位角，禁止旋转（默认: false）
+     */
+    lockRotation?: boolean;
+    
+    /**
+     * 锁定俯仰角，禁止倾斜（默认: false）
+     */
+    lockPitch?: boolean;
+    
+    /**
+     * 拖拽释放后是否继续惯性旋转（默认: true）
+     */
+    inertia?: boolean;
+    
+    /**
+     * 惯性摩擦系数，速度按 e^(-系数×秒) 衰减，越大停止越快（默认: 3）
+     */
+    inertiaFriction?: number;
+    
+    /**
+     * 地图投影（默认: globe）
+     */
+    projection?: ProjectionName;
+    
+    /**
+     * 是否把视角同步到地址栏哈希 #缩放级别/纬度/经度/方位角/俯仰角（默认: false）
+     * 启用后初始化时优先使用哈希中的视角，哈希被修改时跳转到对应视角
+     */
+    hash?: boolean;
+    
+    /**
+     * 是否启用控制（初始是否启用鼠标、滚轮、触摸和键盘交互，之后可通过map.dragPan、map.touchZoomRotate、map.doubleTapZoom、map.wheel、map.keyboard等单独启用或禁用）
+     */
+    enableControl?: boolean;
+    
+    /**
+     * Canvas的背景颜色
+     */
+    backgroundColor?: [number, number, number, number];
+    
+    /**
+     * 是否显示经纬网格线
+     */
+    showGridLines?: boolean;
+    
+    /**
+     * 是否启用多重采样抗锯齿（等同于sampleCount为4）
+     */
+    antialias?: boolean;
+    
+    /**
+     * 多重采样数，WebGPU支持1或4；设置后优先于antialias
+     */
+    sampleCount?: number;
+    
+    /**
+     * 渲染模式（默认: continuous）
+     */
+    renderMode?: RenderMode;
+    
+    /**
+     * 深度策略（默认: standard）
+     * 近地面或存在卫星等大高度范围的场景可使用reversed-z或logarithmic避免深度冲突
+     */
+    depthMode?: DepthMode;
+    
+    /**
+     * 是否显示帧统计面板（默认: false，可按I键切换）
+     */
+    showStats?: boolean;
+    
+    /**
+     * 首选渲染后端（默认: auto，优先WebGPU，不支持时回退到WebGL2）
+     * WebGL2后端支持地球、网格线和点图层，不支持后处理效果、截图、反转Z和对数深度
+     */
+    preferredBackend?: PreferredBackend;
+}
+
+/**
+ * AIMap事件
+ */
+export interface AIMapEvents {
+    /**
+     * GPU设备丢失，地图暂停渲染并自动尝试恢复
+     */
+    devicelost: EngineEvents['devicelost'];
+    
+    /**
+     * GPU设备已恢复，地球、纹理和所有图层的GPU资源已在新设备上重建
+     */
+    devicerestored: EngineEvents['devicerestored'];
+    
+    /**
+     * 地图初始化完成，即将渲染第一帧
+     */
+    load: { backend: BackendType };
+    
+    /**
+     * 初始化失败、数据加载失败等错误
+     * 没有监听函数时错误输出到控制台
+     */
+    error: { error: Error };
+    
+    /**
+     * 每帧渲染完成后
+     */
+    render: { deltaTime: number };
+    
+    /**
+     * 单击画布（拖拽后松开不触发）
+     */
+    click: MapMouseEvent;
+    
+    /**
+     * 双击画布
+     */
+    dblclick: MapMouseEvent;
+    
+    /**
+     * 鼠标在画布上移动
+     */
+    mousemove: MapMouseEvent;
+    
+    /**
+     * 在画布上打开右键菜单（右键拖拽后松开不触发）
+     */
+    contextmenu: MapMouseEvent;
+    
+    /**
+     * 视角开始变化（拖拽、缩放、键盘、相机动画、导览或直接设置视角），state为变化前的相机状态
+     */
+    movestart: CameraMoveEvent;
+    
+    /**
+     * 视角变化的每一帧
+     */
+    move: CameraMoveEvent;
+    
+    /**
+     * 视角停止变化（拖拽松开且惯性结束、相机动画结束等），completed为false表示期间有相机动画被打断
+     */
+    moveend: CameraMoveEvent & { completed: boolean };
+    
+    /**
+     * 缩放级别变化的每一帧
+     */
+    zoom: CameraMoveEvent & { zoom: number };
+    
+    /**
+     * 图层已添加
+     */
+    layeradd: LayerManagerEvents['layeradd'];
+    
+    /**
+     * 图层已移除
+     */
+    layerremove: LayerManagerEvents['layerremove'];
+    
+    /**
+     * 导览开始播放
+     */
+    tourstart: { duration: number };
+    
+    /**
+     * 导览播放进度更新（每帧、暂停、继续和跳转后）
+     */
+    tourprogress: TourProgressEvent;
+    
+    /**
+     * 导览结束，completed为false表示被stopTour或新的导览打断
+     */
+    tourend: { completed: boolean };
+    
+    /**
+     * 选中的要素变化（框选、clearSelection或选中要素所在的图层被移除）
+     */
+    selectionchange: { features: RenderedFeature[] };
+}
+
+/**
+ * 导览进度事件
+ */
+export interface TourProgressEvent {
+    /**
+     * 当前播放时间（毫秒）
+     */
+    time: number;
+    
+    /**
+     * 导览总时长（毫秒）
+     */
+    duration: number;
+    
+    /**
+     * 播放进度（0到1）
+     */
+    progress: number;
+    
+    /**
+     * 正在过渡到的关键帧序号
+     */
+    keyframe: number;
+    
+    /**
+     * 是否已暂停
+     */
+    paused: boolean;
+}
+
+/**
+ * 经纬度投影到画布上的结果
+ */
+export interface ProjectedPoint {
+    /**
+     * 画布X坐标（CSS像素，相对画布左上角）
+     */
+    x: number;
+    
+    /**
+     * 画布Y坐标（CSS像素，相对画布左上角）
+     */
+    y: number;
+    
+    /**
+     * 是否位于相机后方或地平线以外（被地球遮挡）
+     */
+    occluded: boolean;
+}
+
+/**
+ * 记录导览关键帧的选项
+ */
+export interface TourKeyframeOptions {
+    /**
+     * 从上一个关键帧过渡到此关键帧的时长（毫秒，默认: 2000）
+     */
+    duration?: number;
+    
+    /**
+     * 过渡使用的缓动（默认: ease-in-out）
+     */
+    easing?: TourEasing;
+    
+    /**
+     * 是否记录所有图层的可见性（默认: false）
+     */
+    layers?: boolean;
+    
+    /**
+     * 是否记录光照方向（默认: false）
+     */
+    lightDirection?: boolean;
+}
+
+/**
+ * 地图鼠标事件
+ */
+export interface MapMouseEvent {
+    /**
+     * 鼠标位置的画布坐标（CSS像素，相对画布左上角）
+     */
+    point: [number, number];
+    
+    /**
+     * 鼠标位置的地表[经度, 纬度]，未指向地表时为null
+     */
+    lngLat: [number, number] | null;
+    
+    /**
+     * 原始DOM事件
+     */
+    originalEvent: MouseEvent;
+}
+
+/**
+ * 可以限定图层的鼠标事件
+ * - mouseenter / mouseleave: 鼠标移入/移出图层的要素
+ */
+export type MapLayerEventType = 'click' | 'dblclick' | 'mousemove' | 'contextmenu' | 'mouseenter' | 'mouseleave';
+
+/**
+ * 限定图层的鼠标事件
+ */
+export interface MapLayerMouseEvent extends MapMouseEvent {
+    /**
+     * 鼠标位置处该图层的要素，由近到远排列（mouseleave时为空数组）
+     */
+    features: RenderedFeature[];
+}
+
+/**
+ * 要素查询选项
+ */
+export interface QueryRenderedFeaturesOptions {
+    /**
+     * 只查询这些图层，默认查询所有可见图层
+     */
+    layers?: string[];
+}
+
+/**
+ * 限定图层的事件监听
+ */
+interface LayerListener {
+    type: MapLayerEventType;
+    layerId: string;
+    listener: EventListener<MapLayerMouseEvent>;
+    once: boolean;
+}
+
+/**
+ * 相机移动事件
+ */
+export interface CameraMoveEvent {
+    /**
+     * 当前相机状态
+     */
+    state: GlobeCameraState;
+}
+
+/**
+ * 按范围调整视角的选项
+ * 缩放级别按垂直俯视计算，俯仰角默认为0
+ */
+export interface FitBoundsOptions extends Omit<CameraAnimationOptions, 'center' | 'zoom'> {
+    /**
+     * 视图四周保留的空白（CSS像素，默认: 0）
+     */
+    padding?: number;
+}
+
+/**
+ * 切换投影的选项
+ */
+export interface SetProjectionOptions {
+    /**
+     * 过渡动画时长（毫秒，默认: 1000），为0时立即切换
+     */
+    duration?: number;
+}
+
+/**
+ * 投影过渡动画
+ */
+interface ProjectionMorph {
+    from: Projection;
+    to: Projection;
+    duration: number;
+    elapsed: number;
+}
+
+// 转换为地图事件的画布鼠标事件（pointerdown只用于判断点击，拖拽时兼容的mousedown事件被阻止；mouseleave用于结束图层悬停）
+const MAP_MOUSE_EVENTS = ['pointerdown', 'mousemove', 'mouseleave', 'click', 'dblclick', 'contextmenu'] as const;
+
+// 按下和松开之间移动超过此距离（CSS像素）时不视为点击
+const CLICK_TOLERANCE = 3;
+
+// 可以限定图层的事件类型
+const MAP_LAYER_EVENT_TYPES: readonly MapLayerEventType[] = ['click', 'dblclick', 'mousemove', 'contextmenu', 'mouseenter', 'mouseleave'];
+
+/**
+ * 是否为可以限定图层的事件类型
+ */
+function isMapLayerEventType(type: string): type is MapLayerEventType {
+    return (MAP_LAYER_EVENT_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * AIMap默认选项
+ */
+const DEFAULT_OPTIONS: AIMapOptions = {
+    zoom: 1,
+    center: [0, 0],
+    rotation: 0,
+    bearing: 0,
+    pitch: 0,
+    minZoom: 0.5,
+    maxZoom: 10,
+    lockRotation: false,
+    lockPitch: false,
+    inertia: true,
+    inertiaFriction: 3,
+    projection: 'globe',
+    hash: false,
+    enableControl: true,
+    backgroundColor: [0, 0, 0, 1],
+    showGridLines: false,
+    antialias: false,
+    renderMode: 'continuous',
+    depthMode: 'standard',
+    showStats: false,
+    preferredBackend: 'auto'
+};
+
+/**
+ * AIMap类 - WebGPU地理引擎的主要入口
+ */
+export default class AIMap extends EventEmitter<AIMapEvents> {
+    private engine: Engine;
+    private camera: Camera;
+    private cameraController: GlobeCameraController;
+    private cameraMotion: CameraMotion;
+    
+    // 进行中的相机动画及其Promise的resolve函数
+    private cameraAnimation: CameraAnimation | null = null;
+    private resolveCameraAnimation: ((completed: boolean) => void) | null = null;
+    
+    // 目标投影及进行中的投影过渡动画
+    private projection: Projection;
+    private projectionMorph: ProjectionMorph | null = null;
+    
+    // 进行中的导览及其Promise的resolve函数
+    private tourPlayer: TourPlayer | null = null;
+    private resolveTour: ((completed: boolean) => void) | null = null;
+    
+    // 地址栏哈希同步（hash选项启用时）
+    private urlHash: UrlHash | null = null;
+    private renderer: GlobeRenderer;
+    private layerManager: LayerManager;
+    private composer: FrameComposer;
+    private imageCapture: ImageCapture;
+    private statsHUD: StatsHUD;
+    private canvas: HTMLCanvasElement;
+    private options: AIMapOptions;
+    private animationFrameId: number | null = null;
+    private lastFrameTime: number = 0;
+    
+    // 按需渲染状态
+    private renderLoopRunning: boolean = false;
+    private renderRequested: boolean = true;
+    private boundTriggerRepaint: () => void;
+    
+    // 设备恢复期间暂停渲染
+    private restoringDevice: boolean = false;
+    
+    // 销毁后不再触发任何事件
+    private destroyed: boolean = false;
+    
+    // 视角变化跟踪，用于触发movestart/move/moveend和zoom事件
+    private moving: boolean = false;
+    private moveInterrupted: boolean = false;
+    private lastMoveState: GlobeCameraState | null = null;
+    
+    // 按下主指针的位置，移动超过阈值后松开不触发click
+    private pointerDownPoint: [number, number] | null = null;
+    
+    // 限定图层的事件监听，以及鼠标当前所在要素的图层
+    private layerListeners: LayerListener[] = [];
+    private hoveredLayers: Set<string> = new Set();
+    
+    // 选中的要素
+    private selection: RenderedFeature[] = [];
+    
+    // 交互处理器，可在运行时单独启用或禁用，如map.keyboard.disable()
+    public readonly dragPan: DragHandler;
+    public readonly touchZoomRotate: TouchZoomRotateHandler;
+    public readonly doubleTapZoom: DoubleTapZoomHandler;
+    public readonly dragSelect: DragSelectHandler;
+    public readonly wheel: WheelHandler;
+    public readonly keyboard: KeyboardHandler;
+    
+    // 画布原本的touch-action，指针处理器全部禁用时恢复
+    private originalTouchAction: string;
+    private autoRotate: boolean = false;
+    private autoRotateSpeed: number = 0.005;
+    
+    // 存储绑定后的事件处理函数引用
+    private boundHandleResize: (event: UIEvent) => void;
+    private boundHandleMapMouseEvent: (event: MouseEvent) => void;
+    
+    /**
+     * 创建AIMap实例
+     * @param canvasId Canvas元素的ID或HTMLCanvasElement实例
+     * @param options AIMap选项
+     */
+    constructor(canvasId: string | HTMLCanvasElement, options: AIMapOptions = {}) {
+        super();
+        
+        // 合并选项
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+        if (!canvasId) {
+            throw new Error('canvasId不能为空');
+        }
+        // 获取Canvas元素
+        if (typeof canvasId === 'string') {
+            const element = document.getElementById(canvasId);
+            if (!element || !(element instanceof HTMLCanvasElement)) {
+                throw new Error(`找不到ID为${canvasId}的Canvas元素`);
+            }
+            this.canvas = element;
+        } else if (canvasId instanceof HTMLCanvasElement) {
+            this.canvas = canvasId;
+        } else {
+            throw new Error('canvasId必须是Canvas元素ID或HTMLCanvasElement实例');
+        }
+        
+        // 初始化引擎组件
+        this.engine = new Engine();
+        this.engine.setSampleCount(this.options.sampleCount ?? (this.options.antialias ? 4 : 1));
+        this.engine.setDepthMode(this.options.depthMode!);
+        this.camera = new Camera();
+        this.camera.setDepthMode(this.options.depthMode!);
+        this.cameraController = new GlobeCameraController(this.camera);
+        this.cameraController.setConstraints({
+            minZoom: this.options.minZoom,
+            maxZoom: this.options.maxZoom,
+            maxBounds: this.options.maxBounds ?? null,
+            lockRotation: this.options.lockRotation,
+            lockPitch: this.options.lockPitch
+        });
+        
+        // 哈希中的视角优先于center、zoom等选项
+        if (this.options.hash) {
+            this.urlHash = new UrlHash(this.camera, this.cameraController, state => this.setCameraState(state));
+            this.applyHashToOptions();
+        }
+        
+        this.projection = this.createProjection(this.options.projection!, this.options.center ?? [0, 0]);
+        this.cameraController.setProjection(this.projection);
+        this.cameraMotion = new CameraMotion(this.cameraController);
+        this.cameraMotion.setInertiaEnabled(this.options.inertia!);
+        this.cameraMotion.setFriction(this.options.inertiaFriction!);
+        this.renderer = new GlobeRenderer(this.engine, this.camera, this.options.showGridLines);
+        this.layerManager = new LayerManager(this.engine, this.camera);
+        this.composer = new FrameComposer(this.engine, this.renderer, this.layerManager, error => this.reportError(error));
+        this.composer.setClearColor(this.options.backgroundColor!);
+        this.imageCapture = new ImageCapture(this.engine, this.camera, this.composer);
+        this.statsHUD = new StatsHUD(this.canvas);
+        if (this.options.showStats) {
+            this.statsHUD.show();
+        }
+        
+        // 场景变化时请求重绘
+        this.boundTriggerRepaint = this.triggerRepaint.bind(this);
+        this.engine.setRenderRequestHandler(this.boundTriggerRepaint);
+        this.camera.addChangeListener(this.boundTriggerRepaint);
+        
+        // 设备丢失与恢复
+        this.engine.on('devicelost', event => this.emit('devicelost', event));
+        this.engine.on('devicerestored', event => this.handleDeviceRestored(event));
+        
+        // 图层增删
+        this.layerManager.on('layeradd', event => this.emit('layeradd', event));
+        this.layerManager.on('layerremove', event => {
+            this.emit('layerremove', event);
+            this.deselectLayer(event.layer.getId());
+        });
+        
+        // 图层数据变化后原来的要素序号可能对应其他数据
+        this.layerManager.on('layerdatachange', event => this.deselectLayer(event.layer.getId()));
+        
+        // 绑定事件处理函数
+        this.boundHandleResize = this.handleResize.bind(this);
+        this.boundHandleMapMouseEvent = this.handleMapMouseEvent.bind(this);
+        
+        // 创建交互处理器
+        const inputContext: InputContext = {
+            canvas: this.canvas,
+            controller: this.cameraController,
+            motion: this.cameraMotion,
+            interrupt: () => this.interruptCameraAnimation(),
+            stop: () => this.stopCameraAnimation(),
+            stopAutoRotate: () => { this.autoRotate = false; },
+            updateTouchAction: () => this.updateTouchAction(),
+            isSelectionPointer: event => this.dragSelect.isEnabled() && DragSelectHandler.getMode(event) !== null,
+            requestRender: () => this.triggerRepaint(),
+            pick: (clientX, clientY) => this.getGlobePointAt(clientX, clientY)
+        };
+        const panStep = 0.1;
+        const zoomStep = 0.1;
+        this.originalTouchAction = this.canvas.style.touchAction;
+        this.dragPan = new DragHandler(inputContext);
+        this.touchZoomRotate = new TouchZoomRotateHandler(inputContext);
+        this.doubleTapZoom = new DoubleTapZoomHandler(inputContext);
+        this.dragSelect = new DragSelectHandler(inputContext, polygon => this.selectPolygon(polygon));
+        this.wheel = new WheelHandler(inputContext);
+        this.keyboard = new KeyboardHandler(inputContext, {
+            panLeft: () => this.panCamera(-panStep, 0),
+            panRight: () => this.panCamera(panStep, 0),
+            panUp: () => this.panCamera(0, panStep),
+            panDown: () => this.panCamera(0, -panStep),
+            zoomIn: () => this.zoomSmoothly(1 + zoomStep),
+            zoomOut: () => this.zoomSmoothly(1 - zoomStep),
+            toggleAutoRotate: () => this.setAutoRotate(!this.autoRotate),
+            resetView: () => this.resetView(),
+            toggleGridLines: () => this.toggleGridLines(),
+            toggleStats: () => this.toggleStats()
+        });
+        
+        // 设置事件监听器
+        this.setupEventListeners();
+        
+        // 初始化并开始渲染
+        this.initialize().catch(error => this.reportError(error));
+    }
+    
+    /**
+     * 初始化AIMap
+     */
+    private async initialize(): Promise<void> {
+        // 设置Canvas尺寸
+        this.resizeCanvas();
+        
+        // 初始化引擎（自动选择渲染后端）
+        const initialized = await this.engine.initialize(this.canvas, this.options.preferredBackend);
+        if (!initialized) {
+            throw new Error('引擎初始化失败，浏览器不支持WebGPU和WebGL2');
+        }
+        
+        // 后端不支持的深度策略已被引擎回退为标准深度
+        this.options.depthMode = this.engine.getDepthMode();
+        this.camera.setDepthMode(this.options.depthMode);
+        
+        // 设置相机
+        this.updateCameraFromOptions();
+        
+        // 初始化渲染器
+        await this.renderer.initialize();
+        if (this.destroyed) return;
+        
+        // 开始渲染循环
+        this.startRenderLoop();
+        this.emit('load', { backend: this.engine.getBackendType()! });
+    }
+    
+    /**
+     * 添加事件监听
+     * 指定图层ID时只在鼠标位于该图层的要素上时触发，事件数据包含features
+     */
+    public on<K extends keyof AIMapEvents>(type: K, listener: EventListener<AIMapEvents[K]>): this;
+    public on(type: MapLayerEventType, layerId: string, listener: EventListener<MapLayerMouseEvent>): this;
+    public on(type: keyof AIMapEvents | MapLayerEventType, layerIdOrListener: string | EventListener<AIMapEvents[keyof AIMapEvents]>, listener?: EventListener<MapLayerMouseEvent>): this {
+        if (typeof layerIdOrListener === 'string') {
+            if (isMapLayerEventType(type) && listener) {
+                this.layerListeners.push({ type, layerId: layerIdOrListener, listener, once: false });
+            }
+            return this;
+        }
+        // mouseenter和mouseleave只用于图层事件
+        if (type === 'mouseenter' || type === 'mouseleave') {
+            return this;
+        }
+        return super.on(type, layerIdOrListener);
+    }
+    
+    /**
+     * 添加只触发一次的事件监听，可以指定图层ID
+     */
+    public once<K extends keyof AIMapEvents>(type: K, listener: EventListener<AIMapEvents[K]>): this;
+    public once(type: MapLayerEventType, layerId: string, listener: EventListener<MapLayerMouseEvent>): this;
+    public once(type: keyof AIMapEvents | MapLayerEventType, layerIdOrListener: string | EventListener<AIMapEvents[keyof AIMapEvents]>, listener?: EventListener<MapLayerMouseEvent>): this {
+        if (typeof layerIdOrListener === 'string') {
+            if (isMapLayerEventType(type) && listener) {
+                this.layerListeners.push({ type, layerId: layerIdOrListener, listener, once: true });
+            }
+            return this;
+        }
+        if (type === 'mouseenter' || type === 'mouseleave') {
+            return this;
+        }
+        return super.once(type, layerIdOrListener);
+    }
+    
+    /**
+     * 移除事件监听，限定图层的监听需要传入相同的图层ID
+     */
+    public off<K extends keyof AIMapEvents>(type: K, listener: EventListener<AIMapEvents[K]>): this;
+    public off(type: MapLayerEventType, layerId: string, listener: EventListener<MapLayerMouseEvent>): this;
+    public off(type: keyof AIMapEvents | MapLayerEventType, layerIdOrListener: string | EventListener<AIMapEvents[keyof AIMapEvents]>, listener?: EventListener<MapLayerMouseEvent>): this {
+        if (typeof layerIdOrListener === 'string') {
+            const index = this.layerListeners.findIndex(entry =>
+                entry.type === type && entry.layerId === layerIdOrListener && entry.listener === listener);
+            if (index >= 0) {
+                this.layerListeners.splice(index, 1);
+            }
+            return this;
+        }
+        if (type === 'mouseenter' || type === 'mouseleave') {
+            return this;
+        }
+        return super.off(type, layerIdOrListener);
+    }
+    
+    /**
+     * 触发事件（销毁后不再触发）
+     */
+    protected emit<K extends keyof AIMapEvents>(type: K, event: AIMapEvents[K]): void {
+        if (this.destroyed) return;
+        super.emit(type, event);
+    }
+    
+    /**
+     * 报告错误：有error事件监听时触发事件，否则输出到控制台
+     */
+    private reportError(error: unknown): void {
+        const normalized = error instanceof Error ? error : new Error(String(error));
+        if (this.hasListeners('error') && !this.destroyed) {
+            this.emit('error', { error: normalized });
+        } else {
+            console.error(normalized);
+        }
+    }
+    
+    /**
+     * 设备恢复后在新设备上重建所有GPU资源
+     */
+    private async handleDeviceRestored(event: EngineEvents['devicerestored']): Promise<void> {
+        this.restoringDevice = true;
+        try {
+            this.composer.releaseDeviceResources();
+            await this.renderer.restore();
+            await this.layerManager.restoreLayers();
+        } finally {
+            this.restoringDevice = false;
+        }
+        
+        this.emit('devicerestored', event);
+        this.triggerRepaint();
+    }
+    
+    /**
+     * 设置事件监听器
+     */
+    private setupEventListeners(): void {
+        // 窗口大小变化事件
+        window.addEventListener('resize', this.boundHandleResize);
+        
+        // 地图鼠标事件（不受enableControl影响）
+        for (const type of MAP_MOUSE_EVENTS) {
+            this.canvas.addEventListener(type, this.boundHandleMapMouseEvent);
+        }
+        
+        // 如果启用控制，启用所有交互处理器
+        if (this.options.enableControl) {
+            this.dragPan.enable();
+            this.touchZoomRotate.enable();
+            this.doubleTapZoom.enable();
+            this.dragSelect.enable();
+            this.wheel.enable();
+            this.keyboard.enable();
+        }
+    }
+    
+    /**
+     * 处理窗口大小变化
+     */
+    private handleResize(): void {
+        this.resizeCanvas();
+        this.camera.setAspectRatio(this.canvas.width / this.canvas.height);
+        this.triggerRepaint();
+    }
+    
+    /**
+     * 调整Canvas大小
+     */
+    private resizeCanvas(): void {
+        const dpr = window.devicePixelRatio || 1;
+        const displayWidth = Math.floor(this.canvas.clientWidth * dpr);
+        const displayHeight = Math.floor(this.canvas.clientHeight * dpr);
+        
+        // 如果画布大小已经正确，则不做任何更改
+        if (this.canvas.width !== displayWidth || this.canvas.height !== displayHeight) {
+            this.canvas.width = displayWidth;
+            this.canvas.height = displayHeight;
+        }
+    }
+    
+    /**
+     * 从选项更新相机参数
+     */
+    private updateCameraFromOptions(): void {
+        const [longitude, latitude] = this.options.center ?? [0, 0];
+        
+        // 相机视距基于缩放级别，初始视角同样受缩放级别和范围约束
+        this.cameraController.resetState({
+            longitude,
+            latitude,
+            altitude: GlobeCameraController.zoomToAltitude(this.options.zoom!),
+            heading: this.options.bearing!,
+            pitch: this.options.pitch!,
+            roll: 0
+        });
+        
+        // 设置宽高比
+        this.camera.setAspectRatio(this.canvas.width / this.canvas.height);
+        
+        // 初始视角就绪后开始同步地址栏哈希，并以此作为视角变化事件的起点
+        this.urlHash?.enable();
+        this.lastMoveState = this.cameraController.getState();
+    }
+    
+    /**
+     * 用地址栏哈希中的视角覆盖初始视角选项
+     */
+    private applyHashToOptions(): void {
+        const state = this.urlHash!.read();
+        if (!state) return;
+        
+        this.options.center = [state.longitude!, state.latitude!];
+        this.options.zoom = GlobeCameraController.altitudeToZoom(state.altitude!);
+        if (state.heading !== undefined) {
+            this.options.bearing = state.heading;
+        }
+        if (state.pitch !== undefined) {
+            this.options.pitch = state.pitch;
+        }
+    }
+    
+    /**
+     * 开始渲染循环
+     */
+    private startRenderLoop(): void {
+        // 确保不会创建多个渲染循环
+        if (this.animationFrameId !== null) {
+            cancelAnimationFrame(this.animationFrameId);
+            this.animationFrameId = null;
+        }
+        
+        this.renderLoopRunning = true;
+        this.lastFrameTime = 0;
+        this.triggerRepaint();
+    }
+    
+    /**
+     * 请求下一帧（同一时刻最多只有一个待执行的帧）
+     */
+    private scheduleFrame(): void {
+        if (!this.renderLoopRunning || this.animationFrameId !== null) {
+            return;
+        }
+        this.animationFrameId = requestAnimationFrame(this.renderFrame);
+    }
+    
+    /**
+     * 渲染循环的单帧
+     */
+    private renderFrame = (currentTime: number): void => {
+        this.animationFrameId = null;
+        
+        const stats = this.engine.getStats();
+        stats.beginFrame();
+        
+        // 计算帧时间差
+        const deltaTime = currentTime - (this.lastFrameTime || currentTime);
+        this.lastFrameTime = currentTime;
+        
+        stats.beginPhase('update');
+        
+        // 投影过渡
+        if (this.projectionMorph) {
+            this.updateProjectionMorph(deltaTime);
+        }
+        
+        // 导览和相机动画优先于自动旋转（相机变化会请求下一帧）
+        if (this.tourPlayer && !this.tourPlayer.isPaused()) {
+            this.updateTour(deltaTime);
+        } else if (this.cameraAnimation) {
+            this.updateCameraAnimation(deltaTime);
+        } else {
+            // 拖拽惯性和平滑缩放
+            this.cameraMotion.update(deltaTime);
+            if (this.autoRotate) {
+                this.rotateLongitude(-this.autoRotateSpeed);
+            }
+        }
+        
+        // 更新图层
+        this.layerManager.update(deltaTime);
+        
+        stats.endPhase('update');
+        
+        // 视角变化事件
+        this.updateMoveEvents();
+        
+        // 有图层在持续动画时显式请求下一帧
+        if (this.layerManager.isAnimating() || this.cameraMotion.isActive() || (this.tourPlayer && !this.tourPlayer.isPaused())) {
+            this.triggerRepaint();
+        }
+        
+        const continuous = this.options.renderMode !== 'on-demand';
+        
+        // 渲染地球和图层
+        if (continuous || this.renderRequested) {
+            this.renderRequested = false;
+            this.renderScene();
+            stats.endFrame();
+            this.statsHUD.update(stats.getSnapshot());
+            this.emit('render', { deltaTime });
+        } else {
+            stats.cancelFrame();
+        }
+        
+        // 继续渲染循环
+        if (continuous) {
+            this.scheduleFrame();
+        }
+        
+        // 渲染循环空闲时重置计时，避免恢复后的第一帧时间差过大
+        if (this.animationFrameId === null) {
+            this.lastFrameTime = 0;
+        }
+    };
+    
+    /**
+     * 比较相机状态与上一帧，触发movestart、move、zoom和moveend事件
+     * 拖拽、相机动画、惯性和导览播放期间即使某一帧视角未变也视为仍在移动
+     */
+    private updateMoveEvents(): void {
+        const previous = this.lastMoveState;
+        if (!previous) return;
+        
+        const state = this.cameraController.getState();
+        const changed = (Object.keys(state) as Array<keyof GlobeCameraState>).some(key => state[key] !== previous[key]);
+        const active = this.dragPan.isActive() ||
+            this.touchZoomRotate.isActive() ||
+            this.cameraAnimation !== null ||
+            this.cameraMotion.isActive() ||
+            (this.tourPlayer !== null && !this.tourPlayer.isPaused());
+        
+        if (!this.moving && (changed || this.cameraAnimation)) {
+            this.moving = true;
+            this.emit('movestart', { state: previous });
+        }
+        
+        if (changed) {
+            this.lastMoveState = state;
+            this.emit('move', { state });
+            if (state.altitude !== previous.altitude) {
+                this.emit('zoom', { state, zoom: GlobeCameraController.altitudeToZoom(state.altitude) });
+            }
+        } else if (this.moving && !active) {
+            const completed = !this.moveInterrupted;
+            this.moving = false;
+            this.moveInterrupted = false;
+            this.emit('moveend', { state, completed });
+        }
+        
+        // 视角停止变化后还需要一帧才能确认移动结束
+        if (this.moving) {
+            this.scheduleFrame();
+        }
+    }
+    
+    /**
+     * 请求重绘
+     * 按需渲染模式下，直接修改效果参数等引擎无法感知的变化后需要调用此方法
+     */
+    public triggerRepaint(): void {
+        this.renderRequested = true;
+        this.scheduleFrame();
+    }
+    
+    /**
+     * 设置渲染模式
+     */
+    public setRenderMode(mode: RenderMode): void {
+        this.options.renderMode = mode;
+        this.triggerRepaint();
+    }
+    
+    /**
+     * 获取渲染模式
+     */
+    public getRenderMode(): RenderMode {
+        return this.options.renderMode!;
+    }
+    
+    /**
+     * 设置深度策略
+     * 深度缓冲区格式和内置渲染管线会在下一帧自动切换
+     */
+    public setDepthMode(depthMode: DepthMode): void {
+        this.engine.setDepthMode(depthMode);
+        this.options.depthMode = this.engine.getDepthMode();
+        this.camera.setDepthMode(this.options.depthMode);
+        this.triggerRepaint();
+    }
+    
+    /**
+     * 获取实际使用的渲染后端，初始化完成前为null
+     */
+    public getBackendType(): BackendType | null {
+        return this.engine.getBackendType();
+    }
+    
+    /**
+     * 获取深度策略
+     */
+    public getDepthMode(): DepthMode {
+        return this.options.depthMode!;
+    }
+    
+    /**
+     * 渲染场景（地球和所有图层）
+     */
+    private renderScene(): void {
+        if (this.restoringDevice) return;
+        
+        // 帧合成器在同一个渲染通道中依次绘制地球和可见图层
+        this.composer.render();
+    }
+    
+    /**
+     * 停止渲染循环
+     */
+    public stop(): void {
+        this.renderLoopRunning = false;
+        if (this.animationFrameId !== null) {
+            cancelAnimationFrame(this.animationFrameId);
+            this.animationFrameId = null;
+        }
+    }
+    
+    /**
+     * 把画布上的鼠标事件转换为带经纬度的地图事件
+     */
+    private handleMapMouseEvent(event: MouseEvent): void {
+        const rect = this.canvas.getBoundingClientRect();
+        const point: [number, number] = [event.clientX - rect.left, event.clientY - rect.top];
+        
+        if (event.type === 'pointerdown') {
+            if ((event as PointerEvent).isPrimary) {
+                this.pointerDownPoint = point;
+            }
+            return;
+        }
+        
+        // 拖拽后松开产生的click和contextmenu不是点击
+        if ((event.type === 'click' || event.type === 'contextmenu') && this.pointerDownPoint) {
+            const moved = Math.hypot(point[0] - this.pointerDownPoint[0], point[1] - this.pointerDownPoint[1]);
+            this.pointerDownPoint = null;
+            if (moved > CLICK_TOLERANCE) return;
+        }
+        
+        // 鼠标移出画布时也移出了所有要素
+        if (event.type === 'mouseleave') {
+            for (const layerId of [...this.hoveredLayers]) {
+                this.hoveredLayers.delete(layerId);
+                this.emitLayerEvent('mouseleave', layerId, { point, lngLat: null, originalEvent: event, features: [] });
+            }
+            return;
+        }
+        
+        const type = event.type as 'click' | 'dblclick' | 'mousemove' | 'contextmenu';
+        const layerTypes: MapLayerEventType[] = type === 'mousemove' ? ['mousemove', 'mouseenter', 'mouseleave'] : [type];
+        const layerIds = [...new Set(this.layerListeners
+            .filter(entry => layerTypes.includes(entry.type))
+            .map(entry => entry.layerId))];
+        if (!this.hasListeners(type) && layerIds.length === 0) return;
+        
+        const mapEvent: MapMouseEvent = { point, lngLat: this.unproject(point), originalEvent: event };
+        this.emit(type, mapEvent);
+        if (layerIds.length === 0) return;
+        
+        // 只查询有监听的图层
+        const features = this.queryRenderedFeatures(point, { layers: layerIds });
+        for (const layerId of layerIds) {
+            const layerFeatures = features.filter(feature => feature.layerId === layerId);
+            const hit = layerFeatures.length > 0;
+            
+            if (type === 'mousemove') {
+                if (hit && !this.hoveredLayers.has(layerId)) {
+                    this.hoveredLayers.add(layerId);
+                    this.emitLayerEvent('mouseenter', layerId, { ...mapEvent, features: layerFeatures });
+                } else if (!hit && this.hoveredLayers.delete(layerId)) {
+                    this.emitLayerEvent('mouseleave', layerId, { ...mapEvent, features: [] });
+                }
+            }
+            if (hit) {
+                this.emitLayerEvent(type, layerId, { ...mapEvent, features: layerFeatures });
+            }
+        }
+    }
+    
+    /**
+     * 触发限定图层的事件
+     * 单个监听函数抛出的异常不会影响其他监听函数
+     */
+    private emitLayerEvent(type: MapLayerEventType, layerId: string, event: MapLayerMouseEvent): void {
+        if (this.destroyed) return;
+        
+        for (const entry of [...this.layerListeners]) {
+            if (entry.type !== type || entry.layerId !== layerId) continue;
+            if (entry.once) {
+                this.layerListeners.splice(this.layerListeners.indexOf(entry), 1);
+            }
+            try {
+                entry.listener(event);
+            } catch (error) {
+                console.error(`事件 ${type} 的监听函数执行出错:`, error);
+            }
+        }
+    }
+    
+    /**
+     * 任一指针处理器启用时禁止浏览器处理画布上的触摸滚动和缩放，全部禁用时恢复原本的touch-action
+     */
+    private updateTouchAction(): void {
+        const enabled = this.dragPan.isEnabled() || this.touchZoomRotate.isEnabled() || this.doubleTapZoom.isEnabled();
+        this.canvas.style.touchAction = enabled ? 'none' : this.originalTouchAction;
+    }
+    
+    /**
+     * 重置视角并停止自动旋转
+     */
+    private resetView(): void {
+        this.setCameraState({
+            longitude: 0,
+            latitude: 0,
+            altitude: GlobeCameraController.zoomToAltitude(1),
+            heading: 0,
+            pitch: 0,
+            roll: 0
+        });
+        this.setAutoRotate(false);
+    }
+    
+    /**
+     * 沿屏幕方向平移视图（弧度），打断进行中的相机动画
+     */
+    private panCamera(dx: number, dy: number): void {
+        this.stopCameraAnimation();
+        this.cameraController.pan(dx, dy);
+    }
+    
+    /**
+     * 以视图中心平滑缩放
+     * @param factor 目标缩放级别相对当前目标的倍数
+     */
+    private zoomSmoothly(factor: number): void {
+        this.interruptCameraAnimation();
+        this.cameraMotion.zoomTo(this.cameraMotion.getTargetZoom() * factor);
+        this.triggerRepaint();
+    }
+    
+    /**
+     * 获取画布上某点（客户区坐标）对应的地表经纬度，未指向地球时为null
+     */
+    private getGlobePointAt(clientX: number, clientY: number): [number, number] | null {
+        const rect = this.canvas.getBoundingClientRect();
+        return this.unproject([clientX - rect.left, clientY - rect.top]);
+    }
+    
+    /**
+     * 获取画布上某点对应的地表经纬度
+     * 画布坐标以CSS像素为单位、相对画布左上角（与鼠标事件的offsetX/offsetY一致），
+     * 与绘图缓冲区的设备像素相差devicePixelRatio倍
+     * @param point 画布坐标[x, y]
+     * @returns [经度, 纬度]，视线未与地表相交时为null
+     */
+    public unproject(point: [number, number]): [number, number] | null {
+        const rect = this.canvas.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0) {
+            return null;
+        }
+        
+        const ndcX = point[0] / rect.width * 2 - 1;
+        const ndcY = 1 - point[1] / rect.height * 2;
+        return this.cameraController.pickGlobe(ndcX, ndcY);
+    }
+    
+    /**
+     * 获取经纬度对应的画布坐标（CSS像素，相对画布左上角）
+     * @param lngLatAlt [经度, 纬度, 高度]，高度可省略
+     * @returns 画布坐标和遮挡标记：位于相机后方或地平线以外（被地球遮挡）时occluded为true，此时坐标没有意义
+     */
+    public project(lngLatAlt: [number, number] | [number, number, number]): ProjectedPoint {
+        const rect = this.canvas.getBoundingClientRect();
+        const [longitude, latitude, altitude = 0] = lngLatAlt;
+        const { ndcX, ndcY, occluded } = this.cameraController.projectPoint(longitude, latitude, altitude);
+        
+        return {
+            x: (ndcX + 1) / 2 * rect.width,
+            y: (1 - ndcY) / 2 * rect.height,
+            occluded
+        };
+    }
+    
+    /**
+     * 查询画布上某点处绘制的要素（按屏幕距离在CPU上拾取，被地球遮挡的要素不会被拾取）
+     * @param point 画布坐标[x, y]（CSS像素，相对画布左上角）
+     * @returns 要素的图层ID、序号、标签和自定义数据，上层图层在前，同一图层内由近到远
+     */
+    public queryRenderedFeatures(point: [number, number], options: QueryRenderedFeaturesOptions = {}): RenderedFeature[] {
+        const project = this.createScreenProjector();
+        return project ? this.layerManager.queryRenderedFeatures(point, project, options.layers) : [];
+    }
+    
+    /**
+     * 选中画布上多边形区域内的要素，替换之前的选择并高亮显示
+     * 区域按当前视角投影到地表，位于地球背面（被遮挡）的要素不会被选中
+     * @param polygon 区域顶点的画布坐标（CSS像素，相对画布左上角），至少3个顶点
+     * @returns 选中的要素
+     */
+    public selectPolygon(polygon: Array<[number, number]>): RenderedFeature[] {
+        const project = this.createScreenProjector();
+        this.setSelection(project ? this.layerManager.queryFeaturesInPolygon(polygon, project) : []);
+        return this.getSelection();
+    }
+    
+    /**
+     * 获取选中的要素（副本），index为选择时要素在图层数据中的序号
+     */
+    public getSelection(): RenderedFeature[] {
+        return this.selection.map(feature => ({ ...feature }));
+    }
+    
+    /**
+     * 清除选择
+     */
+    public clearSelection(): void {
+        if (this.selection.length > 0) {
+            this.setSelection([]);
+        }
+    }
+    
+    /**
+     * 更新选择和各图层的高亮，并触发selectionchange事件
+     */
+    private setSelection(features: RenderedFeature[]): void {
+        this.selection = features;
+        
+        const indices = new Map<string, number[]>();
+        for (const feature of features) {
+            const layerIndices = indices.get(feature.layerId) ?? [];
+            layerIndices.push(feature.index);
+            indices.set(feature.layerId, layerIndices);
+        }
+        for (const layer of this.layerManager.getAllLayers()) {
+            layer.setHighlightedFeatures(indices.get(layer.getId()) ?? []);
+        }
+        
+        this.emit('selectionchange', { features: this.getSelection() });
+    }
+    
+    /**
+     * 取消图层中要素的选择
+     */
+    private deselectLayer(layerId: string): void {
+        if (this.selection.some(feature => feature.layerId === layerId)) {
+            this.setSelection(this.selection.filter(feature => feature.layerId !== layerId));
+        }
+    }
+    
+    /**
+     * 创建按当前视角把经纬度转换为画布坐标（CSS像素）的函数，画布尺寸为0时为null
+     */
+    private createScreenProjector(): ScreenProjector | null {
+        const rect = this.canvas.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0) {
+            return null;
+        }
+        
+        return (longitude, latitude, altitude) => {
+            const { ndcX, ndcY, occluded } = this.cameraController.projectPoint(longitude, latitude, altitude);
+            return {
+                x: (ndcX + 1) / 2 * rect.width,
+                y: (1 - ndcY) / 2 * rect.height,
+                occluded
+            };
+        };
+    }
+    
+    /**
+     * 绕地轴旋转相机（弧度）
+     */
+    private rotateLongitude(angle: number): void {
+        const { longitude } = this.cameraController.getState();
+        this.cameraController.setState({ longitude: longitude + angle * 180 / Math.PI });
+    }
+    
+    /**
+     * 设置缩放级别
+     */
+    public setZoom(zoom: number): void {
+        this.stopCameraAnimation();
+        this.cameraController.setState({
+            altitude: GlobeCameraController.zoomToAltitude(zoom)
+        });
+    }
+    
+    /**
+     * 设置地图中心
+     */
+    public setCenter(longitude: number, latitude: number): void {
+        this.stopCameraAnimation();
+        this.cameraController.setState({ longitude, latitude });
+    }
+    
+    /**
+     * 设置方位角（度），屏幕上方所指的方向，0为正北，90为正东
+     */
+    public setBearing(bearing: number): void {
+        this.stopCameraAnimation();
+        this.cameraController.setState({ heading: bearing });
+    }
+    
+    /**
+     * 获取方位角（度）
+     */
+    public getBearing(): number {
+        return this.cameraController.getState().heading;
+    }
+    
+    /**
+     * 设置俯仰角（度），0为垂直俯视，最大85
+     */
+    public setPitch(pitch: number): void {
+        this.stopCameraAnimation();
+        this.cameraController.setState({ pitch });
+    }
+    
+    /**
+     * 获取俯仰角（度）
+     */
+    public getPitch(): number {
+        return this.cameraController.getState().pitch;
+    }
+    
+    /**
+     * 设置相机约束（minZoom、maxZoom、maxBounds、lockRotation、lockPitch），未提供的字段保持不变
+     * 当前视角立即按新约束修正；鼠标、触摸、键盘、相机动画和自动旋转都受约束限制
+     * @example
+     * map.setConstraints({ maxBounds: [[73, 18], [135, 54]], minZoom: 2, lockRotation: true });
+     */
+    public setConstraints(constraints: Partial<CameraConstraints>): void {
+        this.cameraController.setConstraints(constraints);
+    }
+    
+    /**
+     * 获取相机约束
+     */
+    public getConstraints(): CameraConstraints {
+        return this.cameraController.getConstraints();
+    }
+    
+    /**
+     * 获取相机状态（目标点经纬度、视距、航向、俯仰和翻滚）
+     */
+    public getCameraState(): GlobeCameraState {
+        return this.cameraController.getState();
+    }
+    
+    /**
+     * 设置相机状态，未提供的字段保持不变
+     */
+    public setCameraState(state: Partial<GlobeCameraState>): void {
+        this.stopCameraAnimation();
+        this.cameraController.setState(state);
+    }
+    
+    /**
+     * 飞行到目标视角
+     * 中心点沿大圆弧移动，远距离跳转时中途拉高视距；鼠标、触摸、键盘操作或新的相机调用会打断动画
+     * @returns 动画结束时resolve，完整播放为true，被打断为false
+     * @example
+     * await map.flyTo({ center: [116.4, 39.9], zoom: 4, bearing: 30, pitch: 45 });
+     */
+    public flyTo(options: CameraAnimationOptions): Promise<boolean> {
+        return this.startCameraAnimation(options, true);
+    }
+    
+    /**
+     * 平滑过渡到目标视角，中心点沿大圆弧移动，视距不会中途拉高
+     * @returns 动画结束时resolve，完整播放为true，被打断为false
+     */
+    public easeTo(options: CameraAnimationOptions): Promise<boolean> {
+        return this.startCameraAnimation(options, false);
+    }
+    
+    /**
+     * 调整视角使经纬度范围完整显示
+     * @param bounds [[西, 南], [东, 北]]，西边界大于东边界时表示跨越180度经线
+     * @returns 与easeTo相同，默认以500毫秒动画过渡，duration为0时直接跳转
+     * @example
+     * map.fitBounds([[170, -50], [-170, -30]], { padding: 40 });
+     */
+    public fitBounds(bounds: LonLatBounds, options: FitBoundsOptions = {}): Promise<boolean> {
+        return this.fitBoundingCap(BoundingCap.fromBounds(bounds), options);
+    }
+    
+    /**
+     * 调整视角使图层的所有数据完整显示
+     * @returns 图层不存在或没有数据时为false，否则与easeTo相同
+     */
+    public fitLayer(layerId: string, options: FitBoundsOptions = {}): Promise<boolean> {
+        const layer = this.layerManager.getLayer(layerId);
+        const cap = layer ? BoundingCap.fromCoordinates(layer.getCoordinates()) : null;
+        if (!cap) {
+            console.warn(`图层${layerId}不存在或没有数据`);
+            return Promise.resolve(false);
+        }
+        return this.fitBoundingCap(cap, options);
+    }
+    
+    /**
+     * 以球冠中心为视图中心，选择刚好容纳球冠的缩放级别
+     */
+    private fitBoundingCap(cap: BoundingCap, options: FitBoundsOptions): Promise<boolean> {
+        const { padding = 0, ...animationOptions } = options;
+        return this.easeTo({
+            pitch: 0,
+            ...animationOptions,
+            center: cap.center,
+            zoom: this.getZoomForCap(cap, padding)
+        });
+    }
+    
+    /**
+     * 计算垂直俯视时刚好容纳球冠的缩放级别
      */
-    enableControl?: boolean;
+    private getZoomForCap(cap: BoundingCap, padding: number): number {
+        // 扣除四周空白后，宽高方向中较窄的视野半角
+        const width = Math.max(1, this.canvas.clientWidth);
+        const height = Math.max(1, this.canvas.clientHeight);
+        const tanHalfFov = Math.tan(this.camera.getFov() / 2);
+        const tanHalfAngle = Math.min(
+            tanHalfFov * Math.max(0.1, 1 - 2 * padding / height),
+            tanHalfFov * this.camera.getAspectRatio() * Math.max(0.1, 1 - 2 * padding / width)
+        );
+        
+        // 整个地球刚好可见时相机到地心的距离
+        let distance = 1 / Math.sin(Math.atan(tanHalfAngle));
+        
+        // 球冠边缘的张角等于视野半角，并且边缘不能位于地平线之后
+        if (cap.radius < Math.PI / 2) {
+            const fitDistance = Math.cos(cap.radius) + Math.sin(cap.radius) / tanHalfAngle;
+            distance = Math.min(distance, Math.max(fitDistance, 1 / Math.cos(cap.radius)));
+        }
+        
+        return GlobeCameraController.altitudeToZoom(distance - 1);
+    }
     
     /**
-     * Canvas的背景颜色
+     * 停止进行中的相机动画，包括拖拽惯性和平滑缩放；正在播放的导览暂停
      */
-    backgroundColor?: [number, number, number, number];
-
+    public stopCameraAnimation(): void {
+        this.interruptCameraAnimation();
+        this.cameraMotion.stop();
+    }
+    
     /**
-     * 是否显示经纬网格线
+     * 打断相机动画并暂停导览（用户操作或直接设置视角时调用）
      */
-    showGridLines?: boolean;
-}
-
-/**
- * AIMap默认选项
- */
-const DEFAULT_OPTIONS: AIMapOptions = {
-    zoom: 1,
-    center: [0, 0],
-    rotation: 0,
-    enableControl: true,
-    backgroundColor: [0, 0, 0, 1],
-    showGridLines: false
-};
-
-/**
- * AIMap类 - WebGPU地理引擎的主要入口
- */
-export default class AIMap {
-    private engine: Engine;
-    private camera: Camera;
-    private renderer: GlobeRenderer;
-    private layerManager: LayerManager;
-    private canvas: HTMLCanvasElement;
-    private options: AIMapOptions;
-    private animationFrameId: number | null = null;
-    private lastFrameTime: number = 0;
-    
-    // 鼠标控制相关属性
-    private isDragging: boolean = false;
-    private lastMouseX: number = 0;
-    private lastMouseY: number = 0;
-    private rotationSpeed: number = 0.01;
-    private autoRotate: boolean = false;
-    private autoRotateSpeed: number = 0.005;
-    
-    // 存储绑定后的事件处理函数引用
-    private boundHandleResize: (event: UIEvent) => void;
-    private boundHandleMouseDown: (event: MouseEvent) => void;
-    private boundHandleMouseMove: (event: MouseEvent) => void;
-    private boundHandleMouseUp: (event: MouseEvent) => void;
-    private boundHandleWheel: (event: WheelEvent) => void;
-    private boundHandleTouchStart: (event: TouchEvent) => void;
-    private boundHandleTouchMove: (event: TouchEvent) => void;
-    private boundHandleTouchEnd: (event: TouchEvent) => void;
-    private boundHandleKeyDown: (event: KeyboardEvent) => void;
+    private interruptCameraAnimation(): void {
+        this.finishCameraAnimation(false);
+        this.pauseTour();
+    }
     
     /**
-     * 创建AIMap实例
-     * @param canvasId Canvas元素的ID或HTMLCanvasElement实例
-     * @param options AIMap选项
+     * 设置拖拽惯性
+     * @param enabled 是否启用
+     * @param friction 摩擦系数，速度按 e^(-系数×秒) 衰减，越大停止越快
      */
-    constructor(canvasId: string | HTMLCanvasElement, options: AIMapOptions = {}) {
-        // 合并选项
-        this.options = { ...DEFAULT_OPTIONS, ...options };
-        if (!canvasId) {
-            throw new Error('canvasId不能为空');
-        }
-        // 获取Canvas元素
-        if (typeof canvasId === 'string') {
-            const element = document.getElementById(canvasId);
-            if (!element || !(element instanceof HTMLCanvasElement)) {
-                throw new Error(`找不到ID为${canvasId}的Canvas元素`);
-            }
-            this.canvas = element;
-        } else if (canvasId instanceof HTMLCanvasElement) {
-            this.canvas = canvasId;
-        } else {
-            throw new Error('canvasId必须是Canvas元素ID或HTMLCanvasElement实例');
+    public setInertia(enabled: boolean, friction?: number): void {
+        this.options.inertia = enabled;
+        this.cameraMotion.setInertiaEnabled(enabled);
+        if (friction !== undefined) {
+            this.options.inertiaFriction = friction;
+            this.cameraMotion.setFriction(friction);
         }
-        
-        // 初始化引擎组件
-        this.engine = new Engine();
-        this.camera = new Camera();
-        this.renderer = new GlobeRenderer(this.engine, this.camera, this.options.showGridLines);
-        this.layerManager = new LayerManager(this.engine, this.camera);
-        
-        // 绑定事件处理函数
-        this.boundHandleResize = this.handleResize.bind(this);
-        this.boundHandleMouseDown = this.handleMouseDown.bind(this);
-        this.boundHandleMouseMove = this.handleMouseMove.bind(this);
-        this.boundHandleMouseUp = this.handleMouseUp.bind(this);
-        this.boundHandleWheel = this.handleWheel.bind(this);
-        this.boundHandleTouchStart = this.handleTouchStart.bind(this);
-        this.boundHandleTouchMove = this.handleTouchMove.bind(this);
-        this.boundHandleTouchEnd = this.handleTouchEnd.bind(this);
-        this.boundHandleKeyDown = this.handleKeyDown.bind(this);
-        
-        // 设置事件监听器
-        this.setupEventListeners();
-        
-        // 初始化并开始渲染
-        this.initialize();
     }
     
     /**
-     * 初始化AIMap
+     * 切换地图投影
+     * 地表在当前投影和目标投影之间逐帧插值；切换到平面投影时，地图平面与地球在当前视图中心处相切
+     * @param name 投影名称
+     * @param options 过渡选项
      */
-    private async initialize(): Promise<void> {
-        // 设置Canvas尺寸
-        this.resizeCanvas();
-        
-        // 初始化WebGPU引擎
-        const initialized = await this.engine.initialize(this.canvas);
-        if (!initialized) {
-            throw new Error('WebGPU引擎初始化失败');
+    public setProjection(name: ProjectionName, options: SetProjectionOptions = {}): void {
+        if (name === this.projection.name && !this.projectionMorph) {
+            return;
         }
         
-        // 设置相机
-        this.updateCameraFromOptions();
-        
-        // 初始化渲染器
-        await this.renderer.initialize();
+        // 平面投影之间切换时保持切点不变，地图不会整体移动
+        const { longitude, latitude } = this.cameraController.getState();
+        const reference = this.projection instanceof FlatProjection
+            ? this.projection.getReference()
+            : [longitude, latitude] as [number, number];
         
-        // 开始渲染循环
-        this.startRenderLoop();
+        this.options.projection = name;
+        this.projection = this.createProjection(name, reference);
+        this.projectionMorph = {
+            from: this.camera.getProjection(),
+            to: this.projection,
+            duration: Math.max(0, options.duration ?? 1000),
+            elapsed: 0
+        };
+        this.updateProjectionMorph(0);
     }
     
     /**
-     * 设置事件监听器
+     * 获取地图投影名称（过渡动画中为目标投影）
      */
-    private setupEventListeners(): void {
-        // 窗口大小变化事件
-        window.addEventListener('resize', this.boundHandleResize);
-        
-        // 如果启用控制，设置鼠标和触摸事件
-        if (this.options.enableControl) {
-            // 鼠标事件
-            this.canvas.addEventListener('mousedown', this.boundHandleMouseDown);
-            this.canvas.addEventListener('mousemove', this.boundHandleMouseMove);
-            this.canvas.addEventListener('mouseup', this.boundHandleMouseUp);
-            this.canvas.addEventListener('mouseleave', this.boundHandleMouseUp);
-            
-            // 鼠标滚轮事件
-            this.canvas.addEventListener('wheel', this.boundHandleWheel, { passive: false });
-            
-            // 触摸事件
-            this.canvas.addEventListener('touchstart', this.boundHandleTouchStart, { passive: false });
-            this.canvas.addEventListener('touchmove', this.boundHandleTouchMove, { passive: false });
-            this.canvas.addEventListener('touchend', this.boundHandleTouchEnd);
-            
-            // 键盘事件
-            window.addEventListener('keydown', this.boundHandleKeyDown);
-        }
+    public getProjection(): ProjectionName {
+        return this.projection.name;
     }
     
     /**
-     * 处理窗口大小变化
+     * 创建投影
+     * @param reference 平面投影与地球的切点[经度, 纬度]
      */
-    private handleResize(): void {
-        this.resizeCanvas();
-        this.camera.setAspectRatio(this.canvas.width / this.canvas.height);
+    private createProjection(name: ProjectionName, reference: [number, number]): Projection {
+        switch (name) {
+            case 'globe':
+                return new GlobeProjection();
+            case 'mercator':
+                return new MercatorProjection(reference);
+            case 'equirectangular':
+                return new EquirectangularProjection(reference);
+            default:
+                throw new Error(`不支持的投影: ${name}`);
+        }
     }
     
     /**
-     * 调整Canvas大小
+     * 推进投影过渡动画
      */
-    private resizeCanvas(): void {
-        const dpr = window.devicePixelRatio || 1;
-        const displayWidth = Math.floor(this.canvas.clientWidth * dpr);
-        const displayHeight = Math.floor(this.canvas.clientHeight * dpr);
+    private updateProjectionMorph(deltaTime: number): void {
+        const morph = this.projectionMorph!;
+        morph.elapsed += deltaTime;
         
-        // 如果画布大小已经正确，则不做任何更改
-        if (this.canvas.width !== displayWidth || this.canvas.height !== displayHeight) {
-            this.canvas.width = displayWidth;
-            this.canvas.height = displayHeight;
+        const progress = morph.duration > 0 ? Math.min(1, morph.elapsed / morph.duration) : 1;
+        if (progress >= 1) {
+            this.projectionMorph = null;
+            this.cameraController.setProjection(morph.to);
+        } else {
+            this.cameraController.setProjection(new MorphProjection(morph.from, morph.to, easeInOutCubic(progress)));
         }
     }
     
     /**
-     * 从选项更新相机参数
+     * 相机动画是否正在进行
      */
-    private updateCameraFromOptions(): void {
-        // 设置相机位置，基于缩放级别
-        const cameraDistance = 3 / this.options.zoom!;
-        
-        // 将中心点(经纬度)转换为3D位置
-        if (this.options.center) {
-            const [longitude, latitude] = this.options.center;
-            
-            // 计算相机位置
-            const phi = (90 - latitude) * (Math.PI / 180);
-            const theta = (longitude + 180) * (Math.PI / 180);
-            
-            const x = -cameraDistance * Math.sin(phi) * Math.cos(theta);
-            const y = cameraDistance * Math.cos(phi);
-            const z = cameraDistance * Math.sin(phi) * Math.sin(theta);
-            
-            this.camera.setPosition(x, y, z);
-        } else {
-            // 默认相机位置
-            this.camera.setPosition(0, 0, cameraDistance);
-        }
-        
-        // 设置观察目标
-        this.camera.setTarget(0, 0, 0);
-        
-        // 设置宽高比
-        this.camera.setAspectRatio(this.canvas.width / this.canvas.height);
+    public isCameraAnimating(): boolean {
+        return this.cameraAnimation !== null;
     }
     
     /**
-     * 开始渲染循环
+     * 开始相机动画，进行中的动画会被打断
      */
-    private startRenderLoop(): void {
-        // 确保不会创建多个渲染循环
-        if (this.animationFrameId !== null) {
-            cancelAnimationFrame(this.animationFrameId);
-            this.animationFrameId = null;
-        }
+    private startCameraAnimation(options: CameraAnimationOptions, fly: boolean): Promise<boolean> {
+        this.stopCameraAnimation();
         
-        const renderFrame = (currentTime: number) => {
-            // 计算帧时间差
-            const deltaTime = currentTime - (this.lastFrameTime || currentTime);
-            this.lastFrameTime = currentTime;
-            
-            // 如果启用自动旋转
-            if (this.autoRotate) {
-                this.rotateGlobeY(this.autoRotateSpeed);
-            }
-            
-            // 更新图层
-            this.layerManager.update(deltaTime);
-            
-            // 渲染地球和图层
-            this.renderScene();
-            
-            // 继续渲染循环
-            this.animationFrameId = requestAnimationFrame(renderFrame);
-        };
+        const from = this.cameraController.getState();
+        const [longitude, latitude] = options.center ?? [from.longitude, from.latitude];
+        // 目标视角先经过约束解析，动画结束于约束范围内
+        const to = this.cameraController.resolveState({
+            longitude,
+            latitude,
+            altitude: options.zoom !== undefined
+                ? GlobeCameraController.zoomToAltitude(options.zoom)
+                : from.altitude,
+            heading: options.bearing ?? from.heading,
+            pitch: options.pitch ?? from.pitch,
+            roll: from.roll
+        });
         
-        // 启动渲染循环
-        this.animationFrameId = requestAnimationFrame(renderFrame);
+        return new Promise(resolve => {
+            this.cameraAnimation = new CameraAnimation(from, to, options, fly);
+            this.resolveCameraAnimation = resolve;
+            this.triggerRepaint();
+        });
     }
     
     /**
-     * 渲染场景（地球和所有图层）
+     * 推进相机动画
      */
-    private renderScene(): void {
-        // 渲染地球（包含内置的渲染通道管理）
-        this.renderer.render();
+    private updateCameraAnimation(deltaTime: number): void {
+        const animation = this.cameraAnimation!;
+        this.cameraController.setState(animation.update(deltaTime));
         
-        // TODO: 将图层渲染集成到renderer中，或者创建单独的渲染通道
-        // 目前先使用简单的方法
+        if (animation.isFinished()) {
+            this.finishCameraAnimation(true);
+        }
     }
     
     /**
-     * 停止渲染循环
+     * 结束相机动画并resolve其Promise
      */
-    public stop(): void {
-        if (this.animationFrameId !== null) {
-            cancelAnimationFrame(this.animationFrameId);
-            this.animationFrameId = null;
+    private finishCameraAnimation(completed: boolean): void {
+        if (!this.cameraAnimation) return;
+        
+        const resolve = this.resolveCameraAnimation!;
+        this.cameraAnimation = null;
+        this.resolveCameraAnimation = null;
+        
+        // 在本次视角变化结束时通过moveend报告
+        if (!completed && this.moving) {
+            this.moveInterrupted = true;
         }
+        resolve(completed);
     }
     
     /**
-     * 处理鼠标按下事件
+     * 以当前视角创建导览关键帧
+     * @param options 过渡时长、缓动以及是否记录图层可见性和光照方向
      */
-    private handleMouseDown(event: MouseEvent): void {
-        this.isDragging = true;
-        this.lastMouseX = event.clientX;
-        this.lastMouseY = event.clientY;
+    public captureTourKeyframe(options: TourKeyframeOptions = {}): TourKeyframe {
+        const state = this.cameraController.getState();
+        const keyframe: TourKeyframe = {
+            center: [state.longitude, state.latitude],
+            zoom: GlobeCameraController.altitudeToZoom(state.altitude),
+            bearing: state.heading,
+            pitch: state.pitch,
+            duration: options.duration ?? 2000,
+            easing: options.easing ?? 'ease-in-out'
+        };
         
-        // 停止自动旋转
-        this.autoRotate = false;
+        if (options.layers) {
+            keyframe.layers = this.getLayerVisibility();
+        }
+        if (options.lightDirection) {
+            keyframe.lightDirection = this.renderer.getLightDirection();
+        }
         
-        // 防止默认行为
-        event.preventDefault();
+        return keyframe;
     }
     
     /**
-     * 处理鼠标移动事件
+     * 播放导览，相机从当前视角开始依次过渡到各关键帧
+     * 用户操作或直接设置视角时导览暂停，可调用resumeTour继续
+     * @returns 导览结束时resolve，完整播放为true，被stopTour或新的导览打断为false
      */
-    private handleMouseMove(event: MouseEvent): void {
-        if (!this.isDragging) return;
-        
-        const deltaX = event.clientX - this.lastMouseX;
-        // 修正Y轴方向, 因为Y轴方向是相反的
-        const deltaY = -(event.clientY - this.lastMouseY);
-        
-        // 旋转地球
-        this.rotateGlobeY(-deltaX * this.rotationSpeed);
-        this.rotateGlobeX(-deltaY * this.rotationSpeed);
+    public playTour(tour: Tour): Promise<boolean> {
+        this.stopTour();
+        this.stopCameraAnimation();
         
-        this.lastMouseX = event.clientX;
-        this.lastMouseY = event.clientY;
+        if (tour.getKeyframeCount() === 0) {
+            console.warn('导览没有关键帧');
+            return Promise.resolve(false);
+        }
         
-        // 防止默认行为
-        event.preventDefault();
+        return new Promise(resolve => {
+            this.tourPlayer = new TourPlayer(
+                tour,
+                this.cameraController.getState(),
+                this.renderer.getLightDirection(),
+                this.getLayerVisibility()
+            );
+            this.resolveTour = resolve;
+            this.emit('tourstart', { duration: this.tourPlayer.getDuration() });
+            this.triggerRepaint();
+        });
     }
     
     /**
-     * 处理鼠标释放事件
+     * 暂停导览
      */
-    private handleMouseUp(event: MouseEvent): void {
-        this.isDragging = false;
-        event.preventDefault();
+    public pauseTour(): void {
+        if (!this.tourPlayer || this.tourPlayer.isPaused()) return;
+        
+        this.tourPlayer.pause();
+        this.emitTourProgress();
     }
     
     /**
-     * 处理鼠标滚轮事件
+     * 继续播放暂停的导览，相机从导览当前时刻的视角继续
      */
-    private handleWheel(event: WheelEvent): void {
-        // 确定缩放方向
-        const zoomDelta = event.deltaY > 0 ? 0.9 : 1.1;
-        
-        // 更新缩放级别
-        this.setZoom(this.options.zoom! * zoomDelta);
+    public resumeTour(): void {
+        if (!this.tourPlayer || !this.tourPlayer.isPaused()) return;
         
-        // 防止默认滚动行为
-        event.preventDefault();
+        this.stopCameraAnimation();
+        this.tourPlayer.resume();
+        this.applyTourSample();
+        this.emitTourProgress();
+        this.triggerRepaint();
     }
     
     /**
-     * 处理触摸开始事件
+     * 跳转到导览的指定时间（毫秒），暂停状态下同样立即更新视角
+     * @returns 没有进行中的导览时返回false
      */
-    private handleTouchStart(event: TouchEvent): void {
-        if (event.touches.length === 1) {
-            this.isDragging = true;
-            this.lastMouseX = event.touches[0].clientX;
-            this.lastMouseY = event.touches[0].clientY;
-            
-            // 停止自动旋转
-            this.autoRotate = false;
-        }
+    public seekTour(time: number): boolean {
+        if (!this.tourPlayer) return false;
         
-        // 防止默认行为
-        event.preventDefault();
+        this.finishCameraAnimation(false);
+        this.cameraMotion.stop();
+        this.tourPlayer.seek(time);
+        this.applyTourSample();
+        this.emitTourProgress();
+        return true;
     }
     
     /**
-     * 处理触摸移动事件
+     * 停止导览，视角保持在当前位置
      */
-    private handleTouchMove(event: TouchEvent): void {
-        if (!this.isDragging || event.touches.length !== 1) return;
-        
-        const deltaX = event.touches[0].clientX - this.lastMouseX;
-        const deltaY = event.touches[0].clientY - this.lastMouseY;
-        
-        // 旋转地球
-        this.rotateGlobeY(-deltaX * this.rotationSpeed);
-        this.rotateGlobeX(-deltaY * this.rotationSpeed);
-        
-        this.lastMouseX = event.touches[0].clientX;
-        this.lastMouseY = event.touches[0].clientY;
-        
-        // 防止默认行为
-        event.preventDefault();
+    public stopTour(): void {
+        this.finishTour(false);
     }
     
     /**
-     * 处理触摸结束事件
+     * 获取导览进度，没有进行中的导览时返回null
      */
-    private handleTouchEnd(event: TouchEvent): void {
-        console.log('TouchEvent', event);
-        this.isDragging = false;
+    public getTourProgress(): TourProgressEvent | null {
+        if (!this.tourPlayer) return null;
+        
+        const player = this.tourPlayer;
+        const duration = player.getDuration();
+        return {
+            time: player.getTime(),
+            duration,
+            progress: duration > 0 ? player.getTime() / duration : 1,
+            keyframe: player.sample().keyframe,
+            paused: player.isPaused()
+        };
     }
     
     /**
-     * 处理键盘事件
+     * 推进导览
      */
-    private handleKeyDown(event: KeyboardEvent): void {
-        if (!this.options.enableControl) return;
+    private updateTour(deltaTime: number): void {
+        const player = this.tourPlayer!;
+        player.advance(deltaTime);
+        this.applyTourSample();
+        this.emitTourProgress();
         
-        const rotationStep = 0.1;
-        const zoomStep = 0.1;
-        
-        switch (event.key) {
-            case 'ArrowLeft':
-            case 'a':
-            case 'A':
-                this.rotateGlobeY(-rotationStep);
-                event.preventDefault();
-                break;
-                
-            case 'ArrowRight':
-            case 'd':
-            case 'D':
-                this.rotateGlobeY(rotationStep);
-                event.preventDefault();
-                break;
-                
-            case 'ArrowUp':
-            case 'w':
-            case 'W':
-                this.rotateGlobeX(rotationStep);
-                event.preventDefault();
-                break;
-                
-            case 'ArrowDown':
-            case 's':
-            case 'S':
-                this.rotateGlobeX(-rotationStep);
-                event.preventDefault();
-                break;
-                
-            case '+':
-            case '=':
-                this.setZoom(this.options.zoom! * (1 + zoomStep));
-                event.preventDefault();
-                break;
-                
-            case '-':
-            case '_':
-                this.setZoom(this.options.zoom! * (1 - zoomStep));
-                event.preventDefault();
-                break;
-                
-            case ' ':
-                this.setAutoRotate(!this.autoRotate);
-                event.preventDefault();
-                break;
-                
-            case 'r':
-            case 'R':
-                // 重置视角
-                this.setZoom(1);
-                this.setCenter(0, 0);
-                this.setAutoRotate(false);
-                event.preventDefault();
-                break;
-                
-            case 'g':
-            case 'G':
-                // 切换网格线
-                this.toggleGridLines();
-                event.preventDefault();
-                break;
-        }
-    }
-    
-    /**
-     * 绕Y轴旋转地球
-     */
-    private rotateGlobeY(angle: number): void {
-        // 获取当前相机位置
-        const position = vec3.clone(this.camera.getPosition());
-        
-        // 使用rotateY方法
-        const rotationMatrix = vec3.create();
-        vec3.rotateY(rotationMatrix, position, [0, 0, 0], angle);
-        
-        // 更新相机位置
-        this.camera.setPosition(
-            rotationMatrix[0],
-            rotationMatrix[1],
-            rotationMatrix[2]
-        );
+        if (player.isFinished()) {
+            this.finishTour(true);
+        }
     }
     
     /**
-     * 绕X轴旋转地球
+     * 把导览当前时刻的画面应用到相机、图层和光照
      */
-    private rotateGlobeX(angle: number): void {
-        // 获取当前相机位置
-        const position = vec3.clone(this.camera.getPosition());
+    private applyTourSample(): void {
+        const { state, layers, lightDirection } = this.tourPlayer!.sample();
+        this.cameraController.setState(state);
         
-        // 计算旋转轴（垂直于相机位置和Y轴的向量）
-        const rotationAxis = vec3.create();
-        vec3.cross(rotationAxis, position, [0, 1, 0]);
-        vec3.normalize(rotationAxis, rotationAxis);
-        
-        // 创建临时结果向量
-        const rotationMatrix = vec3.create();
-        
-        // 应用旋转 - 使用自定义旋转实现，因为vec3没有通用的rotate方法
-        // 创建旋转矩阵
-        const rotMat = mat4.create();
-        mat4.fromRotation(rotMat, angle, rotationAxis);
-        
-        // 应用旋转
-        vec3.transformMat4(rotationMatrix, position, rotMat);
+        for (const [id, visible] of Object.entries(layers)) {
+            const layer = this.layerManager.getLayer(id);
+            if (layer && layer.isVisible() !== visible) {
+                layer.setVisible(visible);
+            }
+        }
         
-        // 限制垂直旋转角度，避免翻转
-        const verticalAngle = Math.acos(rotationMatrix[1] / vec3.length(rotationMatrix));
-        if (verticalAngle > 0.1 && verticalAngle < Math.PI - 0.1) {
-            // 更新相机位置
-            this.camera.setPosition(
-                rotationMatrix[0],
-                rotationMatrix[1],
-                rotationMatrix[2]
-            );
+        // 光照方向不变时不重复设置，避免按需渲染模式下每帧请求重绘
+        const current = this.renderer.getLightDirection();
+        if (current.some((value, i) => Math.abs(value - lightDirection[i]) > 1e-6)) {
+            this.renderer.setLightDirection(...lightDirection);
         }
     }
     
     /**
-     * 设置缩放级别
+     * 发送导览进度事件
      */
-    public setZoom(zoom: number): void {
-        // 限制缩放级别在合理范围内
-        zoom = Math.max(0.5, Math.min(10, zoom));
-        
-        // 更新选项
-        this.options.zoom = zoom;
-        
-        // 计算新的相机距离
-        const cameraDistance = 3 / zoom;
-        
-        // 获取当前相机位置的方向向量
-        const position = vec3.clone(this.camera.getPosition());
-        
-        // 归一化
-        vec3.normalize(position, position);
+    private emitTourProgress(): void {
+        const progress = this.getTourProgress();
+        if (progress) {
+            this.emit('tourprogress', progress);
+        }
+    }
+    
+    /**
+     * 结束导览并resolve其Promise
+     */
+    private finishTour(completed: boolean): void {
+        if (!this.tourPlayer) return;
         
-        // 应用新距离
-        vec3.scale(position, position, cameraDistance);
+        const resolve = this.resolveTour!;
+        this.tourPlayer = null;
+        this.resolveTour = null;
         
-        // 更新相机位置
-        this.camera.setPosition(
-            position[0],
-            position[1],
-            position[2]
-        );
+        this.emit('tourend', { completed });
+        resolve(completed);
     }
     
     /**
-     * 设置地图中心
+     * 获取所有图层的可见性（图层ID -> 是否可见）
      */
-    public setCenter(longitude: number, latitude: number): void {
-        this.options.center = [longitude, latitude];
-        this.updateCameraFromOptions();
+    private getLayerVisibility(): Record<string, boolean> {
+        const layers: Record<string, boolean> = {};
+        for (const layer of this.layerManager.getAllLayers()) {
+            layers[layer.getId()] = layer.isVisible();
+        }
+        return layers;
     }
     
     /**
@@ -567,20 +1869,29 @@ export default class AIMap {
      */
     public setAutoRotate(enable: boolean): void {
         this.autoRotate = enable;
+        this.triggerRepaint();
+    }
+    
+    /**
+     * 获取地图画布
+     */
+    public getCanvas(): HTMLCanvasElement {
+        return this.canvas;
     }
     
     /**
      * 获取当前缩放级别
      */
     public getZoom(): number {
-        return this.options.zoom!;
+        return GlobeCameraController.altitudeToZoom(this.cameraController.getState().altitude);
     }
     
     /**
      * 获取当前中心点
      */
     public getCenter(): [number, number] {
-        return this.options.center!;
+        const { longitude, latitude } = this.cameraController.getState();
+        return [longitude, latitude];
     }
     
     /**
@@ -656,6 +1967,104 @@ export default class AIMap {
         this.renderer.setLightDirection(x, y, z);
     }
     
+    /**
+     * 获取光照方向（单位向量）
+     */
+    public getLightDirection(): [number, number, number] {
+        return this.renderer.getLightDirection();
+    }
+    
+    /**
+     * 添加后处理效果
+     * 效果按添加顺序依次作用于离屏渲染结果
+     * @param effect 效果实例，例如 new FXAAEffect()
+     * @param index 插入到效果链中的位置，默认追加到末尾
+     */
+    public addEffect(effect: PostEffect, index?: number): boolean {
+        return this.composer.addEffect(effect, index);
+    }
+    
+    /**
+     * 移除后处理效果
+     */
+    public removeEffect(id: string): boolean {
+        return this.composer.removeEffect(id);
+    }
+    
+    /**
+     * 获取后处理效果
+     */
+    public getEffect(id: string): PostEffect | undefined {
+        return this.composer.getEffect(id);
+    }
+    
+    /**
+     * 获取所有后处理效果（按执行顺序）
+     */
+    public getEffects(): PostEffect[] {
+        return this.composer.getEffects();
+    }
+    
+    /**
+     * 设置后处理效果是否启用
+     */
+    public setEffectEnabled(id: string, enabled: boolean): boolean {
+        const effect = this.composer.getEffect(id);
+        if (effect) {
+            effect.setEnabled(enabled);
+            this.triggerRepaint();
+            return true;
+        }
+        return false;
+    }
+    
+    /**
+     * 获取最近一帧的统计数据
+     * 包括各阶段CPU耗时、GPU通道耗时（需要timestamp-query）、绘制调用、三角形数量和GPU内存
+     */
+    public getFrameStats(): FrameStatsSnapshot {
+        return this.engine.getStats().getSnapshot();
+    }
+    
+    /**
+     * 设置帧统计面板的显示状态
+     */
+    public setStatsVisible(visible: boolean): void {
+        this.options.showStats = visible;
+        if (visible) {
+            this.statsHUD.show();
+        } else {
+            this.statsHUD.hide();
+        }
+        this.triggerRepaint();
+    }
+    
+    /**
+     * 切换帧统计面板的显示状态
+     * @returns 切换后的显示状态
+     */
+    public toggleStats(): boolean {
+        this.setStatsVisible(!this.statsHUD.isVisible());
+        return this.statsHUD.isVisible();
+    }
+    
+    /**
+     * 截图
+     * 以指定尺寸离屏渲染一帧（与画布尺寸无关），编码为图片
+     * @example
+     * const blob = await map.captureImage({ width: 1920, height: 1080, format: 'png' });
+     */
+    public captureImage(options: CaptureImageOptions = {}): Promise<Blob> {
+        return this.imageCapture.capture(options);
+    }
+    
+    /**
+     * 截图并返回原始RGBA像素（逐行从上到下，每像素4字节）
+     */
+    public captureImagePixels(options: CaptureImageOptions = {}): Promise<Uint8Array> {
+        return this.imageCapture.capturePixels(options);
+    }
+    
     /**
      * 加载示例城市数据
      */
@@ -681,7 +2090,7 @@ export default class AIMap {
         try {
             const geoJSON = await GeoDataLoader.loadGeoJSON(url);
             if (!geoJSON) {
-                console.error('Failed to load GeoJSON data');
+                this.reportError(new Error(`GeoJSON数据加载失败: ${url}`));
                 return false;
             }
             
@@ -697,7 +2106,7 @@ export default class AIMap {
             
             return await this.addPointLayer(layerId, layerName, points);
         } catch (error) {
-            console.error('Error loading GeoJSON data:', error);
+            this.reportError(error);
             return false;
         }
     }
@@ -706,8 +2115,17 @@ export default class AIMap {
      * 销毁AIMap实例
      */
     public destroy(): void {
+        this.destroyed = true;
+        
         // 停止渲染循环
         this.stop();
+        this.stopCameraAnimation();
+        this.stopTour();
+        this.urlHash?.disable();
+        this.camera.removeChangeListener(this.boundTriggerRepaint);
+        this.removeAllListeners();
+        this.layerListeners = [];
+        this.hoveredLayers.clear();
         
         // 释放图层管理器
         if (this.layerManager) {
@@ -715,6 +2133,12 @@ export default class AIMap {
         }
         
         // 释放WebGPU资源
+        if (this.composer) {
+            this.composer.destroy();
+        }
+        
+        this.statsHUD.destroy();
+        
         if (this.renderer) {
             this.renderer.destroy();
         }
@@ -725,17 +2149,14 @@ export default class AIMap {
         
         // 移除事件监听器
         window.removeEventListener('resize', this.boundHandleResize);
-        
-        if (this.options.enableControl) {
-            this.canvas.removeEventListener('mousedown', this.boundHandleMouseDown);
-            this.canvas.removeEventListener('mousemove', this.boundHandleMouseMove);
-            this.canvas.removeEventListener('mouseup', this.boundHandleMouseUp);
-            this.canvas.removeEventListener('mouseleave', this.boundHandleMouseUp);
-            this.canvas.removeEventListener('wheel', this.boundHandleWheel);
-            this.canvas.removeEventListener('touchstart', this.boundHandleTouchStart);
-            this.canvas.removeEventListener('touchmove', this.boundHandleTouchMove);
-            this.canvas.removeEventListener('touchend', this.boundHandleTouchEnd);
-            window.removeEventListener('keydown', this.boundHandleKeyDown);
+        for (const type of MAP_MOUSE_EVENTS) {
+            this.canvas.removeEventListener(type, this.boundHandleMapMouseEvent);
         }
+        this.dragPan.disable();
+        this.touchZoomRotate.disable();
+        this.doubleTapZoom.disable();
+        this.dragSelect.disable();
+        this.wheel.disable();
+        this.keyboard.disable();
     }
 } 
\ No newline at end of file
@@ -0,0 +1,208 @@
+/**
+ * 渲染后端类型
+ */
+export type BackendType = 'webgpu' | 'webgl2';
+
+/**
+ * 首选渲染后端
+ * auto优先使用WebGPU，不可用时回退到WebGL2；指定后端不可用时同样回退到另一个后端
+ */
+export type PreferredBackend = BackendType | 'auto';
+
+/**
+ * 缓冲区用途
+ */
+export type BackendBufferUsage = 'vertex' | 'index' | 'uniform';
+
+/**
+ * 缓冲区描述
+ */
+export interface BackendBufferDescriptor {
+    label?: string;
+    usage: BackendBufferUsage;
+    
+    /**
+     * 字节大小
+     */
+    size: number;
+}
+
+/**
+ * 后端缓冲区
+ */
+export interface BackendBuffer {
+    readonly size: number;
+    destroy(): void;
+}
+
+/**
+ * 纹理描述（格式固定为rgba8unorm）
+ * data和source二选一，均未提供时纹理内容未定义
+ */
+export interface BackendTextureDescriptor {
+    label?: string;
+    width: number;
+    height: number;
+    
+    /**
+     * 逐行从上到下的RGBA像素
+     */
+    data?: Uint8Array;
+    
+    /**
+     * 图片源
+     */
+    source?: ImageBitmap;
+}
+
+/**
+ * 后端纹理
+ */
+export interface BackendTexture {
+    readonly width: number;
+    readonly height: number;
+    destroy(): void;
+}
+
+/**
+ * 采样器描述
+ */
+export interface BackendSamplerDescriptor {
+    magFilter?: GPUFilterMode;
+    minFilter?: GPUFilterMode;
+    addressModeU?: GPUAddressMode;
+    addressModeV?: GPUAddressMode;
+    maxAnisotropy?: number;
+}
+
+/**
+ * 后端采样器
+ */
+export interface BackendSampler {
+    readonly descriptor: BackendSamplerDescriptor;
+}
+
+/**
+ * 绑定布局条目（对应WGSL中@group(0)的绑定）
+ */
+export interface BackendBindingLayout {
+    binding: number;
+    type: 'uniform' | 'texture' | 'sampler';
+    visibility: 'vertex' | 'fragment' | 'vertex-fragment';
+    
+    /**
+     * GLSL中的名称：uniform对应统一块名称，texture对应sampler2D变量名
+     */
+    name?: string;
+    
+    /**
+     * sampler所采样的纹理绑定编号，WebGL2中采样器与该纹理使用同一个纹理单元
+     */
+    texture?: number;
+}
+
+/**
+ * 渲染管线描述
+ * 同时包含WGSL和GLSL着色器，固定功能状态沿用WebGPU的描述结构，由各后端自行转换
+ */
+export interface BackendPipelineDescriptor {
+    label: string;
+    
+    /**
+     * WGSL着色器代码（入口为vertexMain和fragmentMain）
+     */
+    wgsl: string;
+    
+    /**
+     * 对数深度模式下使用的WGSL着色器代码
+     */
+    logDepthWgsl?: string;
+    
+    /**
+     * GLSL ES 3.00着色器代码
+     * 顶点属性使用layout(location = N)声明，与vertexBuffers中的shaderLocation对应
+     */
+    glsl: {
+        vertex: string;
+        fragment: string;
+    };
+    
+    /**
+     * 绑定布局（只有一个绑定组）
+     */
+    bindings: BackendBindingLayout[];
+    
+    vertexBuffers: GPUVertexBufferLayout[];
+    primitive?: GPUPrimitiveState;
+    blend?: GPUBlendState;
+    depthWriteEnabled?: boolean;
+    depthCompare?: GPUCompareFunction;
+}
+
+/**
+ * 后端渲染管线
+ * 管线与渲染目标状态无关，具体的GPU对象由后端在绘制时按当前渲染目标获取
+ */
+export interface BackendPipeline {
+    readonly descriptor: BackendPipelineDescriptor;
+}
+
+/**
+ * 绑定资源描述
+ */
+export interface BackendBindingsDescriptor {
+    label?: string;
+    pipeline: BackendPipeline;
+    entries: Array<{
+        binding: number;
+        buffer?: BackendBuffer;
+        texture?: BackendTexture;
+        sampler?: BackendSampler;
+    }>;
+}
+
+/**
+ * 后端绑定资源
+ */
+export interface BackendBindings {
+    readonly pipeline: BackendPipeline;
+}
+
+/**
+ * 渲染通道
+ * 由帧合成器创建和结束，地球渲染器和图层只负责录制绘制命令
+ */
+export interface BackendRenderPass {
+    setPipeline(pipeline: BackendPipeline): void;
+    setBindings(bindings: BackendBindings): void;
+    setVertexBuffer(slot: number, buffer: BackendBuffer): void;
+    
+    /**
+     * 设置索引缓冲区（uint32索引）
+     */
+    setIndexBuffer(buffer: BackendBuffer): void;
+    
+    draw(vertexCount: number, instanceCount?: number): void;
+    drawIndexed(indexCount: number, instanceCount?: number): void;
+}
+
+/**
+ * 渲染后端
+ * 封装缓冲区、纹理、管线和渲染通道，地球渲染器和图层通过此接口创建GPU资源，
+ * 同一份代码可以运行在WebGPU和WebGL2上
+ */
+export interface RenderBackend {
+    readonly type: BackendType;
+    
+    createBuffer(descriptor: BackendBufferDescriptor): BackendBuffer;
+    writeBuffer(buffer: BackendBuffer, data: Float32Array | Uint32Array, offset?: number): void;
+    createTexture(descriptor: BackendTextureDescriptor): BackendTexture;
+    createSampler(descriptor: BackendSamplerDescriptor): BackendSampler;
+    
+    /**
+     * 创建渲染管线，同一个描述对象只会创建一次
+     */
+    createPipeline(descriptor: BackendPipelineDescriptor): BackendPipeline;
+    
+    createBindings(descriptor: BackendBindingsDescriptor): BackendBindings;
+}
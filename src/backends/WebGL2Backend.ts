@@ -0,0 +1,669 @@
+import { EventEmitter } from '../core/EventEmitter';
+import {
+    RenderBackend,
+    BackendBuffer,
+    BackendBufferDescriptor,
+    BackendTexture,
+    BackendTextureDescriptor,
+    BackendSampler,
+    BackendSamplerDescriptor,
+    BackendPipeline,
+    BackendPipelineDescriptor,
+    BackendBindings,
+    BackendBindingsDescriptor,
+    BackendRenderPass
+} from './RenderBackend';
+
+/**
+ * WebGL2后端事件
+ */
+export interface WebGL2BackendEvents {
+    /**
+     * WebGL上下文丢失，所有GL对象失效
+     */
+    contextlost: { message: string };
+    
+    /**
+     * WebGL上下文已恢复，需要重新创建所有资源
+     */
+    contextrestored: {};
+}
+
+/**
+ * WebGL2渲染通道描述
+ */
+export interface WebGL2PassDescriptor {
+    clearColor: [number, number, number, number];
+    clearDepth: number;
+}
+
+/**
+ * WebGL2缓冲区
+ */
+interface WebGL2Buffer extends BackendBuffer {
+    buffer: WebGLBuffer;
+    target: GLenum;
+}
+
+/**
+ * WebGL2纹理
+ */
+interface WebGL2Texture extends BackendTexture {
+    texture: WebGLTexture;
+}
+
+/**
+ * WebGL2采样器
+ */
+interface WebGL2Sampler extends BackendSampler {
+    sampler: WebGLSampler;
+}
+
+/**
+ * WebGL2渲染管线
+ */
+interface WebGL2Pipeline extends BackendPipeline {
+    program: WebGLProgram;
+    
+    // 纹理绑定编号 -> 纹理单元
+    textureUnits: Map<number, number>;
+}
+
+/**
+ * WebGL2绑定资源
+ */
+interface WebGL2Bindings extends BackendBindings {
+    entries: BackendBindingsDescriptor['entries'];
+}
+
+/**
+ * 下面各表用到的WebGL常量
+ * 使用数值而不是WebGL2RenderingContext上的常量，没有WebGL2的环境（如服务端渲染）导入本模块时不会出错
+ */
+const GL = {
+    FLOAT: 0x1406,
+    UNSIGNED_INT: 0x1405,
+    UNSIGNED_BYTE: 0x1401,
+    POINTS: 0x0000,
+    LINES: 0x0001,
+    LINE_STRIP: 0x0003,
+    TRIANGLES: 0x0004,
+    TRIANGLE_STRIP: 0x0005,
+    NEVER: 0x0200,
+    LESS: 0x0201,
+    EQUAL: 0x0202,
+    LEQUAL: 0x0203,
+    GREATER: 0x0204,
+    NOTEQUAL: 0x0205,
+    GEQUAL: 0x0206,
+    ALWAYS: 0x0207,
+    ZERO: 0,
+    ONE: 1,
+    SRC_COLOR: 0x0300,
+    ONE_MINUS_SRC_COLOR: 0x0301,
+    SRC_ALPHA: 0x0302,
+    ONE_MINUS_SRC_ALPHA: 0x0303,
+    DST_COLOR: 0x0306,
+    ONE_MINUS_DST_COLOR: 0x0307,
+    DST_ALPHA: 0x0304,
+    ONE_MINUS_DST_ALPHA: 0x0305,
+    SRC_ALPHA_SATURATE: 0x0308,
+    CONSTANT_COLOR: 0x8001,
+    ONE_MINUS_CONSTANT_COLOR: 0x8002,
+    FUNC_ADD: 0x8006,
+    FUNC_SUBTRACT: 0x800A,
+    FUNC_REVERSE_SUBTRACT: 0x800B,
+    MIN: 0x8007,
+    MAX: 0x8008,
+    CLAMP_TO_EDGE: 0x812F,
+    REPEAT: 0x2901,
+    MIRRORED_REPEAT: 0x8370
+} as const;
+
+/**
+ * 顶点格式 -> [分量数, 分量类型, 是否整数, 是否归一化]
+ */
+const VERTEX_FORMATS: Partial<Record<GPUVertexFormat, [number, number, boolean, boolean]>> = {
+    'float32': [1, GL.FLOAT, false, false],
+    'float32x2': [2, GL.FLOAT, false, false],
+    'float32x3': [3, GL.FLOAT, false, false],
+    'float32x4': [4, GL.FLOAT, false, false],
+    'uint32': [1, GL.UNSIGNED_INT, true, false],
+    'uint32x2': [2, GL.UNSIGNED_INT, true, false],
+    'uint32x3': [3, GL.UNSIGNED_INT, true, false],
+    'uint32x4': [4, GL.UNSIGNED_INT, true, false],
+    'unorm8x4': [4, GL.UNSIGNED_BYTE, false, true]
+};
+
+/**
+ * 图元拓扑 -> 绘制模式
+ */
+const TOPOLOGIES: Record<GPUPrimitiveTopology, number> = {
+    'point-list': GL.POINTS,
+    'line-list': GL.LINES,
+    'line-strip': GL.LINE_STRIP,
+    'triangle-list': GL.TRIANGLES,
+    'triangle-strip': GL.TRIANGLE_STRIP
+};
+
+/**
+ * 深度比较函数
+ */
+const COMPARE_FUNCTIONS: Record<GPUCompareFunction, number> = {
+    'never': GL.NEVER,
+    'less': GL.LESS,
+    'equal': GL.EQUAL,
+    'less-equal': GL.LEQUAL,
+    'greater': GL.GREATER,
+    'not-equal': GL.NOTEQUAL,
+    'greater-equal': GL.GEQUAL,
+    'always': GL.ALWAYS
+};
+
+/**
+ * 混合因子
+ */
+const BLEND_FACTORS: Partial<Record<GPUBlendFactor, number>> = {
+    'zero': GL.ZERO,
+    'one': GL.ONE,
+    'src': GL.SRC_COLOR,
+    'one-minus-src': GL.ONE_MINUS_SRC_COLOR,
+    'src-alpha': GL.SRC_ALPHA,
+    'one-minus-src-alpha': GL.ONE_MINUS_SRC_ALPHA,
+    'dst': GL.DST_COLOR,
+    'one-minus-dst': GL.ONE_MINUS_DST_COLOR,
+    'dst-alpha': GL.DST_ALPHA,
+    'one-minus-dst-alpha': GL.ONE_MINUS_DST_ALPHA,
+    'src-alpha-saturated': GL.SRC_ALPHA_SATURATE,
+    'constant': GL.CONSTANT_COLOR,
+    'one-minus-constant': GL.ONE_MINUS_CONSTANT_COLOR
+};
+
+/**
+ * 混合运算
+ */
+const BLEND_OPERATIONS: Record<GPUBlendOperation, number> = {
+    'add': GL.FUNC_ADD,
+    'subtract': GL.FUNC_SUBTRACT,
+    'reverse-subtract': GL.FUNC_REVERSE_SUBTRACT,
+    'min': GL.MIN,
+    'max': GL.MAX
+};
+
+/**
+ * 地址模式
+ */
+const ADDRESS_MODES: Record<GPUAddressMode, number> = {
+    'clamp-to-edge': GL.CLAMP_TO_EDGE,
+    'repeat': GL.REPEAT,
+    'mirror-repeat': GL.MIRRORED_REPEAT
+};
+
+/**
+ * WebGL2后端
+ * 用于不支持WebGPU的浏览器：场景直接绘制到画布的默认帧缓冲区，
+ * 不支持离屏HDR目标、后处理效果、反转Z和对数深度
+ * 着色器使用GLSL ES 3.00，统一变量通过std140统一块传递，与WGSL的统一缓冲区布局一致
+ */
+export class WebGL2Backend extends EventEmitter<WebGL2BackendEvents> implements RenderBackend {
+    public readonly type = 'webgl2';
+    private gl: WebGL2RenderingContext | null = null;
+    private canvas: HTMLCanvasElement | null = null;
+    private pipelines: WeakMap<BackendPipelineDescriptor, WebGL2Pipeline> = new WeakMap();
+    private vertexArray: WebGLVertexArrayObject | null = null;
+    
+    // 上一个管线启用的顶点属性位置
+    private enabledAttributes: Set<number> = new Set();
+    
+    private boundHandleContextLost: (event: Event) => void;
+    private boundHandleContextRestored: () => void;
+    
+    constructor() {
+        super();
+        this.boundHandleContextLost = this.handleContextLost.bind(this);
+        this.boundHandleContextRestored = this.handleContextRestored.bind(this);
+    }
+    
+    /**
+     * 初始化WebGL2上下文
+     * @param antialias 是否启用默认帧缓冲区的多重采样
+     */
+    public initialize(canvas: HTMLCanvasElement, antialias: boolean): boolean {
+        const gl = canvas.getContext('webgl2', {
+            alpha: true,
+            premultipliedAlpha: true,
+            antialias,
+            depth: true
+        });
+        if (!gl) {
+            console.error("WebGL2不受支持");
+            return false;
+        }
+        
+        this.gl = gl;
+        this.canvas = canvas;
+        this.vertexArray = gl.createVertexArray();
+        
+        canvas.addEventListener('webglcontextlost', this.boundHandleContextLost);
+        canvas.addEventListener('webglcontextrestored', this.boundHandleContextRestored);
+        
+        return true;
+    }
+    
+    /**
+     * 处理上下文丢失，阻止默认行为以便浏览器稍后恢复上下文
+     */
+    private handleContextLost(event: Event): void {
+        event.preventDefault();
+        console.warn("WebGL上下文丢失");
+        this.emit('contextlost', { message: "WebGL上下文丢失" });
+    }
+    
+    /**
+     * 处理上下文恢复，旧的GL对象已全部失效
+     */
+    private handleContextRestored(): void {
+        if (!this.gl) return;
+        
+        this.pipelines = new WeakMap();
+        this.enabledAttributes.clear();
+        this.vertexArray = this.gl.createVertexArray();
+        this.emit('contextrestored', {});
+    }
+    
+    /**
+     * 获取WebGL2上下文
+     */
+    public getContext(): WebGL2RenderingContext | null {
+        return this.gl;
+    }
+    
+    /**
+     * 上下文是否可用
+     */
+    public isContextAvailable(): boolean {
+        return this.gl !== null && !this.gl.isContextLost();
+    }
+    
+    /**
+     * 获取WebGL2上下文，不可用时抛出异常
+     */
+    private getGL(): WebGL2RenderingContext {
+        if (!this.gl) {
+            throw new Error('WebGL2上下文不可用');
+        }
+        return this.gl;
+    }
+    
+    /**
+     * 创建缓冲区
+     */
+    public createBuffer(descriptor: BackendBufferDescriptor): BackendBuffer {
+        const gl = this.getGL();
+        const target = {
+            vertex: gl.ARRAY_BUFFER,
+            index: gl.ELEMENT_ARRAY_BUFFER,
+            uniform: gl.UNIFORM_BUFFER
+        }[descriptor.usage];
+        
+        const buffer = gl.createBuffer()!;
+        
+        this.withoutVertexArray(gl, () => {
+            gl.bindBuffer(target, buffer);
+            gl.bufferData(target, descriptor.size, descriptor.usage === 'uniform' ? gl.DYNAMIC_DRAW : gl.STATIC_DRAW);
+            gl.bindBuffer(target, null);
+        });
+        
+        const result: WebGL2Buffer = {
+            buffer,
+            target,
+            size: descriptor.size,
+            destroy: () => gl.deleteBuffer(buffer)
+        };
+        return result;
+    }
+    
+    /**
+     * 写入缓冲区数据
+     */
+    public writeBuffer(buffer: BackendBuffer, data: Float32Array | Uint32Array, offset: number = 0): void {
+        const gl = this.getGL();
+        const { buffer: glBuffer, target } = buffer as WebGL2Buffer;
+        
+        this.withoutVertexArray(gl, () => {
+            gl.bindBuffer(target, glBuffer);
+            gl.bufferSubData(target, offset, data);
+            gl.bindBuffer(target, null);
+        });
+    }
+    
+    /**
+     * 在解除顶点数组对象绑定的状态下执行操作
+     * 索引缓冲区的绑定属于顶点数组对象的状态，绘制过程中创建或更新缓冲区不能影响当前的顶点数组
+     */
+    private withoutVertexArray(gl: WebGL2RenderingContext, callback: () => void): void {
+        const vertexArray = gl.getParameter(gl.VERTEX_ARRAY_BINDING) as WebGLVertexArrayObject | null;
+        gl.bindVertexArray(null);
+        callback();
+        gl.bindVertexArray(vertexArray);
+    }
+    
+    /**
+     * 创建rgba8纹理
+     */
+    public createTexture(descriptor: BackendTextureDescriptor): BackendTexture {
+        const gl = this.getGL();
+        const { width, height } = descriptor;
+        const texture = gl.createTexture()!;
+        
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+        gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+        if (descriptor.source) {
+            gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, descriptor.source);
+        } else {
+            gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, descriptor.data ?? null);
+        }
+        
+        // 没有多级纹理，默认的缩小过滤方式会使纹理不完整
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+        gl.bindTexture(gl.TEXTURE_2D, null);
+        
+        const result: WebGL2Texture = {
+            texture,
+            width,
+            height,
+            destroy: () => gl.deleteTexture(texture)
+        };
+        return result;
+    }
+    
+    /**
+     * 创建采样器
+     */
+    public createSampler(descriptor: BackendSamplerDescriptor): BackendSampler {
+        const gl = this.getGL();
+        const sampler = gl.createSampler()!;
+        
+        gl.samplerParameteri(sampler, gl.TEXTURE_MAG_FILTER, descriptor.magFilter === 'nearest' ? gl.NEAREST : gl.LINEAR);
+        gl.samplerParameteri(sampler, gl.TEXTURE_MIN_FILTER, descriptor.minFilter === 'nearest' ? gl.NEAREST : gl.LINEAR);
+        gl.samplerParameteri(sampler, gl.TEXTURE_WRAP_S, ADDRESS_MODES[descriptor.addressModeU || 'repeat']);
+        gl.samplerParameteri(sampler, gl.TEXTURE_WRAP_T, ADDRESS_MODES[descriptor.addressModeV || 'repeat']);
+        
+        const result: WebGL2Sampler = { sampler, descriptor };
+        return result;
+    }
+    
+    /**
+     * 创建渲染管线（编译并链接GLSL程序）
+     */
+    public createPipeline(descriptor: BackendPipelineDescriptor): BackendPipeline {
+        let pipeline = this.pipelines.get(descriptor);
+        if (!pipeline) {
+            pipeline = this.createProgram(descriptor);
+            this.pipelines.set(descriptor, pipeline);
+        }
+        return pipeline;
+    }
+    
+    /**
+     * 编译着色器程序，并把统一块和纹理绑定到描述中的绑定编号
+     */
+    private createProgram(descriptor: BackendPipelineDescriptor): WebGL2Pipeline {
+        const gl = this.getGL();
+        const vertexShader = this.compileShader(gl.VERTEX_SHADER, descriptor.glsl.vertex, descriptor.label);
+        const fragmentShader = this.compileShader(gl.FRAGMENT_SHADER, descriptor.glsl.fragment, descriptor.label);
+        
+        const program = gl.createProgram()!;
+        gl.attachShader(program, vertexShader);
+        gl.attachShader(program, fragmentShader);
+        gl.linkProgram(program);
+        gl.deleteShader(vertexShader);
+        gl.deleteShader(fragmentShader);
+        
+        if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+            const log = gl.getProgramInfoLog(program);
+            gl.deleteProgram(program);
+            throw new Error(`${descriptor.label} 着色器程序链接失败: ${log}`);
+        }
+        
+        // 统一块使用绑定编号作为绑定点，纹理按声明顺序分配纹理单元
+        const textureUnits = new Map<number, number>();
+        gl.useProgram(program);
+        for (const layout of descriptor.bindings) {
+            if (!layout.name) continue;
+            
+            if (layout.type === 'uniform') {
+                const blockIndex = gl.getUniformBlockIndex(program, layout.name);
+                if (blockIndex !== gl.INVALID_INDEX) {
+                    gl.uniformBlockBinding(program, blockIndex, layout.binding);
+                }
+            } else if (layout.type === 'texture') {
+                const unit = textureUnits.size;
+                textureUnits.set(layout.binding, unit);
+                gl.uniform1i(gl.getUniformLocation(program, layout.name), unit);
+            }
+        }
+        gl.useProgram(null);
+        
+        return { descriptor, program, textureUnits };
+    }
+    
+    /**
+     * 编译单个着色器
+     */
+    private compileShader(type: GLenum, source: string, label: string): WebGLShader {
+        const gl = this.getGL();
+        const shader = gl.createShader(type)!;
+        gl.shaderSource(shader, source.trim());
+        gl.compileShader(shader);
+        
+        if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+            const log = gl.getShaderInfoLog(shader);
+            gl.deleteShader(shader);
+            throw new Error(`${label} 着色器编译失败: ${log}`);
+        }
+        return shader;
+    }
+    
+    /**
+     * 创建绑定资源
+     */
+    public createBindings(descriptor: BackendBindingsDescriptor): BackendBindings {
+        const result: WebGL2Bindings = {
+            pipeline: descriptor.pipeline,
+            entries: [...descriptor.entries]
+        };
+        return result;
+    }
+    
+    /**
+     * 开始绘制到画布默认帧缓冲区的渲染通道
+     * 上下文丢失时返回null
+     */
+    public beginPass(descriptor: WebGL2PassDescriptor): WebGL2RenderPass | null {
+        const gl = this.gl;
+        if (!gl || !this.canvas || gl.isContextLost()) {
+            return null;
+        }
+        
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+        gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+        gl.bindVertexArray(this.vertexArray);
+        
+        // 清除前需要允许写入深度
+        gl.depthMask(true);
+        gl.enable(gl.DEPTH_TEST);
+        gl.clearColor(...descriptor.clearColor);
+        gl.clearDepth(descriptor.clearDepth);
+        gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+        
+        return new WebGL2RenderPass(gl, this.enabledAttributes);
+    }
+    
+    /**
+     * 释放WebGL2资源
+     */
+    public destroy(): void {
+        if (this.canvas) {
+            this.canvas.removeEventListener('webglcontextlost', this.boundHandleContextLost);
+            this.canvas.removeEventListener('webglcontextrestored', this.boundHandleContextRestored);
+        }
+        
+        if (this.gl && this.vertexArray) {
+            this.gl.deleteVertexArray(this.vertexArray);
+        }
+        
+        this.pipelines = new WeakMap();
+        this.enabledAttributes.clear();
+        this.vertexArray = null;
+        this.gl = null;
+        this.canvas = null;
+        this.removeAllListeners();
+    }
+}
+
+/**
+ * WebGL2渲染通道
+ * 按管线描述设置固定功能状态；顶点缓冲区按当前管线的顶点布局设置属性，需在setPipeline之后调用
+ */
+export class WebGL2RenderPass implements BackendRenderPass {
+    private gl: WebGL2RenderingContext;
+    private pipeline: WebGL2Pipeline | null = null;
+    private mode: number = GL.TRIANGLES;
+    private enabledAttributes: Set<number>;
+    
+    constructor(gl: WebGL2RenderingContext, enabledAttributes: Set<number>) {
+        this.gl = gl;
+        this.enabledAttributes = enabledAttributes;
+    }
+    
+    /**
+     * 设置渲染管线
+     */
+    public setPipeline(pipeline: BackendPipeline): void {
+        const gl = this.gl;
+        const glPipeline = pipeline as WebGL2Pipeline;
+        const { primitive, blend, depthWriteEnabled, depthCompare } = glPipeline.descriptor;
+        
+        this.pipeline = glPipeline;
+        this.mode = TOPOLOGIES[primitive?.topology ?? 'triangle-list'];
+        gl.useProgram(glPipeline.program);
+        
+        // 面剔除
+        if (primitive?.cullMode && primitive.cullMode !== 'none') {
+            gl.enable(gl.CULL_FACE);
+            gl.cullFace(primitive.cullMode === 'front' ? gl.FRONT : gl.BACK);
+            gl.frontFace(primitive.frontFace === 'cw' ? gl.CW : gl.CCW);
+        } else {
+            gl.disable(gl.CULL_FACE);
+        }
+        
+        // 颜色混合
+        if (blend) {
+            gl.enable(gl.BLEND);
+            gl.blendFuncSeparate(
+                BLEND_FACTORS[blend.color.srcFactor ?? 'one']!,
+                BLEND_FACTORS[blend.color.dstFactor ?? 'zero']!,
+                BLEND_FACTORS[blend.alpha.srcFactor ?? 'one']!,
+                BLEND_FACTORS[blend.alpha.dstFactor ?? 'zero']!
+            );
+            gl.blendEquationSeparate(
+                BLEND_OPERATIONS[blend.color.operation ?? 'add'],
+                BLEND_OPERATIONS[blend.alpha.operation ?? 'add']
+            );
+        } else {
+            gl.disable(gl.BLEND);
+        }
+        
+        // 深度测试
+        gl.depthMask(depthWriteEnabled ?? true);
+        gl.depthFunc(COMPARE_FUNCTIONS[depthCompare ?? 'less']);
+        
+        // 禁用上一个管线的顶点属性
+        for (const location of this.enabledAttributes) {
+            gl.disableVertexAttribArray(location);
+        }
+        this.enabledAttributes.clear();
+    }
+    
+    /**
+     * 设置统一块、纹理和采样器
+     */
+    public setBindings(bindings: BackendBindings): void {
+        const gl = this.gl;
+        const { entries, pipeline } = bindings as WebGL2Bindings;
+        const { descriptor, textureUnits } = pipeline as WebGL2Pipeline;
+        
+        for (const entry of entries) {
+            const layout = descriptor.bindings.find(binding => binding.binding === entry.binding);
+            if (!layout) continue;
+            
+            if (entry.buffer) {
+                gl.bindBufferBase(gl.UNIFORM_BUFFER, entry.binding, (entry.buffer as WebGL2Buffer).buffer);
+            } else if (entry.texture) {
+                gl.activeTexture(gl.TEXTURE0 + (textureUnits.get(entry.binding) ?? 0));
+                gl.bindTexture(gl.TEXTURE_2D, (entry.texture as WebGL2Texture).texture);
+            } else if (entry.sampler && layout.texture !== undefined) {
+                gl.bindSampler(textureUnits.get(layout.texture) ?? 0, (entry.sampler as WebGL2Sampler).sampler);
+            }
+        }
+    }
+    
+    /**
+     * 设置顶点缓冲区
+     */
+    public setVertexBuffer(slot: number, buffer: BackendBuffer): void {
+        const gl = this.gl;
+        const layout = this.pipeline?.descriptor.vertexBuffers[slot];
+        if (!layout) return;
+        
+        gl.bindBuffer(gl.ARRAY_BUFFER, (buffer as WebGL2Buffer).buffer);
+        for (const attribute of layout.attributes) {
+            const format = VERTEX_FORMATS[attribute.format];
+            if (!format) {
+                console.warn(`WebGL2后端不支持顶点格式: ${attribute.format}`);
+                continue;
+            }
+            
+            const [size, type, integer, normalized] = format;
+            const location = attribute.shaderLocation;
+            gl.enableVertexAttribArray(location);
+            if (integer) {
+                gl.vertexAttribIPointer(location, size, type, layout.arrayStride, attribute.offset);
+            } else {
+                gl.vertexAttribPointer(location, size, type, normalized, layout.arrayStride, attribute.offset);
+            }
+            gl.vertexAttribDivisor(location, layout.stepMode === 'instance' ? 1 : 0);
+            this.enabledAttributes.add(location);
+        }
+    }
+    
+    /**
+     * 设置索引缓冲区
+     */
+    public setIndexBuffer(buffer: BackendBuffer): void {
+        this.gl.bindBuffer(this.gl.ELEMENT_ARRAY_BUFFER, (buffer as WebGL2Buffer).buffer);
+    }
+    
+    /**
+     * 绘制
+     */
+    public draw(vertexCount: number, instanceCount: number = 1): void {
+        this.gl.drawArraysInstanced(this.mode, 0, vertexCount, instanceCount);
+    }
+    
+    /**
+     * 按索引绘制
+     */
+    public drawIndexed(indexCount: number, instanceCount: number = 1): void {
+        this.gl.drawElementsInstanced(this.mode, indexCount, this.gl.UNSIGNED_INT, 0, instanceCount);
+    }
+    
+    /**
+     * 结束渲染通道
+     */
+    public end(): void {
+        this.gl.bindVertexArray(null);
+    }
+}
@@ -0,0 +1,302 @@
+import { Engine } from '../core/Engine';
+import { RenderPipelineSpec } from '../core/PipelineCache';
+import {
+    RenderBackend,
+    BackendBuffer,
+    BackendBufferDescriptor,
+    BackendTexture,
+    BackendTextureDescriptor,
+    BackendSampler,
+    BackendSamplerDescriptor,
+    BackendPipeline,
+    BackendPipelineDescriptor,
+    BackendBindings,
+    BackendBindingsDescriptor,
+    BackendBindingLayout,
+    BackendRenderPass
+} from './RenderBackend';
+
+/**
+ * WebGPU缓冲区
+ */
+interface WebGPUBuffer extends BackendBuffer {
+    buffer: GPUBuffer;
+}
+
+/**
+ * WebGPU纹理
+ */
+interface WebGPUTexture extends BackendTexture {
+    view: GPUTextureView;
+}
+
+/**
+ * WebGPU采样器
+ */
+interface WebGPUSampler extends BackendSampler {
+    sampler: GPUSampler;
+}
+
+/**
+ * WebGPU渲染管线
+ * 保存转换后的管线描述，GPU管线在绘制时按渲染目标状态从PipelineCache获取
+ */
+interface WebGPUPipeline extends BackendPipeline {
+    spec: RenderPipelineSpec;
+}
+
+/**
+ * WebGPU绑定资源
+ */
+interface WebGPUBindings extends BackendBindings {
+    bindGroup: GPUBindGroup;
+}
+
+/**
+ * 把绑定布局转换为WebGPU绑定组布局条目
+ */
+function toBindGroupLayoutEntry(layout: BackendBindingLayout): GPUBindGroupLayoutEntry {
+    const visibility =
+        (layout.visibility !== 'fragment' ? GPUShaderStage.VERTEX : 0) |
+        (layout.visibility !== 'vertex' ? GPUShaderStage.FRAGMENT : 0);
+    
+    switch (layout.type) {
+        case 'uniform':
+            return { binding: layout.binding, visibility, buffer: { type: "uniform" } };
+        case 'texture':
+            return { binding: layout.binding, visibility, texture: { sampleType: "float" } };
+        case 'sampler':
+            return { binding: layout.binding, visibility, sampler: {} };
+    }
+}
+
+/**
+ * WebGPU后端
+ * 资源在引擎的当前设备上创建；设备丢失恢复后，渲染器和图层重新创建资源即可使用新设备
+ */
+export class WebGPUBackend implements RenderBackend {
+    public readonly type = 'webgpu';
+    private engine: Engine;
+    private pipelines: WeakMap<BackendPipelineDescriptor, WebGPUPipeline> = new WeakMap();
+    
+    constructor(engine: Engine) {
+        this.engine = engine;
+    }
+    
+    /**
+     * 获取当前设备
+     */
+    private getDevice(): GPUDevice {
+        const device = this.engine.getDevice();
+        if (!device) {
+            throw new Error('WebGPU设备不可用');
+        }
+        return device;
+    }
+    
+    /**
+     * 创建缓冲区（附带COPY_DST用途以便写入）
+     */
+    public createBuffer(descriptor: BackendBufferDescriptor): BackendBuffer {
+        const usage = {
+            vertex: GPUBufferUsage.VERTEX,
+            index: GPUBufferUsage.INDEX,
+            uniform: GPUBufferUsage.UNIFORM
+        }[descriptor.usage];
+        
+        const buffer = this.getDevice().createBuffer({
+            label: descriptor.label,
+            size: descriptor.size,
+            usage: usage | GPUBufferUsage.COPY_DST,
+        });
+        const stats = this.engine.getStats();
+        stats.trackBuffer(buffer);
+        return {
+            buffer,
+            size: descriptor.size,
+            destroy: () => {
+                stats.release(buffer);
+                buffer.destroy();
+            }
+        } as WebGPUBuffer;
+    }
+    
+    /**
+     * 写入缓冲区数据
+     */
+    public writeBuffer(buffer: BackendBuffer, data: Float32Array | Uint32Array, offset: number = 0): void {
+        this.getDevice().queue.writeBuffer((buffer as WebGPUBuffer).buffer, offset, data);
+    }
+    
+    /**
+     * 创建rgba8unorm纹理
+     */
+    public createTexture(descriptor: BackendTextureDescriptor): BackendTexture {
+        const device = this.getDevice();
+        const { width, height } = descriptor;
+        
+        // 从图片复制需要RENDER_ATTACHMENT用途
+        const texture = device.createTexture({
+            label: descriptor.label,
+            size: [width, height, 1],
+            format: 'rgba8unorm',
+            usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST |
+                (descriptor.source ? GPUTextureUsage.RENDER_ATTACHMENT : 0),
+        });
+        const stats = this.engine.getStats();
+        stats.trackTexture(texture);
+        
+        if (descriptor.data) {
+            device.queue.writeTexture(
+                { texture },
+                descriptor.data,
+                { bytesPerRow: width * 4 },
+                { width, height }
+            );
+        } else if (descriptor.source) {
+            device.queue.copyExternalImageToTexture(
+                { source: descriptor.source },
+                { texture },
+                [width, height]
+            );
+        }
+        
+        return {
+            view: texture.createView(),
+            width,
+            height,
+            destroy: () => {
+                stats.release(texture);
+                texture.destroy();
+            }
+        } as WebGPUTexture;
+    }
+    
+    /**
+     * 创建采样器
+     */
+    public createSampler(descriptor: BackendSamplerDescriptor): BackendSampler {
+        const sampler = this.getDevice().createSampler({
+            magFilter: descriptor.magFilter || 'linear',
+            minFilter: descriptor.minFilter || 'linear',
+            addressModeU: descriptor.addressModeU || 'repeat',
+            addressModeV: descriptor.addressModeV || 'repeat',
+            maxAnisotropy: descriptor.maxAnisotropy || 1,
+        });
+        return { sampler, descriptor } as WebGPUSampler;
+    }
+    
+    /**
+     * 创建渲染管线描述，GPU管线由PipelineCache按渲染目标状态创建
+     */
+    public createPipeline(descriptor: BackendPipelineDescriptor): BackendPipeline {
+        let pipeline = this.pipelines.get(descriptor);
+        if (!pipeline) {
+            const spec: RenderPipelineSpec = {
+                label: descriptor.label,
+                code: descriptor.wgsl,
+                logDepthCode: descriptor.logDepthWgsl,
+                bindGroupLayouts: [descriptor.bindings.map(toBindGroupLayoutEntry)],
+                vertexBuffers: descriptor.vertexBuffers,
+                primitive: descriptor.primitive,
+                blend: descriptor.blend,
+                depthWriteEnabled: descriptor.depthWriteEnabled,
+                depthCompare: descriptor.depthCompare
+            };
+            pipeline = { descriptor, spec };
+            this.pipelines.set(descriptor, pipeline);
+        }
+        return pipeline;
+    }
+    
+    /**
+     * 创建绑定组
+     */
+    public createBindings(descriptor: BackendBindingsDescriptor): BackendBindings {
+        const pipelineCache = this.engine.getPipelineCache();
+        if (!pipelineCache) {
+            throw new Error('WebGPU设备不可用');
+        }
+        
+        const spec = (descriptor.pipeline as WebGPUPipeline).spec;
+        const bindGroup = this.getDevice().createBindGroup({
+            label: descriptor.label,
+            // 绑定组布局来自管线缓存，与管线使用的布局一致
+            layout: pipelineCache.getBindGroupLayout(spec.bindGroupLayouts[0]),
+            entries: descriptor.entries.map(entry => ({
+                binding: entry.binding,
+                resource: entry.buffer ? { buffer: (entry.buffer as WebGPUBuffer).buffer }
+                    : entry.texture ? (entry.texture as WebGPUTexture).view
+                    : (entry.sampler as WebGPUSampler).sampler
+            }))
+        });
+        return { pipeline: descriptor.pipeline, bindGroup } as WebGPUBindings;
+    }
+}
+
+/**
+ * WebGPU渲染通道
+ * 包装帧合成器在场景目标上开始的渲染通道
+ */
+export class WebGPURenderPass implements BackendRenderPass {
+    private engine: Engine;
+    private pass: GPURenderPassEncoder;
+    
+    constructor(engine: Engine, pass: GPURenderPassEncoder) {
+        this.engine = engine;
+        this.pass = pass;
+    }
+    
+    /**
+     * 按当前渲染目标状态设置渲染管线
+     */
+    public setPipeline(pipeline: BackendPipeline): void {
+        const pipelineCache = this.engine.getPipelineCache();
+        if (!pipelineCache) return;
+        
+        const spec = (pipeline as WebGPUPipeline).spec;
+        this.pass.setPipeline(pipelineCache.getRenderPipeline(spec, this.engine.getRenderTargetState()));
+    }
+    
+    /**
+     * 设置绑定组
+     */
+    public setBindings(bindings: BackendBindings): void {
+        this.pass.setBindGroup(0, (bindings as WebGPUBindings).bindGroup);
+    }
+    
+    /**
+     * 设置顶点缓冲区
+     */
+    public setVertexBuffer(slot: number, buffer: BackendBuffer): void {
+        this.pass.setVertexBuffer(slot, (buffer as WebGPUBuffer).buffer);
+    }
+    
+    /**
+     * 设置索引缓冲区
+     */
+    public setIndexBuffer(buffer: BackendBuffer): void {
+        this.pass.setIndexBuffer((buffer as WebGPUBuffer).buffer, 'uint32');
+    }
+    
+    /**
+     * 绘制
+     */
+    public draw(vertexCount: number, instanceCount: number = 1): void {
+        this.pass.draw(vertexCount, instanceCount);
+    }
+    
+    /**
+     * 按索引绘制
+     */
+    public drawIndexed(indexCount: number, instanceCount: number = 1): void {
+        this.pass.drawIndexed(indexCount, instanceCount);
+    }
+    
+    /**
+     * 结束渲染通道
+     */
+    public end(): void {
+        this.pass.end();
+    }
+}
@@ -1,4 +1,7 @@
 import { mat4, vec3 } from 'gl-matrix';
+import { DepthMode } from './PipelineCache';
+import { Projection } from '../projections/Projection';
+import { GlobeProjection } from '../projections/GlobeProjection';
 
 /**
  * 相机类
@@ -17,7 +20,20 @@ export class Camera {
     private near: number = 0.1;
     private far: number = 1000.0;
     
+    // 深度策略，反转Z时投影矩阵把近平面映射到1、远平面映射到0
+    private depthMode: DepthMode = 'standard';
+    
+    // 场景包围半径（地球半径为1），用于根据相机高度计算远平面
+    private sceneRadius: number = 2.0;
+    
+    // 当前地图投影，地球渲染器、图层和相机控制器都按它计算位置
+    private projection: Projection = new GlobeProjection();
+    
+    // 相机变化监听器
+    private changeListeners: Set<() => void> = new Set();
+    
     constructor() {
+        this.updateClipPlanes();
         this.updateViewMatrix();
         this.updateProjectionMatrix();
     }
@@ -34,15 +50,60 @@ export class Camera {
      * 更新投影矩阵
      */
     public updateProjectionMatrix(): void {
-        mat4.perspective(this.projectionMatrix, this.fov, this.aspectRatio, this.near, this.far);
+        this.computeProjectionMatrix();
         this.updateViewProjectionMatrix();
     }
     
+    /**
+     * 计算投影矩阵（WebGPU的深度范围为0到1）
+     */
+    private computeProjectionMatrix(): void {
+        if (this.depthMode === 'reversed-z') {
+            // 交换近远平面即得到反转Z的投影
+            mat4.perspectiveZO(this.projectionMatrix, this.fov, this.aspectRatio, this.far, this.near);
+        } else {
+            mat4.perspectiveZO(this.projectionMatrix, this.fov, this.aspectRatio, this.near, this.far);
+        }
+    }
+    
+    /**
+     * 根据相机高度计算近远平面
+     * 近平面取到地表最近距离的一半，远平面覆盖地平线以外的整个场景
+     */
+    private updateClipPlanes(): void {
+        const altitude = Math.max(this.projection.getSurfaceDistance(this.position), 1e-6);
+        const bounds = this.projection.getBoundingSphere();
+        const distance = vec3.distance(this.position, bounds.center);
+        
+        this.near = Math.max(altitude * 0.5, 1e-6);
+        this.far = distance + Math.max(this.sceneRadius, bounds.radius);
+        this.computeProjectionMatrix();
+    }
+    
     /**
      * 更新视图投影矩阵
      */
     private updateViewProjectionMatrix(): void {
         mat4.multiply(this.viewProjectionMatrix, this.projectionMatrix, this.viewMatrix);
+        
+        // 通知监听器
+        for (const listener of this.changeListeners) {
+            listener();
+        }
+    }
+    
+    /**
+     * 添加相机变化监听器
+     */
+    public addChangeListener(listener: () => void): void {
+        this.changeListeners.add(listener);
+    }
+    
+    /**
+     * 移除相机变化监听器
+     */
+    public removeChangeListener(listener: () => void): void {
+        this.changeListeners.delete(listener);
     }
     
     /**
@@ -50,6 +111,7 @@ export class Camera {
      */
     public setPosition(x: number, y: number, z: number): void {
         vec3.set(this.position, x, y, z);
+        this.updateClipPlanes();
         this.updateViewMatrix();
     }
     
@@ -75,6 +137,28 @@ export class Camera {
         return this.target;
     }
     
+    /**
+     * 设置上方向
+     */
+    public setUp(x: number, y: number, z: number): void {
+        vec3.set(this.up, x, y, z);
+        this.updateViewMatrix();
+    }
+    
+    /**
+     * 获取上方向
+     */
+    public getUp(): vec3 {
+        return this.up;
+    }
+    
+    /**
+     * 获取垂直视场角（弧度）
+     */
+    public getFov(): number {
+        return this.fov;
+    }
+    
     /**
      * 设置宽高比
      */
@@ -83,6 +167,85 @@ export class Camera {
         this.updateProjectionMatrix();
     }
     
+    /**
+     * 获取宽高比
+     */
+    public getAspectRatio(): number {
+        return this.aspectRatio;
+    }
+    
+    /**
+     * 设置深度策略
+     */
+    public setDepthMode(depthMode: DepthMode): void {
+        this.depthMode = depthMode;
+        this.updateProjectionMatrix();
+    }
+    
+    /**
+     * 设置场景包围半径（例如包含卫星轨道时需要增大）
+     */
+    public setSceneRadius(radius: number): void {
+        this.sceneRadius = Math.max(radius, 1.0);
+        this.updateClipPlanes();
+        this.updateViewProjectionMatrix();
+    }
+    
+    /**
+     * 设置地图投影
+     */
+    public setProjection(projection: Projection): void {
+        this.projection = projection;
+        this.updateClipPlanes();
+        this.updateViewProjectionMatrix();
+    }
+    
+    /**
+     * 获取地图投影
+     */
+    public getProjection(): Projection {
+        return this.projection;
+    }
+    
+    /**
+     * 获取近平面距离
+     */
+    public getNear(): number {
+        return this.near;
+    }
+    
+    /**
+     * 获取远平面距离
+     */
+    public getFar(): number {
+        return this.far;
+    }
+    
+    /**
+     * 获取对数深度系数 1 / log2(far + 1)
+     * 对数深度模式下片段深度为 log2(1 + w) * 系数
+     */
+    public getLogDepthFactor(): number {
+        return 1.0 / Math.log2(this.far + 1.0);
+    }
+    
+    /**
+     * 获取经过屏幕点的视线
+     * @param ndcX 归一化设备坐标X（-1到1，向右）
+     * @param ndcY 归一化设备坐标Y（-1到1，向上）
+     */
+    public getRay(ndcX: number, ndcY: number): { origin: vec3; direction: vec3 } {
+        const inverse = mat4.create();
+        mat4.invert(inverse, this.viewProjectionMatrix);
+        
+        // 取近远平面之间的一点，各深度策略下都位于相机前方
+        const point = vec3.transformMat4(vec3.create(), [ndcX, ndcY, 0.5], inverse);
+        const direction = vec3.subtract(vec3.create(), point, this.position);
+        vec3.normalize(direction, direction);
+        
+        return { origin: vec3.clone(this.position), direction };
+    }
+    
     /**
      * 获取视图矩阵
      */
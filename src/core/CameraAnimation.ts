@@ -0,0 +1,165 @@
+import { vec3 } from 'gl-matrix';
+import { GlobeCameraState, wrapDegrees } from './GlobeCameraController';
+import { GeoDataLoader } from '../data/GeoDataLoader';
+
+/**
+ * 缓动函数，输入和输出均为0到1的进度
+ */
+export type EasingFunction = (t: number) => number;
+
+/**
+ * 相机动画选项
+ */
+export interface CameraAnimationOptions {
+    /**
+     * 目标中心[经度, 纬度]，默认保持不变
+     */
+    center?: [number, number];
+    
+    /**
+     * 目标缩放级别
+     */
+    zoom?: number;
+    
+    /**
+     * 目标方位角（度）
+     */
+    bearing?: number;
+    
+    /**
+     * 目标俯仰角（度）
+     */
+    pitch?: number;
+    
+    /**
+     * 动画时长（毫秒），easeTo默认500，flyTo默认根据飞行距离计算
+     */
+    duration?: number;
+    
+    /**
+     * 缓动函数（默认: 三次缓入缓出）
+     */
+    easing?: EasingFunction;
+}
+
+// 飞行过程中最多拉高到的视距（约可看到整个地球）
+const MAX_FLY_ALTITUDE = 2.5;
+
+/**
+ * 三次缓入缓出
+ */
+export function easeInOutCubic(t: number): number {
+    return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+/**
+ * 相机动画
+ * 中心点沿两点间的大圆弧插值，视距按对数插值，方位角取最短旋转方向；
+ * 飞行模式下远距离跳转时在中途拉高视距
+ */
+export class CameraAnimation {
+    private from: GlobeCameraState;
+    private to: GlobeCameraState;
+    private duration: number;
+    private easing: EasingFunction;
+    private elapsed: number = 0;
+    
+    // 大圆弧：起点、旋转轴和圆心角
+    private startPoint: vec3;
+    private axis: vec3;
+    private angle: number;
+    
+    // 飞行模式中途额外拉高的视距
+    private hopAltitude: number = 0;
+    
+    /**
+     * @param from 起始状态
+     * @param to 目标状态
+     * @param options 动画选项（只使用时长和缓动函数）
+     * @param fly 是否为飞行模式
+     */
+    constructor(from: GlobeCameraState, to: GlobeCameraState, options: CameraAnimationOptions, fly: boolean) {
+        this.from = from;
+        this.to = { ...to, heading: from.heading + wrapDegrees(to.heading - from.heading) };
+        this.easing = options.easing ?? easeInOutCubic;
+        
+        this.startPoint = vec3.fromValues(...GeoDataLoader.lonLatToCartesian(from.longitude, from.latitude));
+        const endPoint = vec3.fromValues(...GeoDataLoader.lonLatToCartesian(to.longitude, to.latitude));
+        this.angle = Math.acos(Math.max(-1, Math.min(1, vec3.dot(this.startPoint, endPoint))));
+        
+        // 两点重合或相对时任取一个与起点垂直的旋转轴
+        this.axis = vec3.cross(vec3.create(), this.startPoint, endPoint);
+        if (vec3.length(this.axis) < 1e-6) {
+            vec3.cross(this.axis, this.startPoint, [0, 1, 0]);
+            if (vec3.length(this.axis) < 1e-6) {
+                vec3.set(this.axis, 1, 0, 0);
+            }
+        }
+        vec3.normalize(this.axis, this.axis);
+        
+        if (fly) {
+            // 需要的视距随飞行距离增大，起止视距已经足够高时不再拉高
+            const required = Math.min(MAX_FLY_ALTITUDE, this.angle * 1.5);
+            this.hopAltitude = Math.max(0, required - Math.max(from.altitude, to.altitude));
+        }
+        
+        this.duration = options.duration ?? (fly
+            ? Math.min(4000, 1000 + this.angle * 1000)
+            : 500);
+    }
+    
+    /**
+     * 推进动画并返回当前相机状态
+     * @param deltaTime 距上一帧的时间（毫秒）
+     */
+    public update(deltaTime: number): GlobeCameraState {
+        this.elapsed += deltaTime;
+        return this.getState(this.getProgress());
+    }
+    
+    /**
+     * 动画是否已结束
+     */
+    public isFinished(): boolean {
+        return this.getProgress() >= 1;
+    }
+    
+    /**
+     * 获取时间进度（0到1）
+     */
+    private getProgress(): number {
+        return this.duration > 0 ? Math.min(1, this.elapsed / this.duration) : 1;
+    }
+    
+    /**
+     * 计算指定时间进度（0到1，缓动前）的相机状态
+     */
+    public getState(progress: number): GlobeCameraState {
+        if (progress >= 1) {
+            return { ...this.to };
+        }
+        
+        const { from, to } = this;
+        const t = this.easing(progress);
+        const lerp = (a: number, b: number) => a + (b - a) * t;
+        
+        // 起点绕旋转轴转过 t * 圆心角
+        const theta = this.angle * t;
+        const tangent = vec3.cross(vec3.create(), this.axis, this.startPoint);
+        const point = vec3.scale(vec3.create(), this.startPoint, Math.cos(theta));
+        vec3.scaleAndAdd(point, point, tangent, Math.sin(theta));
+        const [longitude, latitude] = GeoDataLoader.cartesianToLonLat(point[0], point[1], point[2]);
+        
+        const altitude = Math.exp(lerp(Math.log(from.altitude), Math.log(to.altitude))) +
+            this.hopAltitude * Math.sin(Math.PI * t);
+        
+        return {
+            longitude,
+            latitude,
+            altitude,
+            heading: lerp(from.heading, to.heading),
+            pitch: lerp(from.pitch, to.pitch),
+            roll: lerp(from.roll, to.roll)
+        };
+    }
+}
@@ -0,0 +1,199 @@
+import { GlobeCameraController } from './GlobeCameraController';
+
+/**
+ * 拖拽速度采样
+ */
+interface PanSample {
+    dx: number;
+    dy: number;
+    time: number;
+}
+
+// 计算释放速度时使用的采样时间窗口（毫秒）
+const VELOCITY_WINDOW = 100;
+
+// 最后一次移动距释放超过此时间（毫秒）视为停住后松手，不产生惯性
+const RELEASE_TIMEOUT = 50;
+
+// 最大惯性速度（弧度/毫秒）
+const MAX_VELOCITY = 0.005;
+
+// 惯性速度低于此值（弧度/毫秒）时停止
+const MIN_VELOCITY = 1e-5;
+
+// 平滑缩放的时间常数（毫秒），每经过一个时间常数剩余缩放量减少约63%
+const ZOOM_TIME_CONSTANT = 80;
+
+/**
+ * 相机运动
+ * 处理拖拽释放后的惯性旋转，以及滚轮、捏合和键盘缩放向目标缩放级别的平滑过渡
+ */
+export class CameraMotion {
+    private controller: GlobeCameraController;
+    
+    // 惯性
+    private inertiaEnabled: boolean = true;
+    private friction: number = 3;
+    private samples: PanSample[] = [];
+    private velocity: [number, number] | null = null;
+    
+    // 平滑缩放
+    private targetZoom: number | null = null;
+    private zoomAnchor: [number, number] | null = null;
+    
+    constructor(controller: GlobeCameraController) {
+        this.controller = controller;
+    }
+    
+    /**
+     * 设置是否启用拖拽惯性
+     */
+    public setInertiaEnabled(enabled: boolean): void {
+        this.inertiaEnabled = enabled;
+        if (!enabled) {
+            this.velocity = null;
+        }
+    }
+    
+    /**
+     * 拖拽惯性是否启用
+     */
+    public isInertiaEnabled(): boolean {
+        return this.inertiaEnabled;
+    }
+    
+    /**
+     * 设置惯性摩擦系数，速度按 e^(-系数×秒) 衰减，越大停止越快
+     */
+    public setFriction(friction: number): void {
+        this.friction = Math.max(0, friction);
+    }
+    
+    /**
+     * 获取惯性摩擦系数
+     */
+    public getFriction(): number {
+        return this.friction;
+    }
+    
+    /**
+     * 开始拖拽，停止进行中的惯性
+     */
+    public beginPan(): void {
+        this.samples = [];
+        this.velocity = null;
+    }
+    
+    /**
+     * 拖拽平移视图并记录速度采样
+     * @param dx 向屏幕右方移动的角度（弧度）
+     * @param dy 向屏幕上方移动的角度（弧度）
+     */
+    public pan(dx: number, dy: number): void {
+        this.controller.pan(dx, dy);
+        
+        const time = performance.now();
+        this.samples.push({ dx, dy, time });
+        while (this.samples.length > 0 && time - this.samples[0].time > VELOCITY_WINDOW) {
+            this.samples.shift();
+        }
+    }
+    
+    /**
+     * 结束拖拽，按释放前的平均速度开始惯性旋转
+     */
+    public endPan(): void {
+        const samples = this.samples;
+        this.samples = [];
+        
+        const now = performance.now();
+        if (!this.inertiaEnabled || samples.length < 2 || now - samples[samples.length - 1].time > RELEASE_TIMEOUT) {
+            return;
+        }
+        
+        // 第一个采样是该采样之前的位移，不计入时间窗口
+        const duration = Math.max(samples[samples.length - 1].time - samples[0].time, 1);
+        let dx = 0;
+        let dy = 0;
+        for (const sample of samples.slice(1)) {
+            dx += sample.dx;
+            dy += sample.dy;
+        }
+        
+        const speed = Math.hypot(dx, dy) / duration;
+        if (speed < MIN_VELOCITY) {
+            return;
+        }
+        
+        const scale = Math.min(speed, MAX_VELOCITY) / speed / duration;
+        this.velocity = [dx * scale, dy * scale];
+    }
+    
+    /**
+     * 平滑缩放到目标缩放级别
+     * @param zoom 目标缩放级别（超出约束范围时按约束修正）
+     * @param anchor 保持在屏幕上位置不变的锚点[经度, 纬度]，为null时以视图中心缩放
+     */
+    public zoomTo(zoom: number, anchor: [number, number] | null = null): void {
+        const altitude = this.controller.resolveState({
+            altitude: GlobeCameraController.zoomToAltitude(zoom)
+        }).altitude;
+        this.targetZoom = GlobeCameraController.altitudeToZoom(altitude);
+        this.zoomAnchor = anchor;
+    }
+    
+    /**
+     * 获取平滑缩放的目标缩放级别，没有进行中的缩放时返回当前缩放级别
+     */
+    public getTargetZoom(): number {
+        return this.targetZoom ?? GlobeCameraController.altitudeToZoom(this.controller.getState().altitude);
+    }
+    
+    /**
+     * 推进惯性和平滑缩放
+     * @param deltaTime 距上一帧的时间（毫秒）
+     */
+    public update(deltaTime: number): void {
+        if (this.velocity) {
+            const [vx, vy] = this.velocity;
+            this.controller.pan(vx * deltaTime, vy * deltaTime);
+            
+            const decay = Math.exp(-this.friction * deltaTime / 1000);
+            this.velocity = Math.hypot(vx, vy) * decay < MIN_VELOCITY ? null : [vx * decay, vy * decay];
+        }
+        
+        if (this.targetZoom !== null) {
+            const currentZoom = GlobeCameraController.altitudeToZoom(this.controller.getState().altitude);
+            
+            // 在对数空间中按指数衰减逼近目标
+            const k = 1 - Math.exp(-deltaTime / ZOOM_TIME_CONSTANT);
+            let zoom = Math.exp(Math.log(currentZoom) + (Math.log(this.targetZoom) - Math.log(currentZoom)) * k);
+            if (Math.abs(Math.log(this.targetZoom / zoom)) < 1e-3) {
+                zoom = this.targetZoom;
+            }
+            
+            this.controller.zoomAround(GlobeCameraController.zoomToAltitude(zoom), this.zoomAnchor);
+            if (zoom === this.targetZoom) {
+                this.targetZoom = null;
+                this.zoomAnchor = null;
+            }
+        }
+    }
+    
+    /**
+     * 是否有进行中的惯性或平滑缩放
+     */
+    public isActive(): boolean {
+        return this.velocity !== null || this.targetZoom !== null;
+    }
+    
+    /**
+     * 停止惯性和平滑缩放
+     */
+    public stop(): void {
+        this.samples = [];
+        this.velocity = null;
+        this.targetZoom = null;
+        this.zoomAnchor = null;
+    }
+}
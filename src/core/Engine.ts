@@ -1,29 +1,139 @@
 /// <reference types="@webgpu/types" />
+import { PipelineCache, RenderTargetState, DepthMode } from './PipelineCache';
+import { EventEmitter } from './EventEmitter';
+import { FrameStats } from './FrameStats';
+import { RenderBackend, BackendType, PreferredBackend } from '../backends/RenderBackend';
+import { WebGPUBackend } from '../backends/WebGPUBackend';
+import { WebGL2Backend } from '../backends/WebGL2Backend';
 
 /**
- * WebGPU 地理引擎核心类
+ * 引擎事件
  */
-export class Engine {
+export interface EngineEvents {
+    /**
+     * GPU设备丢失（驱动重置、移动端切到后台等），引擎随后会自动尝试重新获取设备
+     * WebGL2后端对应WebGL上下文丢失，由浏览器负责恢复
+     */
+    devicelost: { reason: GPUDeviceLostReason; message: string };
+    
+    /**
+     * 已获取新的GPU设备，所有GPU资源需要在新设备上重建
+     * attempts为本次恢复尝试的次数
+     */
+    devicerestored: { attempts: number };
+}
+
+/**
+ * 地理引擎核心类
+ * 优先使用WebGPU，不支持时回退到WebGL2；地球渲染器和图层通过渲染后端接口创建资源，
+ * 渲染图、后处理效果和截图只在WebGPU后端可用
+ */
+export class Engine extends EventEmitter<EngineEvents> {
+    private backend: RenderBackend | null = null;
     private device: GPUDevice | null = null;
     private context: GPUCanvasContext | null = null;
     private canvas: HTMLCanvasElement | null = null;
+    private pipelineCache: PipelineCache | null = null;
+    private renderRequestHandler: (() => void) | null = null;
+    private stats: FrameStats = new FrameStats();
+    private presentationFormat: GPUTextureFormat = 'bgra8unorm';
+    private colorFormat: GPUTextureFormat = 'rgba16float';
+    private depthFormat: GPUTextureFormat = 'depth24plus';
+    private sampleCount: number = 1;
+    private depthMode: DepthMode = 'standard';
+    
+    // 当前渲染目标的像素尺寸（画布或离屏截图目标）
+    private viewportSize: [number, number] = [1, 1];
+    
+    // 设备丢失后的恢复策略
+    private readonly maxRestoreAttempts: number = 5;
+    private readonly restoreRetryDelay: number = 1000;
     
     constructor() {
-        
+        super();
     }
     
     /**
-     * 初始化WebGPU
+     * 初始化渲染后端
+     * 按首选顺序尝试，首选后端不可用时回退到另一个后端
+     * @param preferredBackend 首选后端（默认: auto，即优先WebGPU）
      */
-    public async initialize(canvas: HTMLCanvasElement): Promise<boolean> {
+    public async initialize(canvas: HTMLCanvasElement, preferredBackend: PreferredBackend = 'auto'): Promise<boolean> {
         this.canvas = canvas;
         
+        const order: BackendType[] = preferredBackend === 'webgl2' ? ['webgl2', 'webgpu'] : ['webgpu', 'webgl2'];
+        for (const type of order) {
+            const initialized = type === 'webgpu' ? await this.initializeWebGPU() : this.initializeWebGL2();
+            if (initialized) {
+                if (type !== order[0]) {
+                    console.warn(`首选的${order[0]}后端不可用，已回退到${type}后端`);
+                }
+                return true;
+            }
+        }
+        
+        console.error("WebGPU和WebGL2均不受支持, 请使用最新版本的浏览器");
+        return false;
+    }
+    
+    /**
+     * 初始化WebGPU后端
+     */
+    private async initializeWebGPU(): Promise<boolean> {
         // 检查WebGPU支持
         if (!navigator.gpu) {
-            console.error("WebGPU不受支持, 请使用最新版本的浏览器");
+            console.warn("WebGPU不受支持");
+            return false;
+        }
+        
+        // 获取GPU设备
+        if (!(await this.createDevice())) {
+            return false;
+        }
+        
+        // 配置Canvas上下文
+        this.context = this.canvas!.getContext('webgpu') as GPUCanvasContext;
+        if (!this.context) {
+            console.warn("无法创建WebGPU上下文");
+            this.releaseDevice();
             return false;
         }
         
+        // 配置上下文格式
+        this.presentationFormat = navigator.gpu.getPreferredCanvasFormat();
+        this.configureContext();
+        
+        this.backend = new WebGPUBackend(this);
+        return true;
+    }
+    
+    /**
+     * 初始化WebGL2后端
+     * WebGL2只支持标准深度；上下文丢失和恢复以设备丢失和恢复事件通知
+     */
+    private initializeWebGL2(): boolean {
+        const backend = new WebGL2Backend();
+        if (!backend.initialize(this.canvas!, this.sampleCount > 1)) {
+            return false;
+        }
+        
+        backend.on('contextlost', ({ message }) => {
+            this.emit('devicelost', { reason: 'unknown', message });
+        });
+        backend.on('contextrestored', () => {
+            this.emit('devicerestored', { attempts: 1 });
+            this.requestRender();
+        });
+        
+        this.backend = backend;
+        this.setDepthMode(this.depthMode);
+        return true;
+    }
+    
+    /**
+     * 获取GPU适配器和设备，并监听设备丢失
+     */
+    private async createDevice(): Promise<boolean> {
         // 获取GPU适配器
         const adapter = await navigator.gpu.requestAdapter();
         if (!adapter) {
@@ -31,29 +141,110 @@ export class Engine {
             return false;
         }
         
-        // 获取GPU设备
-        this.device = await adapter.requestDevice();
+        // 获取GPU设备，支持时启用时间戳查询以统计GPU通道耗时
+        const requiredFeatures: GPUFeatureName[] = adapter.features.has('timestamp-query') ? ['timestamp-query'] : [];
+        const device = await adapter.requestDevice({ requiredFeatures });
+        this.stats.attachDevice(device);
+        this.device = device;
+        this.pipelineCache = new PipelineCache(device);
         
-        // 配置Canvas上下文
-        this.context = this.canvas.getContext('webgpu') as GPUCanvasContext;
-        if (!this.context) {
-            console.error("无法创建WebGPU上下文, 请确保您的浏览器支持WebGPU");
-            return false;
+        device.lost.then(info => this.handleDeviceLost(device, info));
+        
+        return true;
+    }
+    
+    /**
+     * 销毁当前设备（WebGPU上下文创建失败时回退前调用）
+     */
+    private releaseDevice(): void {
+        const device = this.device;
+        this.device = null;
+        this.stats.detachDevice();
+        if (this.pipelineCache) {
+            this.pipelineCache.clear();
+            this.pipelineCache = null;
         }
+        device?.destroy();
+    }
+    
+    /**
+     * 使用当前设备配置Canvas上下文
+     */
+    private configureContext(): void {
+        if (!this.context || !this.device) return;
         
-        // 配置上下文格式
-        const presentationFormat = navigator.gpu.getPreferredCanvasFormat();
         this.context.configure({
             device: this.device,
-            format: presentationFormat,
+            format: this.presentationFormat,
             alphaMode: 'premultiplied'
         });
+    }
+    
+    /**
+     * 处理设备丢失
+     * 旧设备创建的所有GPU对象都已失效，通知监听者后重新获取设备
+     */
+    private async handleDeviceLost(device: GPUDevice, info: GPUDeviceLostInfo): Promise<void> {
+        // 已被替换的设备或主动销毁的设备不需要恢复
+        if (device !== this.device || info.reason === 'destroyed') {
+            return;
+        }
         
-        return true;
+        console.warn(`GPU设备丢失: ${info.message}`);
+        
+        this.device = null;
+        this.stats.detachDevice();
+        if (this.pipelineCache) {
+            this.pipelineCache.clear();
+            this.pipelineCache = null;
+        }
+        
+        this.emit('devicelost', { reason: info.reason, message: info.message });
+        
+        await this.restoreDevice();
     }
     
     /**
-     * 获取GPU设备
+     * 重新获取设备，失败时按指数退避重试
+     */
+    private async restoreDevice(): Promise<void> {
+        for (let attempt = 1; attempt <= this.maxRestoreAttempts; attempt++) {
+            // 引擎已销毁
+            if (!this.canvas) return;
+            
+            try {
+                if (await this.createDevice()) {
+                    this.configureContext();
+                    this.emit('devicerestored', { attempts: attempt });
+                    this.requestRender();
+                    return;
+                }
+            } catch (error) {
+                console.warn(`第${attempt}次恢复GPU设备失败:`, error);
+            }
+            
+            await new Promise(resolve => setTimeout(resolve, this.restoreRetryDelay * Math.pow(2, attempt - 1)));
+        }
+        
+        console.error("GPU设备恢复失败，已达到最大重试次数");
+    }
+    
+    /**
+     * 获取渲染后端
+     */
+    public getBackend(): RenderBackend | null {
+        return this.backend;
+    }
+    
+    /**
+     * 获取渲染后端类型，初始化前为null
+     */
+    public getBackendType(): BackendType | null {
+        return this.backend?.type ?? null;
+    }
+    
+    /**
+     * 获取GPU设备（仅WebGPU后端）
      */
     public getDevice(): GPUDevice | null {
         return this.device;
@@ -66,6 +257,131 @@ export class Engine {
         return this.context;
     }
     
+    /**
+     * 获取画布（交换链）的纹理格式
+     */
+    public getPresentationFormat(): GPUTextureFormat {
+        return this.presentationFormat;
+    }
+    
+    /**
+     * 获取场景颜色附件的格式
+     * 场景先渲染到离屏HDR目标，地球和所有图层的渲染管线都必须使用此格式
+     */
+    public getColorFormat(): GPUTextureFormat {
+        return this.colorFormat;
+    }
+    
+    /**
+     * 获取场景深度附件的格式
+     */
+    public getDepthFormat(): GPUTextureFormat {
+        return this.depthFormat;
+    }
+    
+    /**
+     * 设置深度策略
+     * 反转Z使用depth32float，其余策略使用depth24plus；内置管线会随渲染目标状态自动切换
+     * WebGL2后端只支持标准深度，其他策略会被忽略
+     */
+    public setDepthMode(depthMode: DepthMode): void {
+        if (depthMode !== 'standard' && this.backend?.type === 'webgl2') {
+            console.warn(`WebGL2后端不支持${depthMode}深度策略，使用标准深度`);
+            depthMode = 'standard';
+        }
+        
+        this.depthMode = depthMode;
+        this.depthFormat = depthMode === 'reversed-z' ? 'depth32float' : 'depth24plus';
+    }
+    
+    /**
+     * 获取深度策略
+     */
+    public getDepthMode(): DepthMode {
+        return this.depthMode;
+    }
+    
+    /**
+     * 获取深度缓冲区的清除值（反转Z时为0）
+     */
+    public getDepthClearValue(): number {
+        return this.depthMode === 'reversed-z' ? 0.0 : 1.0;
+    }
+    
+    /**
+     * 设置场景渲染的多重采样数
+     * WebGPU只支持1和4，大于1的值都会按4处理；需在创建渲染管线之前设置
+     */
+    public setSampleCount(sampleCount: number): void {
+        this.sampleCount = sampleCount > 1 ? 4 : 1;
+    }
+    
+    /**
+     * 获取场景渲染的多重采样数
+     * 地球和所有图层的渲染管线都必须使用此采样数
+     */
+    public getSampleCount(): number {
+        return this.sampleCount;
+    }
+    
+    /**
+     * 获取场景渲染目标状态
+     */
+    public getRenderTargetState(): RenderTargetState {
+        return {
+            colorFormat: this.colorFormat,
+            depthFormat: this.depthFormat,
+            sampleCount: this.sampleCount,
+            depthMode: this.depthMode
+        };
+    }
+    
+    /**
+     * 设置当前渲染目标的像素尺寸
+     * 由帧合成器在绘制场景前设置，离屏截图时可能与画布尺寸不同
+     */
+    public setViewportSize(width: number, height: number): void {
+        this.viewportSize = [width, height];
+    }
+    
+    /**
+     * 获取当前渲染目标的像素尺寸
+     */
+    public getViewportSize(): [number, number] {
+        return this.viewportSize;
+    }
+    
+    /**
+     * 获取渲染管线缓存
+     */
+    public getPipelineCache(): PipelineCache | null {
+        return this.pipelineCache;
+    }
+    
+    /**
+     * 设置重绘请求的处理函数（由AIMap的渲染循环提供）
+     */
+    public setRenderRequestHandler(handler: (() => void) | null): void {
+        this.renderRequestHandler = handler;
+    }
+    
+    /**
+     * 请求重绘
+     * 场景内容变化时调用，按需渲染模式下只有请求过重绘才会绘制新的一帧
+     */
+    public requestRender(): void {
+        if (this.renderRequestHandler) {
+            this.renderRequestHandler();
+        }
+    }
+    
+    /**
+     * 获取帧统计
+     */
+    public getStats(): FrameStats {
+        return this.stats;
+    }
+    
     /**
      * 获取Canvas元素
      */
@@ -77,9 +393,21 @@ export class Engine {
      * 释放引擎资源
      */
     public destroy(): void {
-        // 释放WebGPU资源
+        // 释放后端资源
+        if (this.backend instanceof WebGL2Backend) {
+            this.backend.destroy();
+        }
+        this.backend = null;
+        
+        if (this.pipelineCache) {
+            this.pipelineCache.clear();
+            this.pipelineCache = null;
+        }
         this.device = null;
+        this.stats.detachDevice();
         this.context = null;
+        this.renderRequestHandler = null;
         this.canvas = null;
+        this.removeAllListeners();
     }
 } 
\ No newline at end of file
@@ -0,0 +1,96 @@
+/**
+ * 事件监听函数
+ */
+export type EventListener<T> = (event: T) => void;
+
+/**
+ * 类型化事件发射器
+ * 事件名称和对应的事件数据类型由Events映射约束
+ */
+export class EventEmitter<Events extends object> {
+    private listeners: Map<keyof Events, Set<EventListener<any>>> = new Map();
+    
+    // once注册的原始监听函数 -> 包装函数
+    private onceWrappers: Map<EventListener<any>, EventListener<any>> = new Map();
+    
+    /**
+     * 添加事件监听
+     */
+    public on<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): this {
+        let listeners = this.listeners.get(type);
+        if (!listeners) {
+            listeners = new Set();
+            this.listeners.set(type, listeners);
+        }
+        listeners.add(listener);
+        return this;
+    }
+    
+    /**
+     * 移除事件监听（也可以移除通过once添加的监听）
+     */
+    public off<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): this {
+        const listeners = this.listeners.get(type);
+        if (!listeners) {
+            return this;
+        }
+        
+        const wrapper = this.onceWrappers.get(listener);
+        if (wrapper && listeners.delete(wrapper)) {
+            this.onceWrappers.delete(listener);
+        } else {
+            listeners.delete(listener);
+        }
+        
+        if (listeners.size === 0) {
+            this.listeners.delete(type);
+        }
+        return this;
+    }
+    
+    /**
+     * 添加只触发一次的事件监听
+     */
+    public once<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): this {
+        const wrapper: EventListener<Events[K]> = (event) => {
+            this.off(type, listener);
+            listener(event);
+        };
+        this.onceWrappers.set(listener, wrapper);
+        return this.on(type, wrapper);
+    }
+    
+    /**
+     * 检查是否有指定事件的监听
+     */
+    public hasListeners<K extends keyof Events>(type: K): boolean {
+        return (this.listeners.get(type)?.size ?? 0) > 0;
+    }
+    
+    /**
+     * 触发事件
+     * 单个监听函数抛出的异常不会影响其他监听函数
+     */
+    protected emit<K extends keyof Events>(type: K, event: Events[K]): void {
+        const listeners = this.listeners.get(type);
+        if (!listeners) {
+            return;
+        }
+        
+        for (const listener of [...listeners]) {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error(`事件 ${String(type)} 的监听函数执行出错:`, error);
+            }
+        }
+    }
+    
+    /**
+     * 移除所有事件监听
+     */
+    protected removeAllListeners(): void {
+        this.listeners.clear();
+        this.onceWrappers.clear();
+    }
+}
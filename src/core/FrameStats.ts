@@ -0,0 +1,448 @@
+/**
+ * 一帧的统计数据
+ * 时间单位为毫秒，内存单位为字节
+ */
+export interface FrameStatsSnapshot {
+    /**
+     * 帧序号
+     */
+    frame: number;
+    
+    /**
+     * 最近一秒的平均帧率
+     */
+    fps: number;
+    
+    /**
+     * 与上一帧的时间间隔
+     */
+    frameTime: number;
+    
+    /**
+     * CPU耗时：total为整帧耗时，phases为各阶段耗时
+     * 阶段包括 update、encode:globe、encode:layer:<图层ID>、encode:effect:<效果ID>、submit
+     */
+    cpu: {
+        total: number;
+        phases: Record<string, number>;
+    };
+    
+    /**
+     * GPU耗时（需要设备支持timestamp-query）
+     * 结果会延迟一到几帧返回；passes按渲染通道统计
+     */
+    gpu: {
+        supported: boolean;
+        total: number;
+        passes: Record<string, number>;
+    };
+    
+    /**
+     * 绘制调用次数
+     */
+    drawCalls: number;
+    
+    /**
+     * 绘制的三角形数量
+     */
+    triangles: number;
+    
+    /**
+     * 绘制的顶点数量
+     */
+    vertices: number;
+    
+    /**
+     * 引擎创建的存活缓冲区和纹理占用的内存（估算值）
+     */
+    memory: {
+        buffers: number;
+        textures: number;
+    };
+}
+
+/**
+ * 每个纹理格式每像素的字节数
+ */
+const BYTES_PER_PIXEL: Partial<Record<GPUTextureFormat, number>> = {
+    'r8unorm': 1,
+    'rg8unorm': 2,
+    'r16float': 2,
+    'rgba8unorm': 4,
+    'rgba8unorm-srgb': 4,
+    'bgra8unorm': 4,
+    'bgra8unorm-srgb': 4,
+    'r32uint': 4,
+    'r32float': 4,
+    'depth24plus': 4,
+    'depth24plus-stencil8': 4,
+    'depth32float': 4,
+    'rgba16float': 8,
+    'rg32float': 8,
+    'rgba32float': 16,
+};
+
+/**
+ * 已记录的GPU对象
+ */
+interface Allocation {
+    kind: 'buffer' | 'texture';
+    bytes: number;
+    generation: number;
+}
+
+/**
+ * 每帧最多记录的渲染通道数量
+ */
+const MAX_TIMED_PASSES = 32;
+
+/**
+ * 帧统计
+ * 记录每帧各阶段的CPU耗时、GPU通道耗时、绘制调用和三角形数量，以及GPU内存占用。
+ * 内存统计只包含引擎自己创建的缓冲区和纹理：创建时调用trackBuffer/trackTexture，销毁前调用release；
+ * 用户通过getDevice()在设备上创建的对象不计入
+ */
+export class FrameStats {
+    // 帧计时
+    private frameIndex: number = 0;
+    private frameStart: number = 0;
+    private lastFrameEnd: number = 0;
+    private inFrame: boolean = false;
+    private frameTimes: number[] = [];
+    
+    // 当前帧的计数
+    private phases: Map<string, number> = new Map();
+    private phaseStarts: Map<string, number> = new Map();
+    private drawCalls: number = 0;
+    private triangles: number = 0;
+    private vertices: number = 0;
+    
+    // GPU内存（设备代数用于忽略旧设备对象的释放）
+    private bufferBytes: number = 0;
+    private textureBytes: number = 0;
+    private deviceGeneration: number = 0;
+    private allocations: WeakMap<GPUBuffer | GPUTexture, Allocation> = new WeakMap();
+    
+    // GPU计时
+    private querySet: GPUQuerySet | null = null;
+    private resolveBuffer: GPUBuffer | null = null;
+    private readBuffer: GPUBuffer | null = null;
+    private readPending: boolean = false;
+    private queryLabels: string[] = [];
+    private pendingLabels: string[] | null = null;
+    private gpuPasses: Record<string, number> = {};
+    private gpuTotal: number = 0;
+    
+    private snapshot: FrameStatsSnapshot = FrameStats.createEmptySnapshot();
+    
+    /**
+     * 关联GPU设备
+     * 重新开始统计内存，设备支持timestamp-query时创建查询集
+     */
+    public attachDevice(device: GPUDevice): void {
+        this.detachDevice();
+        
+        this.deviceGeneration++;
+        this.bufferBytes = 0;
+        this.textureBytes = 0;
+        
+        if (device.features.has('timestamp-query')) {
+            this.querySet = device.createQuerySet({
+                label: "Frame Stats Timestamps",
+                type: 'timestamp',
+                count: MAX_TIMED_PASSES * 2
+            });
+            this.resolveBuffer = device.createBuffer({
+                label: "Frame Stats Resolve Buffer",
+                size: MAX_TIMED_PASSES * 2 * 8,
+                usage: GPUBufferUsage.QUERY_RESOLVE | GPUBufferUsage.COPY_SRC,
+            });
+            this.readBuffer = device.createBuffer({
+                label: "Frame Stats Read Buffer",
+                size: MAX_TIMED_PASSES * 2 * 8,
+                usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
+            });
+            this.trackBuffer(this.resolveBuffer);
+            this.trackBuffer(this.readBuffer);
+        }
+    }
+    
+    /**
+     * 解除与设备的关联（设备丢失或引擎销毁时调用）
+     */
+    public detachDevice(): void {
+        for (const buffer of [this.resolveBuffer, this.readBuffer]) {
+            if (buffer) {
+                this.release(buffer);
+            }
+        }
+        this.querySet = null;
+        this.resolveBuffer = null;
+        this.readBuffer = null;
+        this.readPending = false;
+        this.pendingLabels = null;
+        this.queryLabels = [];
+        this.gpuPasses = {};
+        this.gpuTotal = 0;
+    }
+    
+    /**
+     * 是否支持GPU计时
+     */
+    public isGpuTimingSupported(): boolean {
+        return this.querySet !== null;
+    }
+    
+    /**
+     * 开始一帧
+     */
+    public beginFrame(): void {
+        this.inFrame = true;
+        this.frameStart = performance.now();
+        this.phases.clear();
+        this.phaseStarts.clear();
+        this.queryLabels = [];
+        this.drawCalls = 0;
+        this.triangles = 0;
+        this.vertices = 0;
+    }
+    
+    /**
+     * 放弃当前帧（按需渲染模式下没有绘制的帧）
+     */
+    public cancelFrame(): void {
+        this.inFrame = false;
+    }
+    
+    /**
+     * 结束一帧并生成统计快照
+     */
+    public endFrame(): void {
+        if (!this.inFrame) return;
+        this.inFrame = false;
+        
+        const now = performance.now();
+        const frameTime = this.lastFrameEnd > 0 ? now - this.lastFrameEnd : 0;
+        this.lastFrameEnd = now;
+        
+        // 最近一秒内的帧用于计算帧率
+        this.frameTimes.push(now);
+        while (this.frameTimes.length > 0 && now - this.frameTimes[0] > 1000) {
+            this.frameTimes.shift();
+        }
+        
+        this.snapshot = {
+            frame: ++this.frameIndex,
+            fps: this.frameTimes.length,
+            frameTime,
+            cpu: {
+                total: now - this.frameStart,
+                phases: Object.fromEntries(this.phases)
+            },
+            gpu: {
+                supported: this.isGpuTimingSupported(),
+                total: this.gpuTotal,
+                passes: { ...this.gpuPasses }
+            },
+            drawCalls: this.drawCalls,
+            triangles: this.triangles,
+            vertices: this.vertices,
+            memory: {
+                buffers: this.bufferBytes,
+                textures: this.textureBytes
+            }
+        };
+    }
+    
+    /**
+     * 开始计时一个CPU阶段
+     */
+    public beginPhase(name: string): void {
+        if (!this.inFrame) return;
+        this.phaseStarts.set(name, performance.now());
+    }
+    
+    /**
+     * 结束计时一个CPU阶段，同名阶段在一帧内累加
+     */
+    public endPhase(name: string): void {
+        const start = this.phaseStarts.get(name);
+        if (!this.inFrame || start === undefined) return;
+        
+        this.phaseStarts.delete(name);
+        this.phases.set(name, (this.phases.get(name) ?? 0) + performance.now() - start);
+    }
+    
+    /**
+     * 记录一次绘制调用
+     * @param vertexCount 每个实例的顶点（或索引）数
+     * @param instanceCount 实例数
+     * @param topology 图元拓扑，用于计算三角形数量
+     */
+    public recordDraw(vertexCount: number, instanceCount: number = 1, topology: GPUPrimitiveTopology = 'triangle-list'): void {
+        if (!this.inFrame) return;
+        
+        this.drawCalls++;
+        this.vertices += vertexCount * instanceCount;
+        
+        if (topology === 'triangle-list') {
+            this.triangles += Math.floor(vertexCount / 3) * instanceCount;
+        } else if (topology === 'triangle-strip') {
+            this.triangles += Math.max(0, vertexCount - 2) * instanceCount;
+        }
+    }
+    
+    /**
+     * 为渲染通道分配时间戳写入位置
+     * 不支持GPU计时、不在帧内或超出容量时返回undefined
+     * @param label 通道名称，同名通道的耗时累加
+     */
+    public getTimestampWrites(label: string): GPURenderPassTimestampWrites | undefined {
+        if (!this.inFrame || !this.querySet || this.readPending || this.queryLabels.length >= MAX_TIMED_PASSES) {
+            return undefined;
+        }
+        
+        const index = this.queryLabels.length;
+        this.queryLabels.push(label);
+        
+        return {
+            querySet: this.querySet,
+            beginningOfPassWriteIndex: index * 2,
+            endOfPassWriteIndex: index * 2 + 1
+        };
+    }
+    
+    /**
+     * 在命令编码结束前解析本帧的时间戳
+     */
+    public resolveTimestamps(encoder: GPUCommandEncoder): void {
+        if (!this.querySet || !this.resolveBuffer || !this.readBuffer || this.readPending || this.queryLabels.length === 0) {
+            return;
+        }
+        
+        const count = this.queryLabels.length * 2;
+        encoder.resolveQuerySet(this.querySet, 0, count, this.resolveBuffer, 0);
+        encoder.copyBufferToBuffer(this.resolveBuffer, 0, this.readBuffer, 0, count * 8);
+        
+        this.pendingLabels = this.queryLabels;
+        this.queryLabels = [];
+    }
+    
+    /**
+     * 提交命令后异步读回时间戳
+     * 读回期间的帧不记录GPU计时
+     */
+    public readTimestamps(): void {
+        const readBuffer = this.readBuffer;
+        const labels = this.pendingLabels;
+        if (!readBuffer || !labels || this.readPending) {
+            return;
+        }
+        
+        this.readPending = true;
+        this.pendingLabels = null;
+        
+        readBuffer.mapAsync(GPUMapMode.READ).then(() => {
+            // 设备已更换
+            if (readBuffer !== this.readBuffer) return;
+            
+            const times = new BigInt64Array(readBuffer.getMappedRange());
+            const passes: Record<string, number> = {};
+            let total = 0;
+            
+            labels.forEach((label, i) => {
+                const duration = Number(times[i * 2 + 1] - times[i * 2]) / 1e6;
+                // 时间戳可能因量化或重置而无效
+                if (duration >= 0 && duration < 1000) {
+                    passes[label] = (passes[label] ?? 0) + duration;
+                    total += duration;
+                }
+            });
+            
+            readBuffer.unmap();
+            this.gpuPasses = passes;
+            this.gpuTotal = total;
+            this.readPending = false;
+        }).catch(() => {
+            if (readBuffer === this.readBuffer) {
+                this.readPending = false;
+            }
+        });
+    }
+    
+    /**
+     * 获取最近一帧的统计快照
+     */
+    public getSnapshot(): FrameStatsSnapshot {
+        return this.snapshot;
+    }
+    
+    /**
+     * 记录引擎创建的缓冲区
+     */
+    public trackBuffer(buffer: GPUBuffer): void {
+        this.allocations.set(buffer, { kind: 'buffer', bytes: buffer.size, generation: this.deviceGeneration });
+        this.bufferBytes += buffer.size;
+    }
+    
+    /**
+     * 记录引擎创建的纹理
+     */
+    public trackTexture(texture: GPUTexture): void {
+        const bytes = FrameStats.estimateTextureSize(texture);
+        this.allocations.set(texture, { kind: 'texture', bytes, generation: this.deviceGeneration });
+        this.textureBytes += bytes;
+    }
+    
+    /**
+     * 扣除即将销毁的缓冲区或纹理，未记录、重复释放或属于旧设备的对象被忽略
+     */
+    public release(object: GPUBuffer | GPUTexture): void {
+        const allocation = this.allocations.get(object);
+        if (!allocation) return;
+        
+        this.allocations.delete(object);
+        if (allocation.generation !== this.deviceGeneration) return;
+        
+        if (allocation.kind === 'buffer') {
+            this.bufferBytes -= allocation.bytes;
+        } else {
+            this.textureBytes -= allocation.bytes;
+        }
+    }
+    
+    /**
+     * 估算纹理占用的内存（包含所有mip级别和多重采样）
+     */
+    private static estimateTextureSize(texture: GPUTexture): number {
+        const bytesPerPixel = BYTES_PER_PIXEL[texture.format] ?? 4;
+        let bytes = 0;
+        let width = texture.width;
+        let height = texture.height;
+        
+        for (let level = 0; level < texture.mipLevelCount; level++) {
+            bytes += width * height * bytesPerPixel;
+            width = Math.max(1, width >> 1);
+            height = Math.max(1, height >> 1);
+        }
+        
+        return bytes * texture.depthOrArrayLayers * texture.sampleCount;
+    }
+    
+    /**
+     * 创建空的统计快照
+     */
+    private static createEmptySnapshot(): FrameStatsSnapshot {
+        return {
+            frame: 0,
+            fps: 0,
+            frameTime: 0,
+            cpu: { total: 0, phases: {} },
+            gpu: { supported: false, total: 0, passes: {} },
+            drawCalls: 0,
+            triangles: 0,
+            vertices: 0,
+            memory: { buffers: 0, textures: 0 }
+        };
+    }
+}
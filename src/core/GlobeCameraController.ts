@@ -0,0 +1,442 @@
+import { vec3, vec4 } from 'gl-matrix';
+import { Camera } from './Camera';
+import { GeoDataLoader } from '../data/GeoDataLoader';
+import { LonLatBounds } from '../data/BoundingCap';
+import { Projection } from '../projections/Projection';
+import { FlatProjection } from '../projections/FlatProjection';
+
+/**
+ * 地球相机状态
+ * 相机围绕地表目标点定位，角度均以度为单位
+ */
+export interface GlobeCameraState {
+    /**
+     * 目标点经度
+     */
+    longitude: number;
+    
+    /**
+     * 目标点纬度
+     */
+    latitude: number;
+    
+    /**
+     * 相机到目标点的距离（地球半径为1），垂直俯视时即相机离地高度
+     */
+    altitude: number;
+    
+    /**
+     * 航向角，屏幕上方所指的方向，0为正北，90为正东
+     */
+    heading: number;
+    
+    /**
+     * 俯仰角，0为垂直俯视，越大越接近地平线
+     */
+    pitch: number;
+    
+    /**
+     * 翻滚角，绕视线方向旋转，正值向右翻滚
+     */
+    roll: number;
+}
+
+/**
+ * 相机约束
+ * 鼠标、触摸、键盘、相机动画和自动旋转对相机状态的修改都经过同一个约束解析
+ */
+export interface CameraConstraints {
+    /**
+     * 最小缩放级别
+     */
+    minZoom: number;
+    
+    /**
+     * 最大缩放级别
+     */
+    maxZoom: number;
+    
+    /**
+     * 视图中心允许的经纬度范围，null表示不限制
+     */
+    maxBounds: LonLatBounds | null;
+    
+    /**
+     * 锁定航向角
+     */
+    lockRotation: boolean;
+    
+    /**
+     * 锁定俯仰角
+     */
+    lockPitch: boolean;
+}
+
+// 纬度限制，极点处的正北方向没有定义
+const MAX_LATITUDE = 89.9;
+
+// 最大俯仰角，避免视线平行于地表
+const MAX_PITCH = 85;
+
+// 最小视距
+const MIN_ALTITUDE = 1e-4;
+
+const DEG_TO_RAD = Math.PI / 180;
+
+/**
+ * 把角度归一化到[-180, 180)
+ */
+export function wrapDegrees(angle: number): number {
+    return ((angle + 180) % 360 + 360) % 360 - 180;
+}
+
+/**
+ * 地球相机控制器
+ * 以经纬度、视距、航向、俯仰和翻滚描述相机，并据此设置相机的位置、观察目标和上方向
+ */
+export class GlobeCameraController {
+    private camera: Camera;
+    private state: GlobeCameraState = {
+        longitude: 0,
+        latitude: 0,
+        altitude: 2,
+        heading: 0,
+        pitch: 0,
+        roll: 0
+    };
+    private constraints: CameraConstraints = {
+        minZoom: 0.5,
+        maxZoom: 10,
+        maxBounds: null,
+        lockRotation: false,
+        lockPitch: false
+    };
+    
+    constructor(camera: Camera) {
+        this.camera = camera;
+    }
+    
+    /**
+     * 缩放级别转换为视距（缩放级别1对应相机距地心3个地球半径）
+     */
+    public static zoomToAltitude(zoom: number): number {
+        return 2 / zoom;
+    }
+    
+    /**
+     * 视距转换为缩放级别
+     */
+    public static altitudeToZoom(altitude: number): number {
+        return 2 / altitude;
+    }
+    
+    /**
+     * 获取相机状态
+     */
+    public getState(): GlobeCameraState {
+        return { ...this.state };
+    }
+    
+    /**
+     * 设置相机状态，未提供的字段保持不变
+     */
+    public setState(state: Partial<GlobeCameraState>): void {
+        this.state = this.resolveState(state);
+        this.apply();
+    }
+    
+    /**
+     * 重置为完整的相机状态
+     * 与setState不同，锁定的航向角和俯仰角也会被设置为新值，用于应用初始视角
+     */
+    public resetState(state: GlobeCameraState): void {
+        this.state = this.constrain(GlobeCameraController.normalizeState(state), null);
+        this.apply();
+    }
+    
+    /**
+     * 计算经过约束后的相机状态（不修改当前状态）
+     */
+    public resolveState(state: Partial<GlobeCameraState>): GlobeCameraState {
+        const next = GlobeCameraController.normalizeState({ ...this.state, ...state });
+        return this.constrain(next, this.state);
+    }
+    
+    /**
+     * 设置相机约束，未提供的字段保持不变，当前状态立即按新约束修正
+     */
+    public setConstraints(constraints: Partial<CameraConstraints>): void {
+        const next = { ...this.constraints, ...constraints };
+        if (next.minZoom > next.maxZoom) {
+            throw new Error(`minZoom(${next.minZoom})不能大于maxZoom(${next.maxZoom})`);
+        }
+        this.constraints = next;
+        this.setState({});
+    }
+    
+    /**
+     * 获取相机约束
+     */
+    public getConstraints(): CameraConstraints {
+        return { ...this.constraints };
+    }
+    
+    /**
+     * 设置地图投影，相机按新投影下的目标点位置重新定位
+     */
+    public setProjection(projection: Projection): void {
+        this.camera.setProjection(projection);
+        this.apply();
+    }
+    
+    /**
+     * 归一化相机状态：经度和航向取模，纬度、俯仰和视距限制在有效范围内
+     */
+    public static normalizeState(state: GlobeCameraState): GlobeCameraState {
+        return {
+            longitude: wrapDegrees(state.longitude),
+            latitude: Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, state.latitude)),
+            altitude: Math.max(MIN_ALTITUDE, state.altitude),
+            heading: (wrapDegrees(state.heading) + 360) % 360,
+            pitch: Math.max(0, Math.min(MAX_PITCH, state.pitch)),
+            roll: wrapDegrees(state.roll)
+        };
+    }
+    
+    /**
+     * 约束解析：限制缩放级别和视图中心范围，锁定的角度保持当前值
+     * @param current 当前状态，为null时不应用锁定
+     */
+    private constrain(state: GlobeCameraState, current: GlobeCameraState | null): GlobeCameraState {
+        const { minZoom, maxZoom, maxBounds, lockRotation, lockPitch } = this.constraints;
+        const result = { ...state };
+        
+        result.altitude = Math.max(
+            GlobeCameraController.zoomToAltitude(maxZoom),
+            Math.min(GlobeCameraController.zoomToAltitude(minZoom), result.altitude)
+        );
+        
+        if (maxBounds) {
+            const [[west, south], [east, north]] = maxBounds;
+            result.latitude = Math.max(south, Math.min(north, result.latitude));
+            
+            // 经度按到西边界的东向角距判断，跨越180度经线时东边界加360度
+            let span = east - west;
+            if (span < 0) {
+                span += 360;
+            }
+            const offset = ((result.longitude - west) % 360 + 360) % 360;
+            if (offset > span) {
+                // 范围外的经度移到较近的边界
+                result.longitude = wrapDegrees(offset - span < 360 - offset ? west + span : west);
+            }
+        }
+        
+        if (current) {
+            if (lockRotation) {
+                result.heading = current.heading;
+            }
+            if (lockPitch) {
+                result.pitch = current.pitch;
+            }
+        }
+        
+        return result;
+    }
+    
+    /**
+     * 沿屏幕方向平移目标点
+     * @param dx 向屏幕右方移动的角度（弧度）
+     * @param dy 向屏幕上方移动的角度（弧度）
+     */
+    public pan(dx: number, dy: number): void {
+        const projection = this.camera.getProjection();
+        const target = vec3.clone(this.camera.getTarget());
+        const { normal } = projection.getFrame(this.state.longitude, this.state.latitude);
+        const { right, up } = this.getScreenAxes();
+        
+        // 屏幕方向投影到目标点的切平面上，俯仰时上方向指向前方地面
+        const tangentRight = this.projectToTangent(right, normal);
+        const tangentUp = this.projectToTangent(up, normal);
+        
+        vec3.scaleAndAdd(target, target, tangentRight, dx);
+        vec3.scaleAndAdd(target, target, tangentUp, dy);
+        
+        const [longitude, latitude] = projection.unproject(target[0], target[1], target[2]);
+        this.setState({ longitude, latitude });
+    }
+    
+    /**
+     * 以锚点为中心缩放
+     * 视距按比例变化时中心沿大圆（平面投影下沿直线）向锚点移动相同比例的距离，使锚点在屏幕上的位置近似保持不变
+     * @param altitude 目标视距
+     * @param anchor 锚点[经度, 纬度]，为null时以视图中心缩放
+     */
+    public zoomAround(altitude: number, anchor: [number, number] | null): void {
+        // 按约束后的视距计算中心移动比例，到达缩放极限时中心不再移动
+        const resolvedAltitude = this.resolveState({ altitude }).altitude;
+        if (!anchor) {
+            this.setState({ altitude: resolvedAltitude });
+            return;
+        }
+        
+        const fraction = 1 - resolvedAltitude / this.state.altitude;
+        const projection = this.camera.getProjection();
+        if (projection instanceof FlatProjection) {
+            const from = projection.project(this.state.longitude, this.state.latitude);
+            const to = projection.project(anchor[0], anchor[1]);
+            const [longitude, latitude] = projection.unproject(
+                from[0] + (to[0] - from[0]) * fraction,
+                from[1] + (to[1] - from[1]) * fraction,
+                from[2] + (to[2] - from[2]) * fraction
+            );
+            this.setState({ altitude: resolvedAltitude, longitude, latitude });
+            return;
+        }
+        
+        const center = vec3.fromValues(...GeoDataLoader.lonLatToCartesian(this.state.longitude, this.state.latitude));
+        const point = vec3.fromValues(...GeoDataLoader.lonLatToCartesian(anchor[0], anchor[1]));
+        const axis = vec3.cross(vec3.create(), center, point);
+        if (vec3.length(axis) < 1e-9) {
+            this.setState({ altitude: resolvedAltitude });
+            return;
+        }
+        vec3.normalize(axis, axis);
+        
+        const angle = Math.acos(Math.max(-1, Math.min(1, vec3.dot(center, point))));
+        const theta = angle * fraction;
+        const tangent = vec3.cross(vec3.create(), axis, center);
+        vec3.scale(center, center, Math.cos(theta));
+        vec3.scaleAndAdd(center, center, tangent, Math.sin(theta));
+        
+        const [longitude, latitude] = GeoDataLoader.cartesianToLonLat(center[0], center[1], center[2]);
+        this.setState({ altitude: resolvedAltitude, longitude, latitude });
+    }
+    
+    /**
+     * 获取屏幕点对应的地表经纬度
+     * @param ndcX 归一化设备坐标X（-1到1，向右）
+     * @param ndcY 归一化设备坐标Y（-1到1，向上）
+     * @returns [经度, 纬度]，视线未与地表相交时为null
+     */
+    public pickGlobe(ndcX: number, ndcY: number): [number, number] | null {
+        const { origin, direction } = this.camera.getRay(ndcX, ndcY);
+        const projection = this.camera.getProjection();
+        
+        const point = projection.intersectRay(origin, direction);
+        if (!point) {
+            return null;
+        }
+        
+        return projection.unproject(point[0], point[1], point[2]);
+    }
+    
+    /**
+     * 获取经纬度对应的屏幕位置
+     * @param longitude 经度
+     * @param latitude 纬度
+     * @param altitude 高度
+     * @returns 归一化设备坐标，以及该点是否位于相机后方或被地表遮挡（在地平线以外）
+     */
+    public projectPoint(longitude: number, latitude: number, altitude: number = 0): { ndcX: number; ndcY: number; occluded: boolean } {
+        const projection = this.camera.getProjection();
+        const point = vec3.fromValues(...projection.project(longitude, latitude, altitude));
+        
+        const clip = vec4.transformMat4(vec4.create(), [point[0], point[1], point[2], 1], this.camera.getViewProjectionMatrix());
+        const w = clip[3];
+        const ndcX = clip[0] / w;
+        const ndcY = clip[1] / w;
+        if (w <= 0) {
+            return { ndcX, ndcY, occluded: true };
+        }
+        
+        // 从相机射向该点的视线先与地表相交则被遮挡，地表上的点允许少量误差
+        const origin = this.camera.getPosition();
+        const toPoint = vec3.subtract(vec3.create(), point, origin);
+        const distance = vec3.length(toPoint);
+        const hit = projection.intersectRay(origin, vec3.scale(toPoint, toPoint, 1 / distance));
+        const occluded = hit !== null && vec3.distance(origin, hit) < distance - Math.max(distance * 1e-4, 1e-6);
+        
+        return { ndcX, ndcY, occluded };
+    }
+    
+    /**
+     * 改变航向角
+     */
+    public rotate(deltaHeading: number): void {
+        this.setState({ heading: this.state.heading + deltaHeading });
+    }
+    
+    /**
+     * 改变俯仰角
+     */
+    public tilt(deltaPitch: number): void {
+        this.setState({ pitch: this.state.pitch + deltaPitch });
+    }
+    
+    /**
+     * 根据状态计算相机的位置、观察目标和上方向
+     */
+    private apply(): void {
+        const { longitude, latitude, altitude } = this.state;
+        const heading = this.state.heading * DEG_TO_RAD;
+        const pitch = this.state.pitch * DEG_TO_RAD;
+        const roll = this.state.roll * DEG_TO_RAD;
+        
+        // 目标点及其局部坐标系（法线、正东、正北），由当前投影计算
+        const projection = this.camera.getProjection();
+        const target = vec3.fromValues(...projection.project(longitude, latitude));
+        const { normal, east, north } = projection.getFrame(longitude, latitude);
+        
+        // 航向方向
+        const forward = vec3.create();
+        vec3.scale(forward, north, Math.cos(heading));
+        vec3.scaleAndAdd(forward, forward, east, Math.sin(heading));
+        
+        // 相机从法线方向向航向的反方向倾斜俯仰角
+        const offset = vec3.create();
+        vec3.scale(offset, normal, Math.cos(pitch));
+        vec3.scaleAndAdd(offset, offset, forward, -Math.sin(pitch));
+        const position = vec3.scaleAndAdd(vec3.create(), target, offset, altitude);
+        
+        // 未翻滚时的上方向垂直于视线并指向航向
+        const up = vec3.create();
+        vec3.scale(up, normal, Math.sin(pitch));
+        vec3.scaleAndAdd(up, up, forward, Math.cos(pitch));
+        
+        // 绕视线方向翻滚
+        if (roll !== 0) {
+            const viewDirection = vec3.negate(vec3.create(), offset);
+            const right = vec3.cross(vec3.create(), viewDirection, up);
+            vec3.scale(up, up, Math.cos(roll));
+            vec3.scaleAndAdd(up, up, right, Math.sin(roll));
+        }
+        
+        this.camera.setTarget(target[0], target[1], target[2]);
+        this.camera.setPosition(position[0], position[1], position[2]);
+        this.camera.setUp(up[0], up[1], up[2]);
+    }
+    
+    /**
+     * 获取屏幕右方和上方对应的世界方向
+     */
+    private getScreenAxes(): { right: vec3; up: vec3 } {
+        const viewDirection = vec3.create();
+        vec3.subtract(viewDirection, this.camera.getTarget(), this.camera.getPosition());
+        vec3.normalize(viewDirection, viewDirection);
+        
+        const right = vec3.cross(vec3.create(), viewDirection, this.camera.getUp());
+        vec3.normalize(right, right);
+        const up = vec3.cross(vec3.create(), right, viewDirection);
+        
+        return { right, up };
+    }
+    
+    /**
+     * 把方向投影到地表切平面上并归一化
+     */
+    private projectToTangent(direction: vec3, normal: vec3): vec3 {
+        const tangent = vec3.scaleAndAdd(vec3.create(), direction, normal, -vec3.dot(direction, normal));
+        return vec3.normalize(tangent, tangent);
+    }
+}
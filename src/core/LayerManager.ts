@@ -1,17 +1,45 @@
-import { Layer } from '../layers/Layer';
+import { Layer, LayerEvents, RenderedFeature, ScreenProjector } from '../layers/Layer';
 import { Engine } from './Engine';
 import { Camera } from './Camera';
+import { BackendRenderPass } from '../backends/RenderBackend';
+import { EventEmitter } from './EventEmitter';
+
+/**
+ * 图层管理器事件
+ */
+export interface LayerManagerEvents {
+    /**
+     * 图层初始化完成并已添加
+     */
+    layeradd: { layer: Layer };
+    
+    /**
+     * 图层已移除（资源已释放）
+     */
+    layerremove: { layer: Layer };
+    
+    /**
+     * 已添加图层的数据已变化
+     */
+    layerdatachange: LayerEvents['datachange'];
+}
 
 /**
  * 图层管理器
  * 负责管理所有地图图层的渲染顺序和生命周期
  */
-export class LayerManager {
+export class LayerManager extends EventEmitter<LayerManagerEvents> {
     private layers: Map<string, Layer> = new Map();
     private layerOrder: string[] = [];
+    private engine: Engine;
+    private boundHandleLayerDataChange: (event: LayerEvents['datachange']) => void;
     
-    constructor(_engine: Engine, _camera: Camera) {
-        // 引擎和相机引用保存在各个图层中
+    constructor(engine: Engine, _camera: Camera) {
+        super();
+        
+        // 相机引用保存在各个图层中
+        this.engine = engine;
+        this.boundHandleLayerDataChange = event => this.emit('layerdatachange', event);
     }
     
     /**
@@ -35,10 +63,13 @@ export class LayerManager {
         // 添加到管理器
         this.layers.set(id, layer);
         this.layerOrder.push(id);
+        layer.on('datachange', this.boundHandleLayerDataChange);
         
         // 按Z索引排序
         this.sortLayers();
+        this.engine.requestRender();
         
+        this.emit('layeradd', { layer });
         return true;
     }
     
@@ -53,6 +84,7 @@ export class LayerManager {
         }
         
         // 销毁图层资源
+        layer.off('datachange', this.boundHandleLayerDataChange);
         layer.destroy();
         
         // 从管理器中移除
@@ -61,7 +93,9 @@ export class LayerManager {
         if (index > -1) {
             this.layerOrder.splice(index, 1);
         }
+        this.engine.requestRender();
         
+        this.emit('layerremove', { layer });
         return true;
     }
     
@@ -79,6 +113,38 @@ export class LayerManager {
         return this.layerOrder.map(id => this.layers.get(id)!);
     }
     
+    /**
+     * 查询画布上某点处绘制的要素，上层图层的要素排在前面
+     * @param point 画布坐标[x, y]（CSS像素）
+     * @param project 经纬度到画布坐标的转换
+     * @param layerIds 只查询这些图层，默认查询所有图层
+     */
+    public queryRenderedFeatures(point: [number, number], project: ScreenProjector, layerIds?: string[]): RenderedFeature[] {
+        const features: RenderedFeature[] = [];
+        for (const id of [...this.layerOrder].reverse()) {
+            const layer = this.layers.get(id);
+            if (!layer || !layer.isVisible() || (layerIds && !layerIds.includes(id))) continue;
+            features.push(...layer.queryRenderedFeatures(point, project));
+        }
+        return features;
+    }
+    
+    /**
+     * 查询画布上多边形区域内的要素，按图层顺序（下层在前）排列
+     * @param polygon 区域顶点的画布坐标（CSS像素）
+     * @param project 经纬度到画布坐标的转换
+     */
+    public queryFeaturesInPolygon(polygon: Array<[number, number]>, project: ScreenProjector): RenderedFeature[] {
+        const features: RenderedFeature[] = [];
+        for (const id of this.layerOrder) {
+            const layer = this.layers.get(id);
+            if (layer && layer.isVisible()) {
+                features.push(...layer.queryFeaturesInPolygon(polygon, project));
+            }
+        }
+        return features;
+    }
+    
     /**
      * 设置图层可见性
      */
@@ -126,6 +192,7 @@ export class LayerManager {
         if (index > -1) {
             this.layerOrder.splice(index, 1);
             this.layerOrder.push(id);
+            this.engine.requestRender();
             return true;
         }
         return false;
@@ -141,6 +208,7 @@ export class LayerManager {
         if (index > -1) {
             this.layerOrder.splice(index, 1);
             this.layerOrder.unshift(id);
+            this.engine.requestRender();
             return true;
         }
         return false;
@@ -169,15 +237,44 @@ export class LayerManager {
         }
     }
     
+    /**
+     * 设备丢失后在新设备上重建所有图层的GPU资源
+     */
+    public async restoreLayers(): Promise<void> {
+        for (const id of this.layerOrder) {
+            const layer = this.layers.get(id);
+            if (layer && !(await layer.restore())) {
+                console.error(`图层 ${id} 恢复失败`);
+            }
+        }
+    }
+    
+    /**
+     * 是否有可见图层在持续动画
+     */
+    public isAnimating(): boolean {
+        for (const id of this.layerOrder) {
+            const layer = this.layers.get(id);
+            if (layer && layer.isVisible() && layer.isAnimating()) {
+                return true;
+            }
+        }
+        return false;
+    }
+    
     /**
      * 渲染所有图层
      */
-    public render(renderPass: GPURenderPassEncoder): void {
-        // 按顺序渲染所有可见图层
+    public render(renderPass: BackendRenderPass): void {
+        const stats = this.engine.getStats();
+        
+        // 按顺序渲染所有可见图层，分别统计每个图层的编码耗时
         for (const id of this.layerOrder) {
             const layer = this.layers.get(id);
             if (layer && layer.isVisible()) {
+                stats.beginPhase(`encode:layer:${id}`);
                 layer.render(renderPass);
+                stats.endPhase(`encode:layer:${id}`);
             }
         }
     }
@@ -187,12 +284,19 @@ export class LayerManager {
      */
     public clear(): void {
         // 销毁所有图层
-        for (const layer of this.layers.values()) {
+        const layers = [...this.layers.values()];
+        for (const layer of layers) {
+            layer.off('datachange', this.boundHandleLayerDataChange);
             layer.destroy();
         }
         
         this.layers.clear();
         this.layerOrder = [];
+        this.engine.requestRender();
+        
+        for (const layer of layers) {
+            this.emit('layerremove', { layer });
+        }
     }
     
     /**
@@ -214,5 +318,6 @@ export class LayerManager {
      */
     public destroy(): void {
         this.clear();
+        this.removeAllListeners();
     }
 }
\ No newline at end of file
@@ -0,0 +1,252 @@
+/**
+ * 深度策略
+ * - standard: 标准深度，深度缓冲区清除为1，近处深度小
+ * - reversed-z: 反转Z，配合depth32float在远距离保持精度，深度缓冲区清除为0，比较函数反转
+ * - logarithmic: 对数深度，由着色器写入片段深度
+ */
+export type DepthMode = 'standard' | 'reversed-z' | 'logarithmic';
+
+/**
+ * 渲染目标状态
+ * 渲染管线必须与所绘制的附件格式、采样数和深度策略一致
+ */
+export interface RenderTargetState {
+    colorFormat: GPUTextureFormat;
+    depthFormat: GPUTextureFormat | null;
+    sampleCount: number;
+    depthMode: DepthMode;
+}
+
+/**
+ * 渲染管线描述
+ * 只包含可序列化的数据，GPU对象由缓存统一创建
+ */
+export interface RenderPipelineSpec {
+    /**
+     * 管线标签
+     */
+    label: string;
+    
+    /**
+     * WGSL着色器代码（包含顶点和片段入口）
+     */
+    code: string;
+    
+    /**
+     * 对数深度模式下使用的着色器代码（写入片段深度）
+     * 未提供时回退到code
+     */
+    logDepthCode?: string;
+    
+    /**
+     * 顶点着色器入口（默认: vertexMain）
+     */
+    vertexEntryPoint?: string;
+    
+    /**
+     * 片段着色器入口（默认: fragmentMain）
+     */
+    fragmentEntryPoint?: string;
+    
+    /**
+     * 每个绑定组的布局条目
+     */
+    bindGroupLayouts: GPUBindGroupLayoutEntry[][];
+    
+    /**
+     * 顶点缓冲区布局
+     */
+    vertexBuffers?: GPUVertexBufferLayout[];
+    
+    /**
+     * 图元状态（默认: triangle-list）
+     */
+    primitive?: GPUPrimitiveState;
+    
+    /**
+     * 颜色混合状态
+     */
+    blend?: GPUBlendState;
+    
+    /**
+     * 是否写入深度（默认: true）
+     */
+    depthWriteEnabled?: boolean;
+    
+    /**
+     * 深度比较函数（默认: less），按标准深度编写，反转Z时自动取反
+     */
+    depthCompare?: GPUCompareFunction;
+}
+
+/**
+ * 标准alpha混合
+ */
+export const ALPHA_BLEND: GPUBlendState = {
+    color: {
+        srcFactor: "src-alpha",
+        dstFactor: "one-minus-src-alpha",
+        operation: "add"
+    },
+    alpha: {
+        srcFactor: "one",
+        dstFactor: "one-minus-src-alpha",
+        operation: "add"
+    }
+};
+
+/**
+ * 反转深度比较函数（用于反转Z）
+ */
+function reverseCompare(compare: GPUCompareFunction): GPUCompareFunction {
+    switch (compare) {
+        case "less": return "greater";
+        case "less-equal": return "greater-equal";
+        case "greater": return "less";
+        case "greater-equal": return "less-equal";
+        default: return compare;
+    }
+}
+
+/**
+ * 渲染管线缓存
+ * 按管线描述、颜色格式、深度格式、采样数和深度策略去重着色器模块、绑定组布局和渲染管线，
+ * 同类型的图层共享同一组GPU对象；渲染目标状态变化时会自动创建新的管线
+ */
+export class PipelineCache {
+    private device: GPUDevice;
+    private shaderModules: Map<string, GPUShaderModule> = new Map();
+    private bindGroupLayouts: Map<string, GPUBindGroupLayout> = new Map();
+    private pipelines: Map<string, GPURenderPipeline> = new Map();
+    
+    // 管线描述 -> 描述编号，内容相同的描述共享同一编号
+    private specIds: Map<string, number> = new Map();
+    private specIdMemo: WeakMap<RenderPipelineSpec, number> = new WeakMap();
+    
+    constructor(device: GPUDevice) {
+        this.device = device;
+    }
+    
+    /**
+     * 获取着色器模块
+     */
+    public getShaderModule(code: string, label?: string): GPUShaderModule {
+        let module = this.shaderModules.get(code);
+        if (!module) {
+            module = this.device.createShaderModule({ label, code });
+            this.shaderModules.set(code, module);
+        }
+        return module;
+    }
+    
+    /**
+     * 获取绑定组布局
+     * 布局与渲染目标无关，可以安全地用于创建长期保存的绑定组
+     */
+    public getBindGroupLayout(entries: GPUBindGroupLayoutEntry[], label?: string): GPUBindGroupLayout {
+        const key = JSON.stringify(entries);
+        let layout = this.bindGroupLayouts.get(key);
+        if (!layout) {
+            layout = this.device.createBindGroupLayout({ label, entries });
+            this.bindGroupLayouts.set(key, layout);
+        }
+        return layout;
+    }
+    
+    /**
+     * 获取渲染管线
+     * 每帧调用的开销仅为一次Map查询
+     */
+    public getRenderPipeline(spec: RenderPipelineSpec, target: RenderTargetState): GPURenderPipeline {
+        const key = `${this.getSpecId(spec)}|${target.colorFormat}|${target.depthFormat ?? 'none'}|${target.sampleCount}|${target.depthMode}`;
+        
+        let pipeline = this.pipelines.get(key);
+        if (!pipeline) {
+            pipeline = this.createRenderPipeline(spec, target);
+            this.pipelines.set(key, pipeline);
+        }
+        return pipeline;
+    }
+    
+    /**
+     * 获取管线描述编号
+     */
+    private getSpecId(spec: RenderPipelineSpec): number {
+        let id = this.specIdMemo.get(spec);
+        if (id !== undefined) {
+            return id;
+        }
+        
+        const json = JSON.stringify(spec);
+        id = this.specIds.get(json);
+        if (id === undefined) {
+            id = this.specIds.size;
+            this.specIds.set(json, id);
+        }
+        
+        this.specIdMemo.set(spec, id);
+        return id;
+    }
+    
+    /**
+     * 根据描述和渲染目标状态创建渲染管线
+     */
+    private createRenderPipeline(spec: RenderPipelineSpec, target: RenderTargetState): GPURenderPipeline {
+        const code = target.depthMode === 'logarithmic' && spec.logDepthCode ? spec.logDepthCode : spec.code;
+        const module = this.getShaderModule(code, `${spec.label} shaders`);
+        
+        let depthCompare = spec.depthCompare ?? "less";
+        if (target.depthMode === 'reversed-z') {
+            depthCompare = reverseCompare(depthCompare);
+        }
+        
+        const layout = this.device.createPipelineLayout({
+            label: `${spec.label} Pipeline Layout`,
+            bindGroupLayouts: spec.bindGroupLayouts.map((entries, i) =>
+                this.getBindGroupLayout(entries, `${spec.label} Bind Group Layout ${i}`))
+        });
+        
+        return this.device.createRenderPipeline({
+            label: spec.label,
+            layout,
+            vertex: {
+                module,
+                entryPoint: spec.vertexEntryPoint ?? "vertexMain",
+                buffers: spec.vertexBuffers ?? []
+            },
+            fragment: {
+                module,
+                entryPoint: spec.fragmentEntryPoint ?? "fragmentMain",
+                targets: [{
+                    format: target.colorFormat,
+                    blend: spec.blend
+                }]
+            },
+            primitive: spec.primitive ?? { topology: "triangle-list" },
+            depthStencil: target.depthFormat ? {
+                depthWriteEnabled: spec.depthWriteEnabled ?? true,
+                depthCompare,
+                format: target.depthFormat
+            } : undefined,
+            multisample: {
+                count: target.sampleCount
+            }
+        });
+    }
+    
+    /**
+     * 获取缓存的管线数量
+     */
+    public getPipelineCount(): number {
+        return this.pipelines.size;
+    }
+    
+    /**
+     * 清空缓存
+     */
+    public clear(): void {
+        this.shaderModules.clear();
+        this.bindGroupLayouts.clear();
+        this.pipelines.clear();
+    }
+}
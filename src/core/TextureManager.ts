@@ -1,20 +1,26 @@
+import { RenderBackend, BackendTexture, BackendSampler, BackendSamplerDescriptor } from '../backends/RenderBackend';
+
 /**
  * 纹理管理器
- * 负责加载、管理和缓存WebGPU纹理
+ * 负责加载、管理和缓存纹理，纹理通过渲染后端创建
  */
 export class TextureManager {
-    private device: GPUDevice;
-    private textureCache: Map<string, GPUTexture> = new Map();
-    private samplerCache: Map<string, GPUSampler> = new Map();
+    private backend: RenderBackend;
+    private textureCache: Map<string, BackendTexture> = new Map();
+    private samplerCache: Map<string, BackendSampler> = new Map();
     
-    constructor(device: GPUDevice) {
-        this.device = device;
+    // 纹理加载完成回调（用于请求重绘）
+    private onTextureLoaded: (() => void) | null;
+    
+    constructor(backend: RenderBackend, onTextureLoaded?: () => void) {
+        this.backend = backend;
+        this.onTextureLoaded = onTextureLoaded ?? null;
     }
     
     /**
      * 创建默认地球纹理（程序生成）
      */
-    public createDefaultEarthTexture(): GPUTexture {
+    public createDefaultEarthTexture(): BackendTexture {
         const width = 512;
         const height = 256;
         
@@ -49,22 +55,14 @@ export class TextureManager {
             }
         }
         
-        // 创建纹理
-        const texture = this.device.createTexture({
+        // 创建纹理并写入数据
+        const texture = this.backend.createTexture({
             label: "Default Earth Texture",
-            size: [width, height, 1],
-            format: 'rgba8unorm',
-            usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST,
+            width,
+            height,
+            data
         });
         
-        // 写入数据
-        this.device.queue.writeTexture(
-            { texture },
-            data,
-            { bytesPerRow: width * 4 },
-            { width, height }
-        );
-        
         this.textureCache.set('earth-default', texture);
         return texture;
     }
@@ -72,7 +70,7 @@ export class TextureManager {
     /**
      * 创建默认法线贴图
      */
-    public createDefaultNormalTexture(): GPUTexture {
+    public createDefaultNormalTexture(): BackendTexture {
         const width = 256;
         const height = 128;
         
@@ -91,22 +89,14 @@ export class TextureManager {
             }
         }
         
-        // 创建纹理
-        const texture = this.device.createTexture({
+        // 创建纹理并写入数据
+        const texture = this.backend.createTexture({
             label: "Default Normal Texture",
-            size: [width, height, 1],
-            format: 'rgba8unorm',
-            usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST,
+            width,
+            height,
+            data
         });
         
-        // 写入数据
-        this.device.queue.writeTexture(
-            { texture },
-            data,
-            { bytesPerRow: width * 4 },
-            { width, height }
-        );
-        
         this.textureCache.set('normal-default', texture);
         return texture;
     }
@@ -114,7 +104,7 @@ export class TextureManager {
     /**
      * 从URL加载纹理
      */
-    public async loadTextureFromURL(url: string, label?: string): Promise<GPUTexture | null> {
+    public async loadTextureFromURL(url: string, label?: string): Promise<BackendTexture | null> {
         try {
             // 检查缓存
             if (this.textureCache.has(url)) {
@@ -126,24 +116,21 @@ export class TextureManager {
             const blob = await response.blob();
             const imageBitmap = await createImageBitmap(blob);
             
-            // 创建纹理
-            const texture = this.device.createTexture({
+            // 创建纹理并复制图片数据
+            const texture = this.backend.createTexture({
                 label: label || `Texture from ${url}`,
-                size: [imageBitmap.width, imageBitmap.height, 1],
-                format: 'rgba8unorm',
-                usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST | GPUTextureUsage.RENDER_ATTACHMENT,
+                width: imageBitmap.width,
+                height: imageBitmap.height,
+                source: imageBitmap
             });
             
-            // 复制图片数据到纹理
-            this.device.queue.copyExternalImageToTexture(
-                { source: imageBitmap },
-                { texture },
-                [imageBitmap.width, imageBitmap.height]
-            );
-            
             // 缓存纹理
             this.textureCache.set(url, texture);
             
+            if (this.onTextureLoaded) {
+                this.onTextureLoaded();
+            }
+            
             return texture;
         } catch (error) {
             console.error(`Failed to load texture from ${url}:`, error);
@@ -154,20 +141,14 @@ export class TextureManager {
     /**
      * 创建采样器
      */
-    public createSampler(config?: {
-        magFilter?: GPUFilterMode;
-        minFilter?: GPUFilterMode;
-        addressModeU?: GPUAddressMode;
-        addressModeV?: GPUAddressMode;
-        maxAnisotropy?: number;
-    }): GPUSampler {
+    public createSampler(config?: BackendSamplerDescriptor): BackendSampler {
         const key = JSON.stringify(config || {});
         
         if (this.samplerCache.has(key)) {
             return this.samplerCache.get(key)!;
         }
         
-        const sampler = this.device.createSampler({
+        const sampler = this.backend.createSampler({
             magFilter: config?.magFilter || 'linear',
             minFilter: config?.minFilter || 'linear',
             addressModeU: config?.addressModeU || 'repeat',
@@ -179,10 +160,31 @@ export class TextureManager {
         return sampler;
     }
     
+    /**
+     * 设备丢失后在新设备上重建所有缓存的纹理
+     * 程序生成的纹理重新生成，URL纹理重新加载；旧设备上的对象已失效，直接丢弃
+     */
+    public async restore(): Promise<void> {
+        const keys = [...this.textureCache.keys()];
+        
+        this.textureCache.clear();
+        this.samplerCache.clear();
+        
+        for (const key of keys) {
+            if (key === 'earth-default') {
+                this.createDefaultEarthTexture();
+            } else if (key === 'normal-default') {
+                this.createDefaultNormalTexture();
+            } else {
+                await this.loadTextureFromURL(key);
+            }
+        }
+    }
+    
     /**
      * 获取缓存的纹理
      */
-    public getTexture(key: string): GPUTexture | undefined {
+    public getTexture(key: string): BackendTexture | undefined {
         return this.textureCache.get(key);
     }
     
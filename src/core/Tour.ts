@@ -0,0 +1,187 @@
+import { EasingFunction, easeInOutCubic } from './CameraAnimation';
+
+/**
+ * 导览缓动名称（JSON中以名称保存）
+ */
+export type TourEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+/**
+ * 导览缓动函数
+ */
+export const TOUR_EASINGS: Record<TourEasing, EasingFunction> = {
+    'linear': t => t,
+    'ease-in': t => t * t * t,
+    'ease-out': t => 1 - Math.pow(1 - t, 3),
+    'ease-in-out': easeInOutCubic
+};
+
+/**
+ * 导览关键帧
+ */
+export interface TourKeyframe {
+    /**
+     * 中心[经度, 纬度]
+     */
+    center: [number, number];
+    
+    /**
+     * 缩放级别
+     */
+    zoom: number;
+    
+    /**
+     * 方位角（度）
+     */
+    bearing: number;
+    
+    /**
+     * 俯仰角（度）
+     */
+    pitch: number;
+    
+    /**
+     * 从上一个关键帧（第一个关键帧为播放开始时的视角）过渡到此关键帧的时长（毫秒）
+     */
+    duration: number;
+    
+    /**
+     * 过渡使用的缓动（默认: ease-in-out）
+     */
+    easing?: TourEasing;
+    
+    /**
+     * 到达此关键帧时设置的图层可见性（图层ID -> 是否可见）
+     */
+    layers?: Record<string, boolean>;
+    
+    /**
+     * 光照方向，过渡期间从之前的光照方向逐渐转到此方向
+     */
+    lightDirection?: [number, number, number];
+}
+
+/**
+ * 导览的JSON格式
+ */
+export interface TourData {
+    version: 1;
+    keyframes: TourKeyframe[];
+}
+
+/**
+ * 校验是否为有限数值组成的指定长度数组
+ */
+function isNumberTuple(value: unknown, length: number): boolean {
+    return Array.isArray(value) && value.length === length && value.every(item => typeof item === 'number' && Number.isFinite(item));
+}
+
+/**
+ * 校验关键帧，格式错误时抛出异常
+ */
+function validateKeyframe(keyframe: any, index: number): TourKeyframe {
+    const fail = (field: string) => {
+        throw new Error(`导览关键帧${index}的${field}无效`);
+    };
+    
+    if (!keyframe || typeof keyframe !== 'object') fail('数据');
+    if (!isNumberTuple(keyframe.center, 2)) fail('center');
+    for (const field of ['zoom', 'bearing', 'pitch', 'duration']) {
+        if (typeof keyframe[field] !== 'number' || !Number.isFinite(keyframe[field])) fail(field);
+    }
+    if (keyframe.zoom <= 0) fail('zoom');
+    if (keyframe.duration < 0) fail('duration');
+    if (keyframe.easing !== undefined && !(keyframe.easing in TOUR_EASINGS)) fail('easing');
+    if (keyframe.layers !== undefined) {
+        if (!keyframe.layers || typeof keyframe.layers !== 'object' ||
+            !Object.values(keyframe.layers).every(visible => typeof visible === 'boolean')) {
+            fail('layers');
+        }
+    }
+    if (keyframe.lightDirection !== undefined && !isNumberTuple(keyframe.lightDirection, 3)) fail('lightDirection');
+    
+    return {
+        center: [keyframe.center[0], keyframe.center[1]],
+        zoom: keyframe.zoom,
+        bearing: keyframe.bearing,
+        pitch: keyframe.pitch,
+        duration: keyframe.duration,
+        ...(keyframe.easing !== undefined ? { easing: keyframe.easing } : {}),
+        ...(keyframe.layers !== undefined ? { layers: { ...keyframe.layers } } : {}),
+        ...(keyframe.lightDirection !== undefined ? { lightDirection: [...keyframe.lightDirection] as [number, number, number] } : {})
+    };
+}
+
+/**
+ * 导览
+ * 按顺序排列的关键帧，播放时相机依次过渡到每个关键帧
+ */
+export class Tour {
+    private keyframes: TourKeyframe[] = [];
+    
+    constructor(keyframes: TourKeyframe[] = []) {
+        keyframes.forEach(keyframe => this.addKeyframe(keyframe));
+    }
+    
+    /**
+     * 从JSON字符串或对象创建导览，格式错误时抛出异常
+     */
+    public static fromJSON(json: string | TourData): Tour {
+        const data = typeof json === 'string' ? JSON.parse(json) : json;
+        if (!data || typeof data !== 'object' || !Array.isArray(data.keyframes)) {
+            throw new Error('导览数据格式无效，缺少keyframes数组');
+        }
+        if (data.version !== 1) {
+            throw new Error(`不支持的导览版本: ${data.version}`);
+        }
+        
+        return new Tour(data.keyframes.map(validateKeyframe));
+    }
+    
+    /**
+     * 转换为JSON对象（JSON.stringify(tour)同样可用）
+     */
+    public toJSON(): TourData {
+        return { version: 1, keyframes: this.getKeyframes() };
+    }
+    
+    /**
+     * 追加关键帧，格式错误时抛出异常
+     * @param index 插入位置，默认追加到末尾
+     */
+    public addKeyframe(keyframe: TourKeyframe, index: number = this.keyframes.length): void {
+        const validated = validateKeyframe(keyframe, index);
+        this.keyframes.splice(Math.max(0, Math.min(index, this.keyframes.length)), 0, validated);
+    }
+    
+    /**
+     * 移除关键帧
+     */
+    public removeKeyframe(index: number): boolean {
+        if (index < 0 || index >= this.keyframes.length) {
+            return false;
+        }
+        this.keyframes.splice(index, 1);
+        return true;
+    }
+    
+    /**
+     * 获取所有关键帧（副本）
+     */
+    public getKeyframes(): TourKeyframe[] {
+        return this.keyframes.map((keyframe, index) => validateKeyframe(keyframe, index));
+    }
+    
+    /**
+     * 获取关键帧数量
+     */
+    public getKeyframeCount(): number {
+        return this.keyframes.length;
+    }
+    
+    /**
+     * 获取导览总时长（毫秒）
+     */
+    public getDuration(): number {
+        return this.keyframes.reduce((total, keyframe) => total + keyframe.duration, 0);
+    }
+}
@@ -0,0 +1,197 @@
+import { vec3 } from 'gl-matrix';
+import { CameraAnimation } from './CameraAnimation';
+import { GlobeCameraController, GlobeCameraState } from './GlobeCameraController';
+import { Tour, TourKeyframe, TOUR_EASINGS } from './Tour';
+
+/**
+ * 导览在某一时刻的画面
+ */
+export interface TourSample {
+    /**
+     * 相机状态
+     */
+    state: GlobeCameraState;
+    
+    /**
+     * 已经到达的关键帧设置的图层可见性
+     */
+    layers: Record<string, boolean>;
+    
+    /**
+     * 光照方向
+     */
+    lightDirection: [number, number, number];
+    
+    /**
+     * 正在过渡到的关键帧序号（播放结束后为最后一个关键帧）
+     */
+    keyframe: number;
+}
+
+/**
+ * 导览中的一段过渡
+ */
+interface TourSegment {
+    keyframe: TourKeyframe;
+    start: number;
+    animation: CameraAnimation;
+    lightFrom: [number, number, number];
+}
+
+/**
+ * 导览播放器
+ * 每段过渡由一个相机动画描述，可在任意时刻取样，因此支持暂停、继续和跳转
+ */
+export class TourPlayer {
+    private segments: TourSegment[] = [];
+    private duration: number;
+    private time: number = 0;
+    private paused: boolean = false;
+    private startLayers: Record<string, boolean>;
+    
+    /**
+     * @param tour 导览
+     * @param startState 播放开始时的相机状态，第一个关键帧从此状态过渡
+     * @param startLightDirection 播放开始时的光照方向
+     * @param startLayers 播放开始时的图层可见性，跳回开头时恢复
+     */
+    constructor(
+        tour: Tour,
+        startState: GlobeCameraState,
+        startLightDirection: [number, number, number],
+        startLayers: Record<string, boolean>
+    ) {
+        this.startLayers = { ...startLayers };
+        
+        let from = startState;
+        let light = startLightDirection;
+        let start = 0;
+        for (const keyframe of tour.getKeyframes()) {
+            const to: GlobeCameraState = {
+                longitude: keyframe.center[0],
+                latitude: keyframe.center[1],
+                altitude: GlobeCameraController.zoomToAltitude(keyframe.zoom),
+                heading: keyframe.bearing,
+                pitch: keyframe.pitch,
+                roll: 0
+            };
+            const animation = new CameraAnimation(from, to, {
+                duration: keyframe.duration,
+                easing: TOUR_EASINGS[keyframe.easing ?? 'ease-in-out']
+            }, false);
+            
+            this.segments.push({ keyframe, start, animation, lightFrom: light });
+            from = to;
+            light = keyframe.lightDirection ?? light;
+            start += keyframe.duration;
+        }
+        this.duration = start;
+    }
+    
+    /**
+     * 推进播放时间（暂停时不变）
+     * @param deltaTime 距上一帧的时间（毫秒）
+     */
+    public advance(deltaTime: number): void {
+        if (!this.paused) {
+            this.seek(this.time + deltaTime);
+        }
+    }
+    
+    /**
+     * 跳转到指定时间（毫秒），超出范围时限制到开头或结尾
+     */
+    public seek(time: number): void {
+        this.time = Math.max(0, Math.min(this.duration, time));
+    }
+    
+    /**
+     * 暂停
+     */
+    public pause(): void {
+        this.paused = true;
+    }
+    
+    /**
+     * 继续播放
+     */
+    public resume(): void {
+        this.paused = false;
+    }
+    
+    /**
+     * 是否已暂停
+     */
+    public isPaused(): boolean {
+        return this.paused;
+    }
+    
+    /**
+     * 是否已播放到结尾
+     */
+    public isFinished(): boolean {
+        return this.time >= this.duration;
+    }
+    
+    /**
+     * 获取当前播放时间（毫秒）
+     */
+    public getTime(): number {
+        return this.time;
+    }
+    
+    /**
+     * 获取导览总时长（毫秒）
+     */
+    public getDuration(): number {
+        return this.duration;
+    }
+    
+    /**
+     * 计算当前时刻的画面
+     */
+    public sample(): TourSample {
+        const layers = { ...this.startLayers };
+        
+        // 找到当前所在的过渡段，之前已到达的关键帧的图层设置依次生效
+        let index = 0;
+        while (index < this.segments.length - 1 && this.time >= this.segments[index].start + this.segments[index].keyframe.duration) {
+            Object.assign(layers, this.segments[index].keyframe.layers);
+            index++;
+        }
+        
+        const segment = this.segments[index];
+        const { keyframe } = segment;
+        const progress = keyframe.duration > 0 ? Math.min(1, (this.time - segment.start) / keyframe.duration) : 1;
+        if (progress >= 1) {
+            Object.assign(layers, keyframe.layers);
+        }
+        
+        return {
+            state: segment.animation.getState(progress),
+            layers,
+            lightDirection: this.interpolateLight(segment, progress),
+            keyframe: index
+        };
+    }
+    
+    /**
+     * 在过渡段内插值光照方向（按缓动后的进度插值后归一化）
+     */
+    private interpolateLight(segment: TourSegment, progress: number): [number, number, number] {
+        const to = segment.keyframe.lightDirection;
+        if (!to) {
+            return segment.lightFrom;
+        }
+        
+        const t = TOUR_EASINGS[segment.keyframe.easing ?? 'ease-in-out'](progress);
+        const from = vec3.normalize(vec3.create(), segment.lightFrom);
+        const target = vec3.normalize(vec3.create(), to);
+        const light = vec3.lerp(vec3.create(), from, target, t);
+        if (vec3.length(light) < 1e-6) {
+            return t < 0.5 ? segment.lightFrom : to;
+        }
+        vec3.normalize(light, light);
+        return [light[0], light[1], light[2]];
+    }
+}
@@ -0,0 +1,165 @@
+import { Camera } from './Camera';
+import { GlobeCameraController, GlobeCameraState } from './GlobeCameraController';
+
+// 写入地址栏的最小间隔（毫秒），避免拖拽时频繁修改历史记录
+const WRITE_INTERVAL = 300;
+
+/**
+ * 地址栏哈希与视角同步
+ * 哈希格式为 #缩放级别/纬度/经度/方位角/俯仰角，方位角和俯仰角可省略
+ */
+export class UrlHash {
+    private camera: Camera;
+    private controller: GlobeCameraController;
+    private applyState: (state: Partial<GlobeCameraState>) => void;
+    private enabled: boolean = false;
+    private writeTimer: number | null = null;
+    private lastWrite: number = 0;
+    
+    private boundHandleCameraChange: () => void;
+    private boundHandleHashChange: () => void;
+    
+    /**
+     * @param camera 相机，相机变化时更新哈希
+     * @param controller 相机控制器，用于读取当前视角
+     * @param applyState 哈希被修改（手动编辑、前进后退）时应用视角的回调
+     */
+    constructor(camera: Camera, controller: GlobeCameraController, applyState: (state: Partial<GlobeCameraState>) => void) {
+        this.camera = camera;
+        this.controller = controller;
+        this.applyState = applyState;
+        this.boundHandleCameraChange = this.scheduleWrite.bind(this);
+        this.boundHandleHashChange = this.handleHashChange.bind(this);
+    }
+    
+    /**
+     * 解析哈希，格式错误时返回null
+     * @param hash 带或不带#的哈希字符串
+     */
+    public static parse(hash: string): Partial<GlobeCameraState> | null {
+        const parts = hash.replace(/^#/, '').split('/');
+        if (parts.length < 3 || parts.length > 5) {
+            return null;
+        }
+        
+        const values = parts.map(part => part.trim() === '' ? NaN : Number(part));
+        if (values.some(value => !Number.isFinite(value))) {
+            return null;
+        }
+        
+        const [zoom, latitude, longitude, bearing, pitch] = values;
+        if (zoom <= 0) {
+            return null;
+        }
+        
+        const state: Partial<GlobeCameraState> = {
+            longitude,
+            latitude,
+            altitude: GlobeCameraController.zoomToAltitude(zoom)
+        };
+        if (bearing !== undefined) {
+            state.heading = bearing;
+        }
+        if (pitch !== undefined) {
+            state.pitch = pitch;
+        }
+        return state;
+    }
+    
+    /**
+     * 把相机状态格式化为哈希（带#）
+     */
+    public static format(state: GlobeCameraState): string {
+        const round = (value: number, digits: number) => String(Number(value.toFixed(digits)) || 0);
+        const zoom = GlobeCameraController.altitudeToZoom(state.altitude);
+        
+        return '#' + [
+            round(zoom, 2),
+            round(state.latitude, 4),
+            round(state.longitude, 4),
+            round(state.heading, 1),
+            round(state.pitch, 1)
+        ].join('/');
+    }
+    
+    /**
+     * 读取当前地址栏哈希中的视角，没有或格式错误时返回null
+     */
+    public read(): Partial<GlobeCameraState> | null {
+        return UrlHash.parse(window.location.hash);
+    }
+    
+    /**
+     * 开始同步：视角变化时写入哈希，哈希变化时更新视角
+     */
+    public enable(): void {
+        if (this.enabled) return;
+        this.enabled = true;
+        
+        this.camera.addChangeListener(this.boundHandleCameraChange);
+        window.addEventListener('hashchange', this.boundHandleHashChange);
+        this.scheduleWrite();
+    }
+    
+    /**
+     * 停止同步
+     */
+    public disable(): void {
+        if (!this.enabled) return;
+        this.enabled = false;
+        
+        this.camera.removeChangeListener(this.boundHandleCameraChange);
+        window.removeEventListener('hashchange', this.boundHandleHashChange);
+        if (this.writeTimer !== null) {
+            clearTimeout(this.writeTimer);
+            this.writeTimer = null;
+        }
+    }
+    
+    /**
+     * 是否正在同步
+     */
+    public isEnabled(): boolean {
+        return this.enabled;
+    }
+    
+    /**
+     * 按写入间隔节流，间隔内的多次变化只写入最后的视角
+     */
+    private scheduleWrite(): void {
+        if (this.writeTimer !== null) return;
+        
+        const delay = Math.max(0, this.lastWrite + WRITE_INTERVAL - performance.now());
+        this.writeTimer = window.setTimeout(() => {
+            this.writeTimer = null;
+            this.lastWrite = performance.now();
+            this.write();
+        }, delay);
+    }
+    
+    /**
+     * 写入当前视角
+     * 使用replaceState替换当前历史记录，不产生新的历史条目，也不会触发hashchange
+     */
+    private write(): void {
+        const hash = UrlHash.format(this.controller.getState());
+        if (hash !== window.location.hash) {
+            window.history.replaceState(window.history.state, '', hash);
+        }
+    }
+    
+    /**
+     * 哈希被修改时应用其中的视角
+     */
+    private handleHashChange(): void {
+        const state = this.read();
+        if (!state) {
+            console.warn(`无法解析地址栏哈希: ${window.location.hash}`);
+            return;
+        }
+        
+        if (UrlHash.format(this.controller.getState()) !== UrlHash.format({ ...this.controller.getState(), ...state })) {
+            this.applyState(state);
+        }
+    }
+}
@@ -0,0 +1,89 @@
+import { vec3 } from 'gl-matrix';
+import { GeoDataLoader } from './GeoDataLoader';
+
+/**
+ * 经纬度范围，格式为[[西, 南], [东, 北]]
+ * 西边界大于东边界时表示跨越180度经线
+ */
+export type LonLatBounds = [[number, number], [number, number]];
+
+// 范围每条边的采样数
+const BOUNDS_EDGE_SAMPLES = 16;
+
+/**
+ * 球冠
+ * 以中心点和角半径描述球面上的一片区域，用于按数据范围调整视角
+ */
+export class BoundingCap {
+    /**
+     * 中心[经度, 纬度]
+     */
+    public readonly center: [number, number];
+    
+    /**
+     * 角半径（弧度）
+     */
+    public readonly radius: number;
+    
+    constructor(center: [number, number], radius: number) {
+        this.center = center;
+        this.radius = radius;
+    }
+    
+    /**
+     * 计算包含所有坐标点的球冠
+     * 中心取各点单位向量之和的方向，半径取到最远点的角距离；没有坐标时返回null
+     */
+    public static fromCoordinates(coordinates: Array<[number, number]>): BoundingCap | null {
+        if (coordinates.length === 0) {
+            return null;
+        }
+        
+        const points = coordinates.map(([longitude, latitude]) =>
+            vec3.fromValues(...GeoDataLoader.lonLatToCartesian(longitude, latitude))
+        );
+        
+        const sum = vec3.create();
+        for (const point of points) {
+            vec3.add(sum, sum, point);
+        }
+        
+        // 点分布在整个球面上时向量和接近零，此时无法确定中心，返回覆盖全球的球冠
+        if (vec3.length(sum) < 1e-6) {
+            return new BoundingCap(coordinates[0], Math.PI);
+        }
+        const center = vec3.normalize(sum, sum);
+        
+        let radius = 0;
+        for (const point of points) {
+            const cosAngle = Math.max(-1, Math.min(1, vec3.dot(center, point)));
+            radius = Math.max(radius, Math.acos(cosAngle));
+        }
+        
+        const [longitude, latitude] = GeoDataLoader.cartesianToLonLat(center[0], center[1], center[2]);
+        return new BoundingCap([longitude, latitude], radius);
+    }
+    
+    /**
+     * 计算包含经纬度范围的球冠（沿范围的四条边采样）
+     */
+    public static fromBounds(bounds: LonLatBounds): BoundingCap {
+        const [[west, south], [east, north]] = bounds;
+        
+        // 跨越180度经线时东边界加360度
+        let span = east - west;
+        if (span < 0) {
+            span += 360;
+        }
+        
+        const coordinates: Array<[number, number]> = [];
+        for (let i = 0; i <= BOUNDS_EDGE_SAMPLES; i++) {
+            const t = i / BOUNDS_EDGE_SAMPLES;
+            const longitude = west + span * t;
+            const latitude = south + (north - south) * t;
+            coordinates.push([longitude, south], [longitude, north], [west, latitude], [west + span, latitude]);
+        }
+        
+        return BoundingCap.fromCoordinates(coordinates)!;
+    }
+}
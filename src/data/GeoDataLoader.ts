@@ -1,3 +1,8 @@
+import { ALTITUDE_SCALE } from '../projections/Projection';
+import { GlobeProjection } from '../projections/GlobeProjection';
+
+const globe = new GlobeProjection();
+
 /**
  * GeoJSON特征接口
  */
@@ -271,15 +276,10 @@ export class GeoDataLoader {
      * 将经纬度转换为3D坐标
      */
     public static lonLatToCartesian(longitude: number, latitude: number, altitude: number = 0, radius: number = 1): [number, number, number] {
-        const lon = longitude * Math.PI / 180;
-        const lat = latitude * Math.PI / 180;
-        const r = radius + altitude * 0.001; // 高度缩放
-        
-        const x = r * Math.cos(lat) * Math.cos(lon);
-        const y = r * Math.sin(lat);
-        const z = r * Math.cos(lat) * Math.sin(lon);
+        const [x, y, z] = globe.project(longitude, latitude);
+        const r = radius + altitude * ALTITUDE_SCALE;
         
-        return [x, y, z];
+        return [x * r, y * r, z * r];
     }
     
     /**
@@ -287,9 +287,8 @@ export class GeoDataLoader {
      */
     public static cartesianToLonLat(x: number, y: number, z: number): [number, number, number] {
         const radius = Math.sqrt(x * x + y * y + z * z);
-        const longitude = Math.atan2(z, x) * 180 / Math.PI;
-        const latitude = Math.asin(y / radius) * 180 / Math.PI;
-        const altitude = (radius - 1) * 1000; // 假设基础半径为1
+        const [longitude, latitude] = globe.unproject(x, y, z);
+        const altitude = (radius - 1) / ALTITUDE_SCALE; // 假设基础半径为1
         
         return [longitude, latitude, altitude];
     }
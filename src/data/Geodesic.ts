@@ -0,0 +1,259 @@
+// WGS84椭球长半轴（米）和扁率
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_B = WGS84_A * (1 - WGS84_F);
+const WGS84_E2 = WGS84_F * (2 - WGS84_F);
+const WGS84_E = Math.sqrt(WGS84_E2);
+
+// Vincenty迭代的收敛精度（弧度，约0.06毫米）和最大迭代次数
+const VINCENTY_EPSILON = 1e-12;
+const VINCENTY_MAX_ITERATIONS = 200;
+
+// 计算面积时测地线边的加密间距（米），使加密后的大圆弧与测地线的差异可以忽略
+const AREA_EDGE_SPACING = 10000;
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+/**
+ * 授权纬度计算中的q函数
+ */
+function authalicQ(sinLatitude: number): number {
+    const eSin = WGS84_E * sinLatitude;
+    return (1 - WGS84_E2) * (
+        sinLatitude / (1 - eSin * eSin) -
+        Math.log((1 - eSin) / (1 + eSin)) / (2 * WGS84_E)
+    );
+}
+
+// 极点处的q值，以及与椭球面积相等的球（授权球）半径
+const AUTHALIC_QP = authalicQ(1);
+const AUTHALIC_RADIUS = WGS84_A * Math.sqrt(AUTHALIC_QP / 2);
+
+/**
+ * 测地线反算结果
+ */
+export interface GeodesicInverse {
+    /**
+     * 距离（米）
+     */
+    distance: number;
+    
+    /**
+     * 起点方位角（度，正北为0，顺时针）
+     */
+    initialBearing: number;
+}
+
+/**
+ * WGS84椭球上的测地线计算
+ * 距离和方位使用Vincenty公式，面积通过授权纬度换算到等面积球上计算
+ */
+export class Geodesic {
+    /**
+     * 反算两点间的测地线距离和起点方位角
+     * 近似对跖的两点Vincenty迭代可能不收敛，此时退回授权球上的大圆距离
+     * @param from 起点[经度, 纬度]
+     * @param to 终点[经度, 纬度]
+     */
+    public static inverse(from: [number, number], to: [number, number]): GeodesicInverse {
+        const L = (to[0] - from[0]) * DEG_TO_RAD;
+        const U1 = Math.atan((1 - WGS84_F) * Math.tan(from[1] * DEG_TO_RAD));
+        const U2 = Math.atan((1 - WGS84_F) * Math.tan(to[1] * DEG_TO_RAD));
+        const sinU1 = Math.sin(U1);
+        const cosU1 = Math.cos(U1);
+        const sinU2 = Math.sin(U2);
+        const cosU2 = Math.cos(U2);
+        
+        let lambda = L;
+        for (let i = 0; i < VINCENTY_MAX_ITERATIONS; i++) {
+            const sinLambda = Math.sin(lambda);
+            const cosLambda = Math.cos(lambda);
+            const sinSigma = Math.hypot(cosU2 * sinLambda, cosU1 * sinU2 - sinU1 * cosU2 * cosLambda);
+            if (sinSigma === 0) {
+                // 重合点
+                return { distance: 0, initialBearing: 0 };
+            }
+            
+            const cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+            const sigma = Math.atan2(sinSigma, cosSigma);
+            const sinAlpha = cosU1 * cosU2 * sinLambda / sinSigma;
+            const cos2Alpha = 1 - sinAlpha * sinAlpha;
+            // 两点都在赤道上时cos2Alpha为0
+            const cos2SigmaM = cos2Alpha !== 0 ? cosSigma - 2 * sinU1 * sinU2 / cos2Alpha : 0;
+            const C = WGS84_F / 16 * cos2Alpha * (4 + WGS84_F * (4 - 3 * cos2Alpha));
+            
+            const previous = lambda;
+            lambda = L + (1 - C) * WGS84_F * sinAlpha *
+                (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+            
+            if (Math.abs(lambda - previous) < VINCENTY_EPSILON) {
+                const u2 = cos2Alpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B) / (WGS84_B * WGS84_B);
+                const A = 1 + u2 / 16384 * (4096 + u2 * (-768 + u2 * (320 - 175 * u2)));
+                const B = u2 / 1024 * (256 + u2 * (-128 + u2 * (74 - 47 * u2)));
+                const deltaSigma = B * sinSigma * (cos2SigmaM + B / 4 * (
+                    cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+                    B / 6 * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)
+                ));
+                const bearing = Math.atan2(
+                    cosU2 * Math.sin(lambda),
+                    cosU1 * sinU2 - sinU1 * cosU2 * Math.cos(lambda)
+                );
+                
+                return {
+                    distance: WGS84_B * A * (sigma - deltaSigma),
+                    initialBearing: (bearing * RAD_TO_DEG + 360) % 360
+                };
+            }
+        }
+        
+        return Geodesic.sphericalInverse(from, to);
+    }
+    
+    /**
+     * 正算：从起点沿方位角走过指定距离后到达的点
+     * @param from 起点[经度, 纬度]
+     * @param bearing 方位角（度）
+     * @param distance 距离（米）
+     * @returns 终点[经度, 纬度]
+     */
+    public static direct(from: [number, number], bearing: number, distance: number): [number, number] {
+        const alpha1 = bearing * DEG_TO_RAD;
+        const sinAlpha1 = Math.sin(alpha1);
+        const cosAlpha1 = Math.cos(alpha1);
+        const tanU1 = (1 - WGS84_F) * Math.tan(from[1] * DEG_TO_RAD);
+        const cosU1 = 1 / Math.sqrt(1 + tanU1 * tanU1);
+        const sinU1 = tanU1 * cosU1;
+        
+        const sigma1 = Math.atan2(tanU1, cosAlpha1);
+        const sinAlpha = cosU1 * sinAlpha1;
+        const cos2Alpha = 1 - sinAlpha * sinAlpha;
+        const u2 = cos2Alpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B) / (WGS84_B * WGS84_B);
+        const A = 1 + u2 / 16384 * (4096 + u2 * (-768 + u2 * (320 - 175 * u2)));
+        const B = u2 / 1024 * (256 + u2 * (-128 + u2 * (74 - 47 * u2)));
+        
+        let sigma = distance / (WGS84_B * A);
+        let cos2SigmaM = 0;
+        let sinSigma = 0;
+        let cosSigma = 0;
+        for (let i = 0; i < VINCENTY_MAX_ITERATIONS; i++) {
+            cos2SigmaM = Math.cos(2 * sigma1 + sigma);
+            sinSigma = Math.sin(sigma);
+            cosSigma = Math.cos(sigma);
+            const deltaSigma = B * sinSigma * (cos2SigmaM + B / 4 * (
+                cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+                B / 6 * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)
+            ));
+            const previous = sigma;
+            sigma = distance / (WGS84_B * A) + deltaSigma;
+            if (Math.abs(sigma - previous) < VINCENTY_EPSILON) break;
+        }
+        
+        sinSigma = Math.sin(sigma);
+        cosSigma = Math.cos(sigma);
+        cos2SigmaM = Math.cos(2 * sigma1 + sigma);
+        const x = sinU1 * sinSigma - cosU1 * cosSigma * cosAlpha1;
+        const latitude = Math.atan2(
+            sinU1 * cosSigma + cosU1 * sinSigma * cosAlpha1,
+            (1 - WGS84_F) * Math.hypot(sinAlpha, x)
+        );
+        const lambda = Math.atan2(sinSigma * sinAlpha1, cosU1 * cosSigma - sinU1 * sinSigma * cosAlpha1);
+        const C = WGS84_F / 16 * cos2Alpha * (4 + WGS84_F * (4 - 3 * cos2Alpha));
+        const L = lambda - (1 - C) * WGS84_F * sinAlpha *
+            (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+        
+        const longitude = ((from[0] * DEG_TO_RAD + L + 3 * Math.PI) % (2 * Math.PI) - Math.PI) * RAD_TO_DEG;
+        return [longitude, latitude * RAD_TO_DEG];
+    }
+    
+    /**
+     * 沿两点间的测地线等距插值
+     * @param segments 分段数，结果包含起点和终点共segments + 1个点
+     */
+    public static interpolate(from: [number, number], to: [number, number], segments: number): Array<[number, number]> {
+        const { distance, initialBearing } = Geodesic.inverse(from, to);
+        const points: Array<[number, number]> = [from];
+        for (let i = 1; i < segments; i++) {
+            points.push(Geodesic.direct(from, initialBearing, distance * i / segments));
+        }
+        points.push(to);
+        return points;
+    }
+    
+    /**
+     * 折线的测地线长度（米）
+     */
+    public static length(coordinates: Array<[number, number]>): number {
+        let total = 0;
+        for (let i = 1; i < coordinates.length; i++) {
+            total += Geodesic.inverse(coordinates[i - 1], coordinates[i]).distance;
+        }
+        return total;
+    }
+    
+    /**
+     * 多边形在椭球面上的面积（平方米），边为测地线，顶点顺序不限，首尾不需要重复
+     * 各边按测地线加密后换算到授权纬度，在等面积的授权球上按球面角盈计算
+     */
+    public static area(ring: Array<[number, number]>): number {
+        if (ring.length < 3) {
+            return 0;
+        }
+        
+        // 测地线边加密为足够短的大圆弧
+        const points: Array<[number, number]> = [];
+        for (let i = 0; i < ring.length; i++) {
+            const from = ring[i];
+            const to = ring[(i + 1) % ring.length];
+            const segments = Math.max(1, Math.ceil(Geodesic.inverse(from, to).distance / AREA_EDGE_SPACING));
+            points.push(...Geodesic.interpolate(from, to, segments).slice(0, -1));
+        }
+        
+        // 每条边与极点围成的球面三角形的角盈之和
+        let excess = 0;
+        for (let i = 0; i < points.length; i++) {
+            const [lon1, lat1] = points[i];
+            const [lon2, lat2] = points[(i + 1) % points.length];
+            const beta1 = Geodesic.authalicLatitude(lat1);
+            const beta2 = Geodesic.authalicLatitude(lat2);
+            let deltaLon = (lon2 - lon1) * DEG_TO_RAD;
+            deltaLon = ((deltaLon + 3 * Math.PI) % (2 * Math.PI)) - Math.PI;
+            
+            const t1 = Math.tan(beta1 / 2);
+            const t2 = Math.tan(beta2 / 2);
+            excess += 2 * Math.atan2(Math.tan(deltaLon / 2) * (t1 + t2), 1 + t1 * t2);
+        }
+        
+        // 取较小的一侧
+        const sphere = 4 * Math.PI * AUTHALIC_RADIUS * AUTHALIC_RADIUS;
+        const area = Math.abs(excess) * AUTHALIC_RADIUS * AUTHALIC_RADIUS;
+        return Math.min(area, sphere - area);
+    }
+    
+    /**
+     * 大地纬度换算为授权纬度（弧度）
+     */
+    private static authalicLatitude(latitude: number): number {
+        const q = authalicQ(Math.sin(latitude * DEG_TO_RAD));
+        return Math.asin(Math.max(-1, Math.min(1, q / AUTHALIC_QP)));
+    }
+    
+    /**
+     * 授权球上的大圆距离和方位角，用于Vincenty不收敛时
+     */
+    private static sphericalInverse(from: [number, number], to: [number, number]): GeodesicInverse {
+        const lat1 = from[1] * DEG_TO_RAD;
+        const lat2 = to[1] * DEG_TO_RAD;
+        const deltaLon = (to[0] - from[0]) * DEG_TO_RAD;
+        const a = Math.sin((lat2 - lat1) / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin(deltaLon / 2) ** 2;
+        const bearing = Math.atan2(
+            Math.sin(deltaLon) * Math.cos(lat2),
+            Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(deltaLon)
+        );
+        
+        return {
+            distance: 2 * AUTHALIC_RADIUS * Math.asin(Math.min(1, Math.sqrt(a))),
+            initialBearing: (bearing * RAD_TO_DEG + 360) % 360
+        };
+    }
+}
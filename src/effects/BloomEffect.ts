@@ -0,0 +1,119 @@
+import { PostEffect, PostEffectContext, FullscreenPass } from './PostEffect';
+import { PostProcessShaders } from '../shaders/PostProcessShaders';
+import { RenderGraph } from '../renderers/RenderGraph';
+
+/**
+ * 泛光效果选项
+ */
+export interface BloomEffectOptions {
+    /**
+     * 亮度阈值，超过此值的像素才会发光（默认: 0.8）
+     */
+    threshold?: number;
+    
+    /**
+     * 阈值附近的过渡宽度（默认: 0.2）
+     */
+    knee?: number;
+    
+    /**
+     * 泛光强度（默认: 0.8）
+     */
+    intensity?: number;
+    
+    /**
+     * 模糊半径，单位为半分辨率像素（默认: 1.5）
+     */
+    radius?: number;
+}
+
+/**
+ * 泛光效果
+ * 提取高亮 -> 半分辨率水平/垂直模糊 -> 与原图合成
+ */
+export class BloomEffect extends PostEffect {
+    private extractPass: FullscreenPass | null = null;
+    private blurHorizontalPass: FullscreenPass | null = null;
+    private blurVerticalPass: FullscreenPass | null = null;
+    private compositePass: FullscreenPass | null = null;
+    
+    private threshold: number = 0.8;
+    private knee: number = 0.2;
+    private intensity: number = 0.8;
+    private radius: number = 1.5;
+    
+    constructor(id: string = 'bloom', options: BloomEffectOptions = {}) {
+        super(id);
+        this.setOptions(options);
+    }
+    
+    /**
+     * 更新效果参数
+     */
+    public setOptions(options: BloomEffectOptions): void {
+        if (options.threshold !== undefined) this.threshold = options.threshold;
+        if (options.knee !== undefined) this.knee = Math.max(0.0001, options.knee);
+        if (options.intensity !== undefined) this.intensity = options.intensity;
+        if (options.radius !== undefined) this.radius = options.radius;
+    }
+    
+    protected createPasses(device: GPUDevice, format: GPUTextureFormat): boolean {
+        this.extractPass = this.createFullscreenPass(device, `${this.id} extract`, PostProcessShaders.getBloomExtractEffect(), format);
+        this.blurHorizontalPass = this.createFullscreenPass(device, `${this.id} blur H`, PostProcessShaders.getBloomBlurEffect(), format);
+        this.blurVerticalPass = this.createFullscreenPass(device, `${this.id} blur V`, PostProcessShaders.getBloomBlurEffect(), format);
+        this.compositePass = this.createFullscreenPass(device, `${this.id} composite`, PostProcessShaders.getBloomCompositeEffect(), format, 1);
+        return true;
+    }
+    
+    public apply(context: PostEffectContext): void {
+        if (!this.extractPass || !this.blurHorizontalPass || !this.blurVerticalPass || !this.compositePass || !this.format) {
+            return;
+        }
+        
+        // 半分辨率的中间目标
+        const targetA = `${this.id}.a`;
+        const targetB = `${this.id}.b`;
+        context.graph.createTarget(targetA, { format: this.format, scale: 0.5 });
+        context.graph.createTarget(targetB, { format: this.format, scale: 0.5 });
+        
+        const viewA = context.graph.getView(targetA);
+        const viewB = context.graph.getView(targetB);
+        const halfWidth = context.graph.getTexture(targetA).width;
+        const halfHeight = context.graph.getTexture(targetA).height;
+        
+        const params = new Float32Array(16);
+        
+        // 提取高亮部分
+        params[0] = this.threshold;
+        params[1] = this.knee;
+        this.drawFullscreenPass(context, this.extractPass, context.input, viewA, halfWidth, halfHeight, params);
+        
+        // 水平模糊
+        params.fill(0);
+        params[0] = this.radius;
+        this.drawFullscreenPass(context, this.blurHorizontalPass, viewA, viewB, halfWidth, halfHeight, params);
+        
+        // 垂直模糊
+        params[0] = 0;
+        params[1] = this.radius;
+        this.drawFullscreenPass(context, this.blurVerticalPass, viewB, viewA, halfWidth, halfHeight, params);
+        
+        // 合成
+        params.fill(0);
+        params[0] = this.intensity;
+        this.drawFullscreenPass(context, this.compositePass, context.input, context.output, context.width, context.height, params, [viewA]);
+    }
+    
+    public releaseTargets(graph: RenderGraph): void {
+        graph.removeTarget(`${this.id}.a`);
+        graph.removeTarget(`${this.id}.b`);
+    }
+    
+    public destroy(): void {
+        this.extractPass = this.destroyPass(this.extractPass);
+        this.blurHorizontalPass = this.destroyPass(this.blurHorizontalPass);
+        this.blurVerticalPass = this.destroyPass(this.blurVerticalPass);
+        this.compositePass = this.destroyPass(this.compositePass);
+        super.destroy();
+    }
+}
@@ -0,0 +1,58 @@
+import { FullscreenEffect } from './PostEffect';
+import { PostProcessShaders } from '../shaders/PostProcessShaders';
+
+/**
+ * 色彩分级效果选项
+ */
+export interface ColorGradingEffectOptions {
+    /**
+     * 曝光补偿，单位为档（默认: 0）
+     */
+    exposure?: number;
+    
+    /**
+     * 对比度（默认: 1）
+     */
+    contrast?: number;
+    
+    /**
+     * 饱和度（默认: 1）
+     */
+    saturation?: number;
+    
+    /**
+     * 亮度偏移（默认: 0）
+     */
+    brightness?: number;
+    
+    /**
+     * 色调，格式为[R, G, B]（默认: [1, 1, 1]）
+     */
+    tint?: [number, number, number];
+}
+
+/**
+ * 色彩分级效果
+ */
+export class ColorGradingEffect extends FullscreenEffect {
+    constructor(id: string = 'color-grading', options: ColorGradingEffectOptions = {}) {
+        super(id);
+        this.params.set([0.0, 1.0, 1.0, 0.0, 1.0, 1.0, 1.0, 0.0]);
+        this.setOptions(options);
+    }
+    
+    /**
+     * 更新效果参数
+     */
+    public setOptions(options: ColorGradingEffectOptions): void {
+        if (options.exposure !== undefined) this.params[0] = options.exposure;
+        if (options.contrast !== undefined) this.params[1] = options.contrast;
+        if (options.saturation !== undefined) this.params[2] = options.saturation;
+        if (options.brightness !== undefined) this.params[3] = options.brightness;
+        if (options.tint !== undefined) this.params.set(options.tint, 4);
+    }
+    
+    protected getFragmentCode(): string {
+        return PostProcessShaders.getColorGradingEffect();
+    }
+}
@@ -0,0 +1,16 @@
+import { FullscreenEffect } from './PostEffect';
+import { PostProcessShaders } from '../shaders/PostProcessShaders';
+
+/**
+ * 复制效果
+ * 将输入纹理原样写入输出，用于把离屏结果呈现到画布
+ */
+export class CopyEffect extends FullscreenEffect {
+    constructor(id: string = 'copy') {
+        super(id);
+    }
+    
+    protected getFragmentCode(): string {
+        return PostProcessShaders.getCopyEffect();
+    }
+}
@@ -0,0 +1,44 @@
+import { FullscreenEffect } from './PostEffect';
+
+/**
+ * 自定义效果选项
+ */
+export interface CustomEffectOptions {
+    /**
+     * WGSL代码，必须定义 fn applyEffect(uv: vec2<f32>) -> vec4<f32>
+     * 可以使用 inputTexture、inputSampler 和 effectUniforms（resolution、time、params）
+     */
+    code: string;
+    
+    /**
+     * 传入effectUniforms.params的参数，最多16个数值
+     */
+    params?: number[];
+}
+
+/**
+ * 用户自定义WGSL效果
+ */
+export class CustomEffect extends FullscreenEffect {
+    private code: string;
+    
+    constructor(id: string, options: CustomEffectOptions) {
+        super(id);
+        this.code = options.code;
+        if (options.params) {
+            this.setParams(options.params);
+        }
+    }
+    
+    /**
+     * 更新自定义参数
+     */
+    public setParams(params: number[]): void {
+        this.params.fill(0);
+        this.params.set(params.slice(0, 16));
+    }
+    
+    protected getFragmentCode(): string {
+        return this.code;
+    }
+}
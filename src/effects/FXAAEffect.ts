@@ -0,0 +1,48 @@
+import { FullscreenEffect } from './PostEffect';
+import { PostProcessShaders } from '../shaders/PostProcessShaders';
+
+/**
+ * FXAA效果选项
+ */
+export interface FXAAEffectOptions {
+    /**
+     * 边缘检测的相对阈值（默认: 0.125）
+     */
+    edgeThreshold?: number;
+    
+    /**
+     * 边缘检测的最小阈值（默认: 0.0312）
+     */
+    edgeThresholdMin?: number;
+    
+    /**
+     * 子像素抗锯齿强度（默认: 0.75）
+     */
+    subpixel?: number;
+}
+
+/**
+ * FXAA快速近似抗锯齿效果
+ */
+export class FXAAEffect extends FullscreenEffect {
+    constructor(id: string = 'fxaa', options: FXAAEffectOptions = {}) {
+        super(id);
+        this.params[0] = 0.125;
+        this.params[1] = 0.0312;
+        this.params[2] = 0.75;
+        this.setOptions(options);
+    }
+    
+    /**
+     * 更新效果参数
+     */
+    public setOptions(options: FXAAEffectOptions): void {
+        if (options.edgeThreshold !== undefined) this.params[0] = options.edgeThreshold;
+        if (options.edgeThresholdMin !== undefined) this.params[1] = options.edgeThresholdMin;
+        if (options.subpixel !== undefined) this.params[2] = options.subpixel;
+    }
+    
+    protected getFragmentCode(): string {
+        return PostProcessShaders.getFXAAEffect();
+    }
+}
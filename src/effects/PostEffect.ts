@@ -0,0 +1,330 @@
+import { RenderGraph } from '../renderers/RenderGraph';
+import { FrameStats } from '../core/FrameStats';
+import { PostProcessShaders } from '../shaders/PostProcessShaders';
+
+/**
+ * 后处理效果执行上下文
+ */
+export interface PostEffectContext {
+    device: GPUDevice;
+    encoder: GPUCommandEncoder;
+    graph: RenderGraph;
+    input: GPUTextureView;
+    output: GPUTextureView;
+    width: number;
+    height: number;
+    time: number;
+    
+    /**
+     * 帧统计，用于记录通道的GPU耗时和绘制调用
+     */
+    stats?: FrameStats;
+}
+
+/**
+ * 全屏效果通道
+ * 一个管线 + 一个统一缓冲区，用于组装单通道或多通道效果
+ */
+export interface FullscreenPass {
+    pipeline: GPURenderPipeline;
+    uniformBuffer: GPUBuffer;
+}
+
+/**
+ * 后处理效果基类
+ * 所有后处理效果都应该继承此类
+ */
+export abstract class PostEffect {
+    protected id: string;
+    protected enabled: boolean = true;
+    protected sampler: GPUSampler | null = null;
+    protected format: GPUTextureFormat | null = null;
+    
+    // 帧统计，用于记录统一缓冲区占用的内存
+    private stats: FrameStats | null = null;
+    
+    // 管线是否已通过校验；每次初始化或释放后递增代数，忽略过期的校验结果
+    private validated: boolean = false;
+    private generation: number = 0;
+    
+    // 统一变量参数：4个vec4，含义由子类定义
+    protected params: Float32Array = new Float32Array(16);
+    
+    constructor(id: string) {
+        this.id = id;
+    }
+    
+    /**
+     * 获取效果ID
+     */
+    public getId(): string {
+        return this.id;
+    }
+    
+    /**
+     * 设置效果是否启用
+     */
+    public setEnabled(enabled: boolean): void {
+        this.enabled = enabled;
+    }
+    
+    /**
+     * 获取效果是否启用
+     */
+    public isEnabled(): boolean {
+        return this.enabled;
+    }
+    
+    /**
+     * 检查效果是否已针对给定格式初始化
+     */
+    public isInitializedFor(format: GPUTextureFormat): boolean {
+        return this.format === format;
+    }
+    
+    /**
+     * 管线是否已通过校验
+     */
+    public isValidated(): boolean {
+        return this.validated;
+    }
+    
+    /**
+     * 初始化效果资源
+     * WebGPU异步报告着色器和管线错误，资源创建后立即可用，返回的Promise在校验通过时resolve，
+     * 校验失败时释放资源并以错误reject；校验完成前效果被释放或重新初始化时resolve为false
+     * @param device GPU设备
+     * @param format 输出纹理格式
+     * @param stats 帧统计
+     */
+    public initialize(device: GPUDevice, format: GPUTextureFormat, stats: FrameStats): Promise<boolean> {
+        this.destroy();
+        const generation = this.generation;
+        this.stats = stats;
+        
+        this.sampler = device.createSampler({
+            magFilter: 'linear',
+            minFilter: 'linear',
+            addressModeU: 'clamp-to-edge',
+            addressModeV: 'clamp-to-edge',
+        });
+        
+        device.pushErrorScope('validation');
+        const created = this.createPasses(device, format);
+        const validation = device.popErrorScope();
+        if (created) {
+            this.format = format;
+        }
+        
+        return validation.then(error => {
+            if (generation !== this.generation) {
+                return false;
+            }
+            if (!created || error) {
+                this.destroy();
+                throw new Error(`后处理效果 ${this.id} 初始化失败${error ? `: ${error.message}` : ''}`);
+            }
+            this.validated = true;
+            return true;
+        });
+    }
+    
+    /**
+     * 创建效果所需的管线
+     */
+    protected abstract createPasses(device: GPUDevice, format: GPUTextureFormat): boolean;
+    
+    /**
+     * 将效果应用到输入纹理并写入输出纹理
+     */
+    public abstract apply(context: PostEffectContext): void;
+    
+    /**
+     * 释放效果在渲染图中声明的中间目标
+     */
+    public releaseTargets(_graph: RenderGraph): void {
+        // 子类可以重写此方法
+    }
+    
+    /**
+     * 创建全屏效果通道
+     * @param fragmentCode 定义applyEffect(uv)函数的WGSL代码
+     * @param extraTextures 额外的纹理绑定数量（从binding 3开始）
+     */
+    protected createFullscreenPass(
+        device: GPUDevice,
+        label: string,
+        fragmentCode: string,
+        format: GPUTextureFormat,
+        extraTextures: number = 0
+    ): FullscreenPass {
+        const shaderModule = device.createShaderModule({
+            label: `${label} shaders`,
+            code: PostProcessShaders.getFullscreenVertexShader() +
+                PostProcessShaders.getEffectHeader() +
+                fragmentCode +
+                PostProcessShaders.getEffectFragmentEntry()
+        });
+        
+        const entries: GPUBindGroupLayoutEntry[] = [
+            {
+                binding: 0,
+                visibility: GPUShaderStage.FRAGMENT,
+                texture: { sampleType: "float" }
+            },
+            {
+                binding: 1,
+                visibility: GPUShaderStage.FRAGMENT,
+                sampler: {}
+            },
+            {
+                binding: 2,
+                visibility: GPUShaderStage.FRAGMENT,
+                buffer: { type: "uniform" }
+            }
+        ];
+        for (let i = 0; i < extraTextures; i++) {
+            entries.push({
+                binding: 3 + i,
+                visibility: GPUShaderStage.FRAGMENT,
+                texture: { sampleType: "float" }
+            });
+        }
+        
+        const bindGroupLayout = device.createBindGroupLayout({
+            label: `${label} Bind Group Layout`,
+            entries
+        });
+        
+        const pipeline = device.createRenderPipeline({
+            label: `${label} pipeline`,
+            layout: device.createPipelineLayout({
+                label: `${label} Pipeline Layout`,
+                bindGroupLayouts: [bindGroupLayout]
+            }),
+            vertex: {
+                module: shaderModule,
+                entryPoint: "vertexMain"
+            },
+            fragment: {
+                module: shaderModule,
+                entryPoint: "fragmentMain",
+                targets: [{ format }]
+            },
+            primitive: {
+                topology: "triangle-list"
+            }
+        });
+        
+        const uniformBuffer = device.createBuffer({
+            label: `${label} Uniform Buffer`,
+            size: 16 + 64, // resolution + time + padding + 4个vec4参数
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+        });
+        this.stats?.trackBuffer(uniformBuffer);
+        
+        return { pipeline, uniformBuffer };
+    }
+    
+    /**
+     * 录制一个全屏通道
+     */
+    protected drawFullscreenPass(
+        context: PostEffectContext,
+        pass: FullscreenPass,
+        input: GPUTextureView,
+        output: GPUTextureView,
+        width: number,
+        height: number,
+        params: Float32Array = this.params,
+        extraTextures: GPUTextureView[] = []
+    ): void {
+        // 更新统一变量
+        const uniformData = new Float32Array(20);
+        uniformData[0] = width;
+        uniformData[1] = height;
+        uniformData[2] = context.time;
+        uniformData[3] = 0.0; // padding
+        uniformData.set(params.subarray(0, 16), 4);
+        context.device.queue.writeBuffer(pass.uniformBuffer, 0, uniformData);
+        
+        const entries: GPUBindGroupEntry[] = [
+            { binding: 0, resource: input },
+            { binding: 1, resource: this.sampler! },
+            { binding: 2, resource: { buffer: pass.uniformBuffer } }
+        ];
+        extraTextures.forEach((view, i) => entries.push({ binding: 3 + i, resource: view }));
+        
+        const bindGroup = context.device.createBindGroup({
+            label: `${this.id} Bind Group`,
+            layout: pass.pipeline.getBindGroupLayout(0),
+            entries
+        });
+        
+        const renderPass = context.encoder.beginRenderPass({
+            label: `${this.id} Pass`,
+            colorAttachments: [{
+                view: output,
+                clearValue: [0.0, 0.0, 0.0, 0.0],
+                loadOp: 'clear',
+                storeOp: 'store',
+            }],
+            timestampWrites: context.stats?.getTimestampWrites(`effect:${this.id}`)
+        });
+        renderPass.setPipeline(pass.pipeline);
+        renderPass.setBindGroup(0, bindGroup);
+        renderPass.draw(3);
+        renderPass.end();
+        
+        context.stats?.recordDraw(3);
+    }
+    
+    /**
+     * 释放全屏通道资源
+     */
+    protected destroyPass(pass: FullscreenPass | null): null {
+        if (pass) {
+            this.stats?.release(pass.uniformBuffer);
+            pass.uniformBuffer.destroy();
+        }
+        return null;
+    }
+    
+    /**
+     * 释放效果资源
+     */
+    public destroy(): void {
+        this.sampler = null;
+        this.format = null;
+        this.validated = false;
+        this.generation++;
+    }
+}
+
+/**
+ * 单通道全屏效果基类
+ * 子类只需提供定义applyEffect(uv)函数的WGSL代码
+ */
+export abstract class FullscreenEffect extends PostEffect {
+    private pass: FullscreenPass | null = null;
+    
+    /**
+     * 获取效果的WGSL代码
+     */
+    protected abstract getFragmentCode(): string;
+    
+    protected createPasses(device: GPUDevice, format: GPUTextureFormat): boolean {
+        this.pass = this.createFullscreenPass(device, this.id, this.getFragmentCode(), format);
+        return true;
+    }
+    
+    public apply(context: PostEffectContext): void {
+        if (!this.pass) return;
+        this.drawFullscreenPass(context, this.pass, context.input, context.output, context.width, context.height);
+    }
+    
+    public destroy(): void {
+        this.pass = this.destroyPass(this.pass);
+        super.destroy();
+    }
+}
@@ -0,0 +1,48 @@
+import { FullscreenEffect } from './PostEffect';
+import { PostProcessShaders } from '../shaders/PostProcessShaders';
+
+/**
+ * 暗角效果选项
+ */
+export interface VignetteEffectOptions {
+    /**
+     * 边缘变暗的强度，0-1（默认: 0.5）
+     */
+    intensity?: number;
+    
+    /**
+     * 暗角开始的半径（默认: 0.75）
+     */
+    radius?: number;
+    
+    /**
+     * 过渡的柔和度（默认: 0.45）
+     */
+    softness?: number;
+}
+
+/**
+ * 暗角效果
+ */
+export class VignetteEffect extends FullscreenEffect {
+    constructor(id: string = 'vignette', options: VignetteEffectOptions = {}) {
+        super(id);
+        this.params[0] = 0.5;
+        this.params[1] = 0.75;
+        this.params[2] = 0.45;
+        this.setOptions(options);
+    }
+    
+    /**
+     * 更新效果参数
+     */
+    public setOptions(options: VignetteEffectOptions): void {
+        if (options.intensity !== undefined) this.params[0] = Math.max(0, Math.min(1, options.intensity));
+        if (options.radius !== undefined) this.params[1] = options.radius;
+        if (options.softness !== undefined) this.params[2] = options.softness;
+    }
+    
+    protected getFragmentCode(): string {
+        return PostProcessShaders.getVignetteEffect();
+    }
+}
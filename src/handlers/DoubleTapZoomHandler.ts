@@ -0,0 +1,79 @@
+import { PointerHandler } from './PointerHandler';
+
+// 点按期间允许的最大移动距离（像素）
+const TAP_TOLERANCE = 10;
+
+// 点按的最长按下时间（毫秒）
+const TAP_DURATION = 300;
+
+// 上一次点按抬起到下一次按下的最长间隔（毫秒）
+const DOUBLE_TAP_INTERVAL = 300;
+
+// 两次点按位置的最大距离（像素）
+const DOUBLE_TAP_DISTANCE = 30;
+
+/**
+ * 点按记录（客户区坐标和时间戳）
+ */
+interface Tap {
+    x: number;
+    y: number;
+    time: number;
+}
+
+/**
+ * 双击放大处理器
+ * 手指、触控笔双击或鼠标左键双击时，以点按位置为锚点平滑放大一级（缩放级别翻倍）
+ */
+export class DoubleTapZoomHandler extends PointerHandler {
+    // 进行中的点按（按下时间），移动过远或多指按下时取消
+    private pending: Tap | null = null;
+    
+    // 上一次点按（抬起时间）
+    private lastTap: Tap | null = null;
+    
+    protected reset(): void {
+        super.reset();
+        this.pending = null;
+        this.lastTap = null;
+    }
+    
+    protected onPointerDown(event: PointerEvent): void {
+        const primary = event.pointerType !== 'mouse' || event.button === 0;
+        this.pending = this.pointers.size === 1 && primary
+            ? { x: event.clientX, y: event.clientY, time: event.timeStamp }
+            : null;
+    }
+    
+    protected onPointerMove(event: PointerEvent): void {
+        if (this.pending && Math.hypot(event.clientX - this.pending.x, event.clientY - this.pending.y) > TAP_TOLERANCE) {
+            this.pending = null;
+        }
+    }
+    
+    protected onPointerUp(event: PointerEvent, cancelled: boolean): void {
+        const tap = this.pending;
+        this.pending = null;
+        if (!tap || cancelled || event.timeStamp - tap.time > TAP_DURATION) {
+            return;
+        }
+        
+        const last = this.lastTap;
+        if (last && tap.time - last.time < DOUBLE_TAP_INTERVAL && Math.hypot(tap.x - last.x, tap.y - last.y) < DOUBLE_TAP_DISTANCE) {
+            this.lastTap = null;
+            this.zoomIn(tap);
+        } else {
+            this.lastTap = { x: tap.x, y: tap.y, time: event.timeStamp };
+        }
+    }
+    
+    /**
+     * 以点按位置为锚点放大
+     */
+    private zoomIn(tap: Tap): void {
+        const { motion } = this.context;
+        this.context.interrupt();
+        motion.zoomTo(motion.getTargetZoom() * 2, this.context.pick(tap.x, tap.y));
+        this.context.requestRender();
+    }
+}
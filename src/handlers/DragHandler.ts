@@ -0,0 +1,108 @@
+import { InputContext } from './InputHandler';
+import { PointerHandler, PointerPosition } from './PointerHandler';
+
+/**
+ * 拖拽处理器
+ * 单个指针（鼠标、触控笔或一根手指）拖拽旋转地球，释放后惯性旋转；鼠标右键拖拽调整方位角和俯仰角。
+ * 第二个指针按下时停止拖拽，交给双指手势处理
+ */
+export class DragHandler extends PointerHandler {
+    private dragging: boolean = false;
+    private orbiting: boolean = false;
+    
+    // 拖拽时每像素旋转的角度（弧度）
+    private panSpeed: number = 0.01;
+    
+    // 右键拖拽时每像素改变的方位角和俯仰角（度）
+    private orbitSpeed: number = 0.3;
+    
+    private boundHandleContextMenu: (event: MouseEvent) => void;
+    
+    constructor(context: InputContext) {
+        super(context);
+        this.boundHandleContextMenu = this.handleContextMenu.bind(this);
+    }
+    
+    /**
+     * 是否正在拖拽
+     */
+    public isActive(): boolean {
+        return this.dragging;
+    }
+    
+    protected addListeners(): void {
+        super.addListeners();
+        
+        // 右键用于旋转和倾斜，屏蔽右键菜单
+        this.context.canvas.addEventListener('contextmenu', this.boundHandleContextMenu);
+    }
+    
+    protected removeListeners(): void {
+        super.removeListeners();
+        this.context.canvas.removeEventListener('contextmenu', this.boundHandleContextMenu);
+    }
+    
+    protected reset(): void {
+        super.reset();
+        this.dragging = false;
+    }
+    
+    protected onPointerDown(event: PointerEvent): void {
+        if (this.pointers.size === 1) {
+            this.context.stop();
+            this.context.stopAutoRotate();
+            this.dragging = true;
+            this.orbiting = event.pointerType === 'mouse' && event.button === 2;
+            this.context.motion.beginPan();
+        } else if (this.dragging) {
+            // 多指按下时不再拖拽，丢弃速度采样避免松开后惯性旋转
+            this.dragging = false;
+            this.context.motion.beginPan();
+        }
+        
+        // 防止默认行为（文本选择、兼容鼠标事件）
+        event.preventDefault();
+    }
+    
+    protected onPointerMove(event: PointerEvent, previous: PointerPosition): void {
+        if (!this.dragging) return;
+        
+        const deltaX = event.clientX - previous.x;
+        // 修正Y轴方向, 因为Y轴方向是相反的
+        const deltaY = -(event.clientY - previous.y);
+        
+        if (this.orbiting) {
+            // 右键拖拽：水平改变方位角，向上拖拽增大俯仰角
+            this.context.controller.rotate(deltaX * this.orbitSpeed);
+            this.context.controller.tilt(deltaY * this.orbitSpeed);
+        } else {
+            // 旋转地球，拖拽点跟随指针
+            this.context.motion.pan(-deltaX * this.panSpeed, -deltaY * this.panSpeed);
+        }
+    }
+    
+    protected onPointerUp(_event: PointerEvent, cancelled: boolean): void {
+        if (this.pointers.size === 1) {
+            // 双指手势抬起一根手指后，剩下的手指继续拖拽
+            this.dragging = true;
+            this.orbiting = false;
+            this.context.motion.beginPan();
+            return;
+        }
+        if (this.pointers.size > 0) return;
+        
+        // 拖拽释放后继续惯性旋转
+        if (this.dragging && !this.orbiting && !cancelled) {
+            this.context.motion.endPan();
+            this.context.requestRender();
+        }
+        this.dragging = false;
+    }
+    
+    /**
+     * 处理右键菜单事件
+     */
+    private handleContextMenu(event: MouseEvent): void {
+        event.preventDefault();
+    }
+}
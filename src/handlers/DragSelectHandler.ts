@@ -0,0 +1,130 @@
+import { InputContext } from './InputHandler';
+import { PointerHandler } from './PointerHandler';
+import { SelectionOverlay } from '../ui/SelectionOverlay';
+
+/**
+ * 选择方式
+ * - box: 按住Shift拖拽出矩形选择框
+ * - lasso: 按住Alt拖拽出任意形状的套索
+ */
+export type SelectionMode = 'box' | 'lasso';
+
+// 套索相邻顶点的最小距离（像素），避免顶点过多
+const LASSO_SPACING = 4;
+
+// 选择框的最小边长（像素），更小的拖拽视为误操作
+const MIN_BOX_SIZE = 3;
+
+/**
+ * 框选处理器
+ * 拖拽结束时把屏幕上的选择区域（画布坐标多边形）交给回调，由地图选出区域内的要素
+ */
+export class DragSelectHandler extends PointerHandler {
+    private onSelect: (polygon: Array<[number, number]>) => void;
+    private overlay: SelectionOverlay;
+    private mode: SelectionMode | null = null;
+    private origin: [number, number] = [0, 0];
+    private points: Array<[number, number]> = [];
+    
+    /**
+     * @param context 交互上下文
+     * @param onSelect 拖拽结束时调用，参数为选择区域顶点的画布坐标（CSS像素）
+     */
+    constructor(context: InputContext, onSelect: (polygon: Array<[number, number]>) => void) {
+        super(context);
+        this.onSelect = onSelect;
+        this.overlay = new SelectionOverlay(context.canvas);
+    }
+    
+    /**
+     * 获取指针按下事件对应的选择方式，不是框选操作时为null
+     * 只有鼠标左键、触控笔或手指配合修饰键才会开始框选
+     */
+    public static getMode(event: PointerEvent): SelectionMode | null {
+        if (event.pointerType === 'mouse' && event.button !== 0) {
+            return null;
+        }
+        if (event.shiftKey) {
+            return 'box';
+        }
+        if (event.altKey) {
+            return 'lasso';
+        }
+        return null;
+    }
+    
+    /**
+     * 是否正在框选
+     */
+    public isActive(): boolean {
+        return this.mode !== null;
+    }
+    
+    protected reset(): void {
+        super.reset();
+        this.mode = null;
+        this.points = [];
+        this.overlay.hide();
+    }
+    
+    protected acceptsPointer(event: PointerEvent): boolean {
+        return this.mode === null && DragSelectHandler.getMode(event) !== null;
+    }
+    
+    protected onPointerDown(event: PointerEvent): void {
+        this.mode = DragSelectHandler.getMode(event);
+        this.origin = this.toCanvasPoint(event);
+        this.points = [this.origin];
+        
+        // 防止默认行为（文本选择、兼容鼠标事件）
+        event.preventDefault();
+    }
+    
+    protected onPointerMove(event: PointerEvent): void {
+        if (!this.mode) return;
+        
+        const point = this.toCanvasPoint(event);
+        if (this.mode === 'box') {
+            this.points = this.getBox(this.origin, point);
+        } else {
+            const last = this.points[this.points.length - 1];
+            if (Math.hypot(point[0] - last[0], point[1] - last[1]) < LASSO_SPACING) return;
+            this.points.push(point);
+        }
+        this.overlay.show(this.points);
+    }
+    
+    protected onPointerUp(_event: PointerEvent, cancelled: boolean): void {
+        const mode = this.mode;
+        const points = this.points;
+        this.mode = null;
+        this.points = [];
+        this.overlay.hide();
+        if (!mode || cancelled) return;
+        
+        if (mode === 'box') {
+            const [left, top] = points[0];
+            const [right, bottom] = points[2] ?? points[0];
+            if (Math.abs(right - left) < MIN_BOX_SIZE || Math.abs(bottom - top) < MIN_BOX_SIZE) return;
+        } else if (points.length < 3) {
+            return;
+        }
+        
+        this.onSelect(points);
+    }
+    
+    /**
+     * 由对角两点得到矩形的四个顶点
+     */
+    private getBox(from: [number, number], to: [number, number]): Array<[number, number]> {
+        return [from, [to[0], from[1]], to, [from[0], to[1]]];
+    }
+    
+    /**
+     * 客户区坐标转换为画布坐标
+     */
+    private toCanvasPoint(event: PointerEvent): [number, number] {
+        const rect = this.context.canvas.getBoundingClientRect();
+        return [event.clientX - rect.left, event.clientY - rect.top];
+    }
+}
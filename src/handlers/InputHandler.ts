@@ -0,0 +1,118 @@
+import { GlobeCameraController } from '../core/GlobeCameraController';
+import { CameraMotion } from '../core/CameraMotion';
+
+/**
+ * 交互处理器访问地图的接口
+ */
+export interface InputContext {
+    /**
+     * 监听事件的画布
+     */
+    canvas: HTMLCanvasElement;
+    
+    /**
+     * 相机控制器
+     */
+    controller: GlobeCameraController;
+    
+    /**
+     * 相机运动（拖拽惯性和平滑缩放）
+     */
+    motion: CameraMotion;
+    
+    /**
+     * 打断相机动画并暂停导览，保留进行中的惯性和平滑缩放
+     */
+    interrupt(): void;
+    
+    /**
+     * 停止所有相机动画，包括惯性和平滑缩放
+     */
+    stop(): void;
+    
+    /**
+     * 停止自动旋转
+     */
+    stopAutoRotate(): void;
+    
+    /**
+     * 按指针处理器的启用状态更新画布的touch-action，启用时禁止浏览器处理触摸滚动和缩放
+     */
+    updateTouchAction(): void;
+    
+    /**
+     * 指针按下事件是否开始框选，框选期间其他指针处理器忽略该指针
+     */
+    isSelectionPointer(event: PointerEvent): boolean;
+    
+    /**
+     * 请求重绘
+     */
+    requestRender(): void;
+    
+    /**
+     * 获取客户区坐标对应的地表[经度, 纬度]，未指向地表时为null
+     */
+    pick(clientX: number, clientY: number): [number, number] | null;
+}
+
+/**
+ * 交互处理器基类
+ * 每个处理器负责一类输入，可以在运行时单独启用或禁用
+ */
+export abstract class InputHandler {
+    protected context: InputContext;
+    private enabled: boolean = false;
+    
+    constructor(context: InputContext) {
+        this.context = context;
+    }
+    
+    /**
+     * 启用，开始监听输入
+     */
+    public enable(): void {
+        if (this.enabled) return;
+        this.enabled = true;
+        this.addListeners();
+    }
+    
+    /**
+     * 禁用，停止监听输入并结束进行中的操作
+     */
+    public disable(): void {
+        if (!this.enabled) return;
+        this.enabled = false;
+        this.removeListeners();
+        this.reset();
+    }
+    
+    /**
+     * 是否已启用
+     */
+    public isEnabled(): boolean {
+        return this.enabled;
+    }
+    
+    /**
+     * 是否有进行中的操作（如拖拽）
+     */
+    public isActive(): boolean {
+        return false;
+    }
+    
+    /**
+     * 添加事件监听
+     */
+    protected abstract addListeners(): void;
+    
+    /**
+     * 移除事件监听
+     */
+    protected abstract removeListeners(): void;
+    
+    /**
+     * 结束进行中的操作
+     */
+    protected reset(): void {}
+}
@@ -0,0 +1,149 @@
+import { InputContext, InputHandler } from './InputHandler';
+
+/**
+ * 键盘操作
+ */
+export type KeyboardAction =
+    | 'panLeft'
+    | 'panRight'
+    | 'panUp'
+    | 'panDown'
+    | 'zoomIn'
+    | 'zoomOut'
+    | 'toggleAutoRotate'
+    | 'resetView'
+    | 'toggleGridLines'
+    | 'toggleStats';
+
+/**
+ * 默认按键绑定（按键为KeyboardEvent.key，字母不区分大小写）
+ */
+export const DEFAULT_KEY_BINDINGS: Readonly<Record<string, KeyboardAction>> = {
+    'ArrowLeft': 'panLeft',
+    'a': 'panLeft',
+    'ArrowRight': 'panRight',
+    'd': 'panRight',
+    'ArrowUp': 'panUp',
+    'w': 'panUp',
+    'ArrowDown': 'panDown',
+    's': 'panDown',
+    '+': 'zoomIn',
+    '=': 'zoomIn',
+    '-': 'zoomOut',
+    '_': 'zoomOut',
+    ' ': 'toggleAutoRotate',
+    'r': 'resetView',
+    'g': 'toggleGridLines',
+    'i': 'toggleStats'
+};
+
+/**
+ * 统一按键写法：单个字符转为小写，其余（如ArrowLeft）保持不变
+ */
+function normalizeKey(key: string): string {
+    return key.length === 1 ? key.toLowerCase() : key;
+}
+
+/**
+ * 键盘处理器
+ * 只在画布获得焦点时响应按键，不影响页面上的输入框；按下画布时画布自动获得焦点
+ */
+export class KeyboardHandler extends InputHandler {
+    private actions: Record<KeyboardAction, () => void>;
+    private bindings: Map<string, KeyboardAction> = new Map();
+    
+    // 画布原本没有tabindex时由处理器添加，禁用时移除
+    private addedTabIndex: boolean = false;
+    
+    private boundHandleKeyDown: (event: KeyboardEvent) => void;
+    private boundHandlePointerDown: () => void;
+    
+    /**
+     * @param context 交互上下文
+     * @param actions 每个键盘操作的执行函数
+     */
+    constructor(context: InputContext, actions: Record<KeyboardAction, () => void>) {
+        super(context);
+        this.actions = actions;
+        this.resetBindings();
+        this.boundHandleKeyDown = this.handleKeyDown.bind(this);
+        this.boundHandlePointerDown = this.handlePointerDown.bind(this);
+    }
+    
+    /**
+     * 把按键绑定到操作，覆盖该按键原有的绑定
+     * @param key KeyboardEvent.key的值，如'ArrowLeft'、'q'、' '（空格）
+     */
+    public setBinding(key: string, action: KeyboardAction): void {
+        if (!(action in this.actions)) {
+            throw new Error(`未知的键盘操作: ${action}`);
+        }
+        this.bindings.set(normalizeKey(key), action);
+    }
+    
+    /**
+     * 移除按键的绑定
+     */
+    public removeBinding(key: string): boolean {
+        return this.bindings.delete(normalizeKey(key));
+    }
+    
+    /**
+     * 获取所有按键绑定（按键 -> 操作）
+     */
+    public getBindings(): Record<string, KeyboardAction> {
+        return Object.fromEntries(this.bindings);
+    }
+    
+    /**
+     * 恢复默认按键绑定
+     */
+    public resetBindings(): void {
+        this.bindings = new Map(Object.entries(DEFAULT_KEY_BINDINGS));
+    }
+    
+    protected addListeners(): void {
+        const { canvas } = this.context;
+        
+        // 画布默认不能获得焦点
+        if (!canvas.hasAttribute('tabindex')) {
+            canvas.tabIndex = 0;
+            this.addedTabIndex = true;
+        }
+        canvas.addEventListener('keydown', this.boundHandleKeyDown);
+        
+        // 拖拽时阻止了mousedown的默认行为，画布不会自动获得焦点
+        canvas.addEventListener('pointerdown', this.boundHandlePointerDown);
+    }
+    
+    protected removeListeners(): void {
+        const { canvas } = this.context;
+        canvas.removeEventListener('keydown', this.boundHandleKeyDown);
+        canvas.removeEventListener('pointerdown', this.boundHandlePointerDown);
+        if (this.addedTabIndex) {
+            canvas.removeAttribute('tabindex');
+            this.addedTabIndex = false;
+        }
+    }
+    
+    /**
+     * 按下画布时获得焦点
+     */
+    private handlePointerDown(): void {
+        this.context.canvas.focus({ preventScroll: true });
+    }
+    
+    /**
+     * 处理键盘事件
+     */
+    private handleKeyDown(event: KeyboardEvent): void {
+        // 保留浏览器和系统的组合快捷键
+        if (event.ctrlKey || event.metaKey || event.altKey) return;
+        
+        const action = this.bindings.get(normalizeKey(event.key));
+        if (!action) return;
+        
+        this.actions[action]();
+        event.preventDefault();
+    }
+}
@@ -0,0 +1,113 @@
+import { InputContext, InputHandler } from './InputHandler';
+
+/**
+ * 指针位置（客户区坐标）
+ */
+export interface PointerPosition {
+    x: number;
+    y: number;
+}
+
+/**
+ * 基于Pointer Events的处理器基类
+ * 鼠标、触控笔和触摸使用同一套事件，按下画布的指针被捕获并记录位置，直到抬起或取消
+ */
+export abstract class PointerHandler extends InputHandler {
+    // 按下的指针（按按下顺序排列）
+    protected pointers: Map<number, PointerPosition> = new Map();
+    
+    private boundHandlePointerDown: (event: PointerEvent) => void;
+    private boundHandlePointerMove: (event: PointerEvent) => void;
+    private boundHandlePointerUp: (event: PointerEvent) => void;
+    
+    constructor(context: InputContext) {
+        super(context);
+        this.boundHandlePointerDown = this.handlePointerDown.bind(this);
+        this.boundHandlePointerMove = this.handlePointerMove.bind(this);
+        this.boundHandlePointerUp = this.handlePointerUp.bind(this);
+    }
+    
+    protected addListeners(): void {
+        const { canvas } = this.context;
+        canvas.addEventListener('pointerdown', this.boundHandlePointerDown);
+        canvas.addEventListener('pointermove', this.boundHandlePointerMove);
+        canvas.addEventListener('pointerup', this.boundHandlePointerUp);
+        canvas.addEventListener('pointercancel', this.boundHandlePointerUp);
+        this.context.updateTouchAction();
+    }
+    
+    protected removeListeners(): void {
+        const { canvas } = this.context;
+        canvas.removeEventListener('pointerdown', this.boundHandlePointerDown);
+        canvas.removeEventListener('pointermove', this.boundHandlePointerMove);
+        canvas.removeEventListener('pointerup', this.boundHandlePointerUp);
+        canvas.removeEventListener('pointercancel', this.boundHandlePointerUp);
+        this.context.updateTouchAction();
+    }
+    
+    protected reset(): void {
+        this.pointers.clear();
+    }
+    
+    /**
+     * 是否处理按下的指针，默认不处理框选操作的指针
+     */
+    protected acceptsPointer(event: PointerEvent): boolean {
+        return !this.context.isSelectionPointer(event);
+    }
+    
+    /**
+     * 指针按下，已加入pointers
+     */
+    protected abstract onPointerDown(event: PointerEvent): void;
+    
+    /**
+     * 按下的指针移动，pointers中已是新位置
+     * @param previous 移动前的位置
+     */
+    protected abstract onPointerMove(event: PointerEvent, previous: PointerPosition): void;
+    
+    /**
+     * 指针抬起或取消，已从pointers中移除
+     * @param cancelled 是否被浏览器取消（如系统手势），取消时不应触发点按或惯性
+     */
+    protected abstract onPointerUp(event: PointerEvent, cancelled: boolean): void;
+    
+    /**
+     * 处理指针按下事件
+     */
+    private handlePointerDown(event: PointerEvent): void {
+        if (!this.acceptsPointer(event)) return;
+        
+        this.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+        
+        // 捕获指针，移出画布后仍能收到移动和抬起事件
+        try {
+            this.context.canvas.setPointerCapture(event.pointerId);
+        } catch {
+            // 合成事件的指针无法捕获
+        }
+        
+        this.onPointerDown(event);
+    }
+    
+    /**
+     * 处理指针移动事件
+     */
+    private handlePointerMove(event: PointerEvent): void {
+        const previous = this.pointers.get(event.pointerId);
+        if (!previous) return;
+        
+        this.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+        this.onPointerMove(event, previous);
+    }
+    
+    /**
+     * 处理指针抬起和取消事件
+     */
+    private handlePointerUp(event: PointerEvent): void {
+        if (!this.pointers.delete(event.pointerId)) return;
+        
+        this.onPointerUp(event, event.type === 'pointercancel');
+    }
+}
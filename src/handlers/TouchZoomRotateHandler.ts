@@ -0,0 +1,168 @@
+import { PointerHandler, PointerPosition } from './PointerHandler';
+
+// 开始缩放所需的双指距离变化（对数比例，约10%）
+const ZOOM_THRESHOLD = 0.1;
+
+// 开始旋转所需的双指连线转角（度）
+const ROTATE_THRESHOLD = 15;
+
+// 开始调整俯仰角所需的双指竖直移动距离（像素）
+const PITCH_THRESHOLD = 10;
+
+// 每像素改变的俯仰角（度）
+const PITCH_SPEED = 0.3;
+
+// 双指平移时每像素旋转的角度（弧度），与单指拖拽一致
+const PAN_SPEED = 0.01;
+
+/**
+ * 双指的位置及其距离、连线角度和中点
+ */
+interface TwoFingerState {
+    first: PointerPosition;
+    second: PointerPosition;
+    distance: number;
+    angle: number;
+    center: PointerPosition;
+}
+
+/**
+ * 由两个指针位置计算双指状态
+ */
+function measure(first: PointerPosition, second: PointerPosition): TwoFingerState {
+    return {
+        first,
+        second,
+        distance: Math.max(Math.hypot(second.x - first.x, second.y - first.y), 1),
+        angle: Math.atan2(second.y - first.y, second.x - first.x) * 180 / Math.PI,
+        center: { x: (first.x + second.x) / 2, y: (first.y + second.y) / 2 }
+    };
+}
+
+/**
+ * 两个角度之差，范围[-180, 180)
+ */
+function angleDifference(to: number, from: number): number {
+    return ((to - from) % 360 + 540) % 360 - 180;
+}
+
+/**
+ * 双指手势处理器
+ * 捏合以双指中点为锚点缩放，扭转改变方位角，双指同时上下移动改变俯仰角。
+ * 每种手势超过阈值后才开始生效，捏合时手指的轻微转动不会同时旋转地图；
+ * 俯仰只在缩放和旋转都未开始时识别，一旦开始就不再缩放和旋转
+ */
+export class TouchZoomRotateHandler extends PointerHandler {
+    private start: TwoFingerState | null = null;
+    private last: TwoFingerState | null = null;
+    private zooming: boolean = false;
+    private rotating: boolean = false;
+    private pitching: boolean = false;
+    
+    /**
+     * 是否有进行中的双指手势
+     */
+    public isActive(): boolean {
+        return this.start !== null;
+    }
+    
+    protected reset(): void {
+        super.reset();
+        this.start = null;
+        this.last = null;
+    }
+    
+    protected onPointerDown(): void {
+        if (this.pointers.size === 2) {
+            this.context.stop();
+            this.context.stopAutoRotate();
+            this.beginGesture();
+        }
+    }
+    
+    protected onPointerMove(): void {
+        if (!this.start || !this.last) return;
+        
+        const [first, second] = this.pointers.values();
+        const current = measure(first, second);
+        const start = this.start;
+        
+        // 按手势开始以来的累计变化判断手势类型
+        if (!this.pitching) {
+            if (!this.zooming && Math.abs(Math.log(current.distance / start.distance)) > ZOOM_THRESHOLD) {
+                this.zooming = true;
+            }
+            if (!this.rotating && Math.abs(angleDifference(current.angle, start.angle)) > ROTATE_THRESHOLD) {
+                this.rotating = true;
+            }
+            if (!this.zooming && !this.rotating && this.isVerticalDrag(start, current)) {
+                this.pitching = true;
+            }
+        }
+        
+        // 按与上一次移动的差值更新视角
+        const last = this.last;
+        const { controller, motion } = this.context;
+        if (this.pitching) {
+            // 向上移动增大俯仰角
+            controller.tilt(-(current.center.y - last.center.y) * PITCH_SPEED);
+        } else if (this.zooming || this.rotating) {
+            // 视图跟随双指中点平移
+            const deltaX = current.center.x - last.center.x;
+            const deltaY = current.center.y - last.center.y;
+            controller.pan(-deltaX * PAN_SPEED, deltaY * PAN_SPEED);
+            
+            // 屏幕坐标中顺时针转动手指时地图随之顺时针转动，即方位角减小
+            if (this.rotating) {
+                controller.rotate(-angleDifference(current.angle, last.angle));
+            }
+            if (this.zooming) {
+                motion.zoomTo(
+                    motion.getTargetZoom() * current.distance / last.distance,
+                    this.context.pick(current.center.x, current.center.y)
+                );
+            }
+            this.context.requestRender();
+        }
+        
+        this.last = current;
+    }
+    
+    protected onPointerUp(): void {
+        if (this.pointers.size >= 2) {
+            // 第三根手指抬起等情况下，以剩下的前两根手指重新开始
+            this.beginGesture();
+        } else {
+            this.start = null;
+            this.last = null;
+        }
+    }
+    
+    /**
+     * 以前两个按下的指针开始新的双指手势
+     */
+    private beginGesture(): void {
+        const [first, second] = this.pointers.values();
+        this.start = measure(first, second);
+        this.last = this.start;
+        this.zooming = false;
+        this.rotating = false;
+        this.pitching = false;
+    }
+    
+    /**
+     * 双指是否大致左右并排、并且同向竖直移动超过阈值
+     */
+    private isVerticalDrag(start: TwoFingerState, current: TwoFingerState): boolean {
+        const side = Math.abs(start.second.x - start.first.x) > Math.abs(start.second.y - start.first.y);
+        const firstDy = current.first.y - start.first.y;
+        const secondDy = current.second.y - start.second.y;
+        const vertical = Math.abs(firstDy) > Math.abs(current.first.x - start.first.x) &&
+            Math.abs(secondDy) > Math.abs(current.second.x - start.second.x);
+        
+        return side && vertical &&
+            Math.sign(firstDy) === Math.sign(secondDy) &&
+            Math.abs(firstDy) > PITCH_THRESHOLD &&
+            Math.abs(secondDy) > PITCH_THRESHOLD;
+    }
+}
@@ -0,0 +1,45 @@
+import { InputContext, InputHandler } from './InputHandler';
+
+/**
+ * 滚轮缩放处理器
+ * 以光标下的地表点为锚点平滑缩放，连续滚动的缩放量会累积
+ */
+export class WheelHandler extends InputHandler {
+    private boundHandleWheel: (event: WheelEvent) => void;
+    
+    constructor(context: InputContext) {
+        super(context);
+        this.boundHandleWheel = this.handleWheel.bind(this);
+    }
+    
+    protected addListeners(): void {
+        this.context.canvas.addEventListener('wheel', this.boundHandleWheel, { passive: false });
+    }
+    
+    protected removeListeners(): void {
+        this.context.canvas.removeEventListener('wheel', this.boundHandleWheel);
+    }
+    
+    /**
+     * 处理鼠标滚轮事件
+     */
+    private handleWheel(event: WheelEvent): void {
+        // 打断相机动画，但保留进行中的平滑缩放以便连续滚动累积
+        this.context.interrupt();
+        
+        // 统一为像素单位，每100像素缩放1.1倍
+        const pixelsPerUnit = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? 40
+            : event.deltaMode === WheelEvent.DOM_DELTA_PAGE ? 800
+            : 1;
+        const delta = Math.max(-300, Math.min(300, event.deltaY * pixelsPerUnit));
+        const zoomDelta = Math.pow(1.1, -delta / 100);
+        
+        // 以光标下的地表点为锚点平滑缩放
+        const { motion } = this.context;
+        motion.zoomTo(motion.getTargetZoom() * zoomDelta, this.context.pick(event.clientX, event.clientY));
+        this.context.requestRender();
+        
+        // 防止默认滚动行为
+        event.preventDefault();
+    }
+}
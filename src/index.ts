@@ -1,5 +1,24 @@
 import Map from './AIMap';
+import { PostEffect, FullscreenEffect } from './effects/PostEffect';
+import { FXAAEffect } from './effects/FXAAEffect';
+import { BloomEffect } from './effects/BloomEffect';
+import { VignetteEffect } from './effects/VignetteEffect';
+import { ColorGradingEffect } from './effects/ColorGradingEffect';
+import { CustomEffect } from './effects/CustomEffect';
+import { Tour } from './core/Tour';
+import { Geodesic } from './data/Geodesic';
+import { MeasureControl } from './ui/MeasureControl';
 
 export  {
-    Map
+    Map,
+    PostEffect,
+    FullscreenEffect,
+    FXAAEffect,
+    BloomEffect,
+    VignetteEffect,
+    ColorGradingEffect,
+    CustomEffect,
+    Tour,
+    Geodesic,
+    MeasureControl
 };
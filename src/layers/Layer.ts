@@ -1,11 +1,56 @@
 import { Engine } from '../core/Engine';
 import { Camera } from '../core/Camera';
+import { BackendRenderPass } from '../backends/RenderBackend';
+import { EventEmitter } from '../core/EventEmitter';
+
+/**
+ * 拾取到的要素
+ */
+export interface RenderedFeature {
+    /**
+     * 所在图层ID
+     */
+    layerId: string;
+    
+    /**
+     * 在图层数据中的序号
+     */
+    index: number;
+    
+    /**
+     * 标签
+     */
+    label?: string;
+    
+    /**
+     * 自定义数据
+     */
+    data?: any;
+}
+
+/**
+ * 把经纬度转换为画布坐标（CSS像素）的函数，occluded表示位于相机后方或被地球遮挡
+ */
+export type ScreenProjector = (longitude: number, latitude: number, altitude: number) => { x: number; y: number; occluded: boolean };
+
+/**
+ * 图层事件
+ */
+export interface LayerEvents {
+    /**
+     * 图层数据已变化，之前的要素序号可能不再对应原来的数据
+     */
+    datachange: { layer: Layer };
+}
 
 /**
  * 图层基类
  * 所有地图图层都应该继承此类
+ * 图层通过引擎的渲染后端（engine.getBackend()）创建缓冲区、纹理和管线，
+ * 后端负责让管线与当前渲染目标状态（颜色格式、深度格式、多重采样数和深度策略）一致；
+ * 经纬度通过当前投影（camera.getProjection()）转换为位置，投影对象变化后需要重新计算
  */
-export abstract class Layer {
+export abstract class Layer extends EventEmitter<LayerEvents> {
     protected engine: Engine;
     protected camera: Camera;
     protected visible: boolean = true;
@@ -15,6 +60,7 @@ export abstract class Layer {
     protected name: string;
     
     constructor(id: string, name: string, engine: Engine, camera: Camera) {
+        super();
         this.id = id;
         this.name = name;
         this.engine = engine;
@@ -29,7 +75,16 @@ export abstract class Layer {
     /**
      * 渲染图层
      */
-    public abstract render(renderPass: GPURenderPassEncoder): void;
+    public abstract render(renderPass: BackendRenderPass): void;
+    
+    /**
+     * 设备丢失后在新设备上重建GPU资源
+     * 默认重新调用initialize；保存了GPU对象的子类应先丢弃旧对象（旧设备上的对象已失效），
+     * CPU端数据必须保留以便重建
+     */
+    public async restore(): Promise<boolean> {
+        return this.initialize();
+    }
     
     /**
      * 更新图层（每帧调用）
@@ -38,6 +93,62 @@ export abstract class Layer {
         // 子类可以重写此方法
     }
     
+    /**
+     * 图层是否在持续动画
+     * 按需渲染模式下，返回true的可见图层会让渲染循环持续请求新帧
+     */
+    public isAnimating(): boolean {
+        return false;
+    }
+    
+    /**
+     * 获取图层数据的经纬度坐标，用于按图层范围调整视角
+     */
+    public getCoordinates(): Array<[number, number]> {
+        return [];
+    }
+    
+    /**
+     * 查询画布上某点处绘制的要素，按与该点的距离由近到远排列
+     * 默认没有可拾取的要素，子类按自己的绘制方式在CPU上判断
+     * @param point 画布坐标[x, y]（CSS像素）
+     * @param project 经纬度到画布坐标的转换
+     */
+    public queryRenderedFeatures(_point: [number, number], _project: ScreenProjector): RenderedFeature[] {
+        return [];
+    }
+    
+    /**
+     * 查询画布上多边形区域内的要素（按数据顺序排列），位于相机后方或被地球遮挡的要素不在区域内
+     * 默认没有可选择的要素
+     * @param polygon 区域顶点的画布坐标（CSS像素）
+     * @param project 经纬度到画布坐标的转换
+     */
+    public queryFeaturesInPolygon(_polygon: Array<[number, number]>, _project: ScreenProjector): RenderedFeature[] {
+        return [];
+    }
+    
+    /**
+     * 高亮显示指定序号的要素（替换之前的高亮），默认不支持高亮
+     */
+    public setHighlightedFeatures(_indices: number[]): void {
+        // 子类可以重写此方法
+    }
+    
+    /**
+     * 通知图层数据已变化（增删要素后调用），地图会取消该图层中要素的选择
+     */
+    protected notifyDataChange(): void {
+        this.emit('datachange', { layer: this });
+    }
+    
+    /**
+     * 请求重绘（图层数据或样式变化时调用）
+     */
+    protected requestRender(): void {
+        this.engine.requestRender();
+    }
+    
     /**
      * 释放图层资源
      */
@@ -48,6 +159,7 @@ export abstract class Layer {
      */
     public setVisible(visible: boolean): void {
         this.visible = visible;
+        this.requestRender();
     }
     
     /**
@@ -62,6 +174,7 @@ export abstract class Layer {
      */
     public setOpacity(opacity: number): void {
         this.opacity = Math.max(0, Math.min(1, opacity));
+        this.requestRender();
     }
     
     /**
@@ -76,6 +189,7 @@ export abstract class Layer {
      */
     public setZIndex(zIndex: number): void {
         this.zIndex = zIndex;
+        this.requestRender();
     }
     
     /**
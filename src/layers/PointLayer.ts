@@ -1,6 +1,16 @@
-import { Layer } from './Layer';
+import { Layer, RenderedFeature, ScreenProjector } from './Layer';
 import { Engine } from '../core/Engine';
 import { Camera } from '../core/Camera';
+import { ALPHA_BLEND } from '../core/PipelineCache';
+import {
+    BackendBuffer,
+    BackendPipeline,
+    BackendPipelineDescriptor,
+    BackendBindings,
+    BackendRenderPass
+} from '../backends/RenderBackend';
+import { PointShaders } from '../shaders/PointShaders';
+import { Projection } from '../projections/Projection';
 import { mat4 } from 'gl-matrix';
 
 /**
@@ -16,23 +26,91 @@ export interface PointData {
     data?: any; // 自定义数据
 }
 
+// 高亮点的颜色和放大倍数
+const HIGHLIGHT_COLOR: [number, number, number, number] = [1.0, 0.85, 0.0, 1.0];
+const HIGHLIGHT_SCALE = 1.6;
+
+/**
+ * 判断点是否在多边形内（射线法，多边形自动闭合）
+ */
+function isPointInPolygon(x: number, y: number, polygon: Array<[number, number]>): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const [xi, yi] = polygon[i];
+        const [xj, yj] = polygon[j];
+        if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+/**
+ * 点图层渲染管线描述，所有点图层共享
+ */
+const POINT_PIPELINE: BackendPipelineDescriptor = {
+    label: "Point Layer Pipeline",
+    wgsl: PointShaders.getShader(),
+    logDepthWgsl: PointShaders.getShader(true),
+    glsl: PointShaders.getGLSLShader(),
+    bindings: [
+        { binding: 0, type: 'uniform', visibility: 'vertex-fragment', name: 'Uniforms' }
+    ],
+    vertexBuffers: [{
+        arrayStride: 32, // 3 * float32 (position) + 4 * float32 (color) + 1 * float32 (size)
+        stepMode: "instance",
+        attributes: [
+            {
+                shaderLocation: 0, // position
+                offset: 0,
+                format: "float32x3"
+            },
+            {
+                shaderLocation: 1, // color
+                offset: 12,
+                format: "float32x4"
+            },
+            {
+                shaderLocation: 2, // size
+                offset: 28,
+                format: "float32"
+            }
+        ]
+    }],
+    primitive: {
+        topology: "triangle-list"
+    },
+    blend: ALPHA_BLEND,
+    depthWriteEnabled: false,
+    depthCompare: "less-equal"
+};
+
 /**
  * 点图层
  * 用于在地球上显示点状数据
  */
 export class PointLayer extends Layer {
     private points: PointData[] = [];
-    private vertexBuffer: GPUBuffer | null = null;
-    private indexBuffer: GPUBuffer | null = null;
-    private uniformBuffer: GPUBuffer | null = null;
-    private pipeline: GPURenderPipeline | null = null;
-    private bindGroup: GPUBindGroup | null = null;
+    private vertexBuffer: BackendBuffer | null = null;
+    private indexBuffer: BackendBuffer | null = null;
+    private uniformBuffer: BackendBuffer | null = null;
+    private pipeline: BackendPipeline | null = null;
+    private bindings: BackendBindings | null = null;
     private vertexCount: number = 0;
     
+    // 点数据或默认样式变化后需要重建顶点缓冲区
+    private geometryDirty: boolean = true;
+    
+    // 当前顶点缓冲区对应的投影，投影变化后同样需要重建
+    private geometryProjection: Projection | null = null;
+    
     // 默认样式
     private defaultColor: [number, number, number, number] = [1.0, 0.0, 0.0, 1.0]; // 红色
     private defaultSize: number = 5.0;
     
+    // 高亮的点序号
+    private highlighted: Set<number> = new Set();
+    
     constructor(id: string, name: string, engine: Engine, camera: Camera) {
         super(id, name, engine, camera);
     }
@@ -42,6 +120,8 @@ export class PointLayer extends Layer {
      */
     public addPoint(point: PointData): void {
         this.points.push(point);
+        this.markGeometryDirty();
+        this.notifyDataChange();
     }
     
     /**
@@ -49,6 +129,8 @@ export class PointLayer extends Layer {
      */
     public addPoints(points: PointData[]): void {
         this.points.push(...points);
+        this.markGeometryDirty();
+        this.notifyDataChange();
     }
     
     /**
@@ -56,6 +138,9 @@ export class PointLayer extends Layer {
      */
     public clearPoints(): void {
         this.points = [];
+        this.highlighted.clear();
+        this.markGeometryDirty();
+        this.notifyDataChange();
     }
     
     /**
@@ -65,11 +150,79 @@ export class PointLayer extends Layer {
         return [...this.points];
     }
     
+    /**
+     * 获取所有点的经纬度
+     */
+    public getCoordinates(): Array<[number, number]> {
+        return this.points.map(point => [point.longitude, point.latitude]);
+    }
+    
+    /**
+     * 查询画布上某点处的点要素
+     * 点绘制为直径等于size（CSS像素）的圆，被地球遮挡的点不会被拾取
+     */
+    public queryRenderedFeatures(point: [number, number], project: ScreenProjector): RenderedFeature[] {
+        if (!this.visible) {
+            return [];
+        }
+        
+        const hits: Array<{ feature: RenderedFeature; distance: number }> = [];
+        this.points.forEach((item, index) => {
+            const screen = project(item.longitude, item.latitude, item.altitude || 0);
+            if (screen.occluded) return;
+            
+            const distance = Math.hypot(screen.x - point[0], screen.y - point[1]);
+            if (distance <= this.getPointSize(item, index) / 2) {
+                hits.push({
+                    feature: { layerId: this.id, index, label: item.label, data: item.data },
+                    distance
+                });
+            }
+        });
+        
+        return hits.sort((a, b) => a.distance - b.distance).map(hit => hit.feature);
+    }
+    
+    /**
+     * 查询画布上多边形区域内的点要素（按点的中心判断）
+     */
+    public queryFeaturesInPolygon(polygon: Array<[number, number]>, project: ScreenProjector): RenderedFeature[] {
+        if (!this.visible || polygon.length < 3) {
+            return [];
+        }
+        
+        const features: RenderedFeature[] = [];
+        this.points.forEach((item, index) => {
+            const screen = project(item.longitude, item.latitude, item.altitude || 0);
+            if (!screen.occluded && isPointInPolygon(screen.x, screen.y, polygon)) {
+                features.push({ layerId: this.id, index, label: item.label, data: item.data });
+            }
+        });
+        return features;
+    }
+    
+    /**
+     * 高亮显示指定序号的点（以高亮颜色放大绘制）
+     */
+    public setHighlightedFeatures(indices: number[]): void {
+        this.highlighted = new Set(indices);
+        this.markGeometryDirty();
+    }
+    
+    /**
+     * 获取点的绘制大小（像素），高亮的点会放大
+     */
+    private getPointSize(point: PointData, index: number): number {
+        const size = point.size || this.defaultSize;
+        return this.highlighted.has(index) ? size * HIGHLIGHT_SCALE : size;
+    }
+    
     /**
      * 设置默认颜色
      */
     public setDefaultColor(r: number, g: number, b: number, a: number = 1.0): void {
         this.defaultColor = [r, g, b, a];
+        this.markGeometryDirty();
     }
     
     /**
@@ -77,222 +230,88 @@ export class PointLayer extends Layer {
      */
     public setDefaultSize(size: number): void {
         this.defaultSize = size;
+        this.markGeometryDirty();
+    }
+    
+    /**
+     * 标记几何体需要更新并请求重绘
+     */
+    private markGeometryDirty(): void {
+        this.geometryDirty = true;
+        this.requestRender();
     }
     
     /**
      * 初始化点图层
      */
     public async initialize(): Promise<boolean> {
-        const device = this.engine.getDevice();
-        if (!device) {
-            console.error("无法获取GPU设备");
+        const backend = this.engine.getBackend();
+        if (!backend) {
+            console.error("无法获取渲染后端");
             return false;
         }
         
-        // 创建着色器
-        await this.createShaders(device);
+        // 所有点图层共享同一个管线
+        this.pipeline = backend.createPipeline(POINT_PIPELINE);
         
-        // 创建统一缓冲区
-        this.uniformBuffer = device.createBuffer({
+        // 创建统一缓冲区（绑定组创建前必须存在）
+        this.uniformBuffer = backend.createBuffer({
             label: "Point Layer Uniform Buffer",
-            size: 64 * 3 + 16, // 3个mat4 + 其他参数
-            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-        });
-        
-        return true;
-    }
-    
-    /**
-     * 创建着色器和渲染管线
-     */
-    private async createShaders(device: GPUDevice): Promise<void> {
-        const shaderModule = device.createShaderModule({
-            label: "Point Layer Shaders",
-            code: `
-                struct Uniforms {
-                    modelMatrix: mat4x4<f32>,
-                    viewMatrix: mat4x4<f32>,
-                    projectionMatrix: mat4x4<f32>,
-                    pointSize: f32,
-                    opacity: f32,
-                    _padding: vec2<f32>,
-                };
-                
-                @group(0) @binding(0) var<uniform> uniforms: Uniforms;
-                
-                struct VertexInput {
-                    @location(0) position: vec3<f32>,
-                    @location(1) color: vec4<f32>,
-                    @location(2) size: f32,
-                };
-                
-                struct VertexOutput {
-                    @builtin(position) position: vec4<f32>,
-                    @location(0) color: vec4<f32>,
-                    @builtin(point_size) size: f32,
-                };
-                
-                @vertex
-                fn vertexMain(input: VertexInput) -> VertexOutput {
-                    var output: VertexOutput;
-                    
-                    var worldPosition = uniforms.modelMatrix * vec4<f32>(input.position, 1.0);
-                    output.position = uniforms.projectionMatrix * uniforms.viewMatrix * worldPosition;
-                    output.color = input.color;
-                    output.size = input.size * uniforms.pointSize;
-                    
-                    return output;
-                }
-                
-                @fragment
-                fn fragmentMain(input: VertexOutput) -> @location(0) vec4<f32> {
-                    // 创建圆形点
-                    let center = vec2<f32>(0.5, 0.5);
-                    let dist = distance(input.position.xy, center);
-                    
-                    if (dist > 0.5) {
-                        discard;
-                    }
-                    
-                    // 边缘柔化
-                    let alpha = 1.0 - smoothstep(0.4, 0.5, dist);
-                    
-                    var finalColor = input.color;
-                    finalColor.a *= alpha * uniforms.opacity;
-                    
-                    return finalColor;
-                }
-            `
-        });
-        
-        // 创建绑定组布局
-        const bindGroupLayout = device.createBindGroupLayout({
-            label: "Point Layer Bind Group Layout",
-            entries: [{
-                binding: 0,
-                visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT,
-                buffer: { type: "uniform" }
-            }]
-        });
-        
-        // 创建管线布局
-        const pipelineLayout = device.createPipelineLayout({
-            label: "Point Layer Pipeline Layout",
-            bindGroupLayouts: [bindGroupLayout]
+            size: 64 * 3 + 32, // 3个mat4 + 其他参数
+            usage: 'uniform',
         });
         
         // 创建绑定组
-        this.bindGroup = device.createBindGroup({
+        this.bindings = backend.createBindings({
             label: "Point Layer Bind Group",
-            layout: bindGroupLayout,
+            pipeline: this.pipeline,
             entries: [{
                 binding: 0,
-                resource: { buffer: this.uniformBuffer! }
+                buffer: this.uniformBuffer
             }]
         });
         
-        // 创建渲染管线
-        this.pipeline = device.createRenderPipeline({
-            label: "Point Layer Pipeline",
-            layout: pipelineLayout,
-            vertex: {
-                module: shaderModule,
-                entryPoint: "vertexMain",
-                buffers: [{
-                    arrayStride: 32, // 3 * float32 (position) + 4 * float32 (color) + 1 * float32 (size)
-                    attributes: [
-                        {
-                            shaderLocation: 0, // position
-                            offset: 0,
-                            format: "float32x3"
-                        },
-                        {
-                            shaderLocation: 1, // color
-                            offset: 12,
-                            format: "float32x4"
-                        },
-                        {
-                            shaderLocation: 2, // size
-                            offset: 28,
-                            format: "float32"
-                        }
-                    ]
-                }]
-            },
-            fragment: {
-                module: shaderModule,
-                entryPoint: "fragmentMain",
-                targets: [{
-                    format: 'bgra8unorm', // 假设的格式，实际应该从上下文获取
-                    blend: {
-                        color: {
-                            srcFactor: "src-alpha",
-                            dstFactor: "one-minus-src-alpha",
-                            operation: "add"
-                        },
-                        alpha: {
-                            srcFactor: "one",
-                            dstFactor: "one-minus-src-alpha",
-                            operation: "add"
-                        }
-                    }
-                }]
-            },
-            primitive: {
-                topology: "point-list"
-            },
-            depthStencil: {
-                depthWriteEnabled: false,
-                depthCompare: "less-equal",
-                format: "depth24plus"
-            }
-        });
+        return true;
     }
     
     /**
      * 更新几何体数据
      */
     private updateGeometry(): void {
-        const device = this.engine.getDevice();
-        if (!device || this.points.length === 0) return;
+        const backend = this.engine.getBackend();
+        const projection = this.camera.getProjection();
+        if (!backend || this.points.length === 0) return;
+        if (!this.geometryDirty && projection === this.geometryProjection) return;
+        this.geometryDirty = false;
+        this.geometryProjection = projection;
         
         // 准备顶点数据
         const vertices: number[] = [];
         
-        for (const point of this.points) {
-            // 将经纬度转换为3D坐标
-            const lon = point.longitude * Math.PI / 180;
-            const lat = point.latitude * Math.PI / 180;
-            const radius = 1.0 + (point.altitude || 0) * 0.001; // 高度缩放
-            
-            const x = radius * Math.cos(lat) * Math.cos(lon);
-            const y = radius * Math.sin(lat);
-            const z = radius * Math.cos(lat) * Math.sin(lon);
-            
-            // 位置
-            vertices.push(x, y, z);
+        this.points.forEach((point, index) => {
+            // 位置（按当前投影将经纬度转换为3D坐标）
+            vertices.push(...projection.project(point.longitude, point.latitude, point.altitude || 0));
             
             // 颜色
-            const color = point.color || this.defaultColor;
+            const color = this.highlighted.has(index) ? HIGHLIGHT_COLOR : point.color || this.defaultColor;
             vertices.push(color[0], color[1], color[2], color[3]);
             
             // 大小
-            const size = point.size || this.defaultSize;
-            vertices.push(size);
-        }
+            vertices.push(this.getPointSize(point, index));
+        });
         
         // 创建或更新顶点缓冲区
         if (this.vertexBuffer) {
             this.vertexBuffer.destroy();
         }
         
-        this.vertexBuffer = device.createBuffer({
+        this.vertexBuffer = backend.createBuffer({
             label: "Point Layer Vertices",
             size: vertices.length * 4,
-            usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
+            usage: 'vertex',
         });
         
-        device.queue.writeBuffer(this.vertexBuffer, 0, new Float32Array(vertices));
+        backend.writeBuffer(this.vertexBuffer, new Float32Array(vertices));
         this.vertexCount = this.points.length;
     }
     
@@ -300,8 +319,8 @@ export class PointLayer extends Layer {
      * 更新统一变量
      */
     private updateUniforms(): void {
-        const device = this.engine.getDevice();
-        if (!device || !this.uniformBuffer) return;
+        const backend = this.engine.getBackend();
+        if (!backend || !this.uniformBuffer) return;
         
         // 创建模型矩阵
         const modelMatrix = mat4.create();
@@ -312,29 +331,31 @@ export class PointLayer extends Layer {
         const projectionMatrix = this.camera.getProjectionMatrix();
         
         // 创建统一数据
-        const uniformData = new Float32Array(48 + 4); // 3*16 + 4
+        const uniformData = new Float32Array(48 + 8); // 3*16 + 8
         uniformData.set(modelMatrix as Float32Array, 0);
         uniformData.set(viewMatrix as Float32Array, 16);
         uniformData.set(projectionMatrix as Float32Array, 32);
         
         // 其他参数
-        uniformData[48] = this.defaultSize; // pointSize
-        uniformData[49] = this.opacity;     // opacity
-        uniformData[50] = 0.0;              // padding
-        uniformData[51] = 0.0;              // padding
+        const [viewportWidth, viewportHeight] = this.engine.getViewportSize();
+        uniformData[48] = viewportWidth;                   // viewportSize.x
+        uniformData[49] = viewportHeight;                  // viewportSize.y
+        uniformData[50] = window.devicePixelRatio || 1;    // pointScale
+        uniformData[51] = this.opacity;                    // opacity
+        uniformData[52] = this.camera.getLogDepthFactor(); // logDepthFactor
         
-        device.queue.writeBuffer(this.uniformBuffer, 0, uniformData);
+        backend.writeBuffer(this.uniformBuffer, uniformData);
     }
     
     /**
      * 渲染点图层
      */
-    public render(renderPass: GPURenderPassEncoder): void {
-        if (!this.visible || this.points.length === 0 || !this.pipeline || !this.bindGroup) {
+    public render(renderPass: BackendRenderPass): void {
+        if (!this.visible || this.points.length === 0 || !this.pipeline || !this.bindings) {
             return;
         }
         
-        // 更新几何体（如果需要）
+        // 更新几何体（仅在数据变化后）
         this.updateGeometry();
         
         // 更新统一变量
@@ -344,17 +365,35 @@ export class PointLayer extends Layer {
         
         // 设置渲染管线和资源
         renderPass.setPipeline(this.pipeline);
-        renderPass.setBindGroup(0, this.bindGroup);
+        renderPass.setBindings(this.bindings);
         renderPass.setVertexBuffer(0, this.vertexBuffer);
         
-        // 绘制点
-        renderPass.draw(this.vertexCount);
+        // 绘制点（每个点6个顶点组成的四边形）
+        renderPass.draw(6, this.vertexCount);
+        this.engine.getStats().recordDraw(6, this.vertexCount);
+    }
+    
+    /**
+     * 设备丢失后重建GPU资源，点数据保留在CPU端
+     */
+    public async restore(): Promise<boolean> {
+        this.releaseBuffers();
+        this.geometryDirty = true;
+        return this.initialize();
     }
     
     /**
      * 释放资源
      */
     public destroy(): void {
+        this.releaseBuffers();
+        this.points = [];
+    }
+    
+    /**
+     * 释放GPU缓冲区和绑定组
+     */
+    private releaseBuffers(): void {
         if (this.vertexBuffer) {
             this.vertexBuffer.destroy();
             this.vertexBuffer = null;
@@ -371,8 +410,7 @@ export class PointLayer extends Layer {
         }
         
         this.pipeline = null;
-        this.bindGroup = null;
-        this.points = [];
+        this.bindings = null;
         this.vertexCount = 0;
     }
 }
\ No newline at end of file
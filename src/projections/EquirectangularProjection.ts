@@ -0,0 +1,17 @@
+import { FlatProjection } from './FlatProjection';
+
+/**
+ * 等距圆柱投影（经纬度直接作为平面坐标）
+ */
+export class EquirectangularProjection extends FlatProjection {
+    public readonly name = 'equirectangular' as const;
+    protected readonly maxY = Math.PI / 2;
+    
+    protected projectY(latitude: number): number {
+        return latitude;
+    }
+    
+    protected unprojectY(y: number): number {
+        return y;
+    }
+}
@@ -0,0 +1,126 @@
+import { vec3 } from 'gl-matrix';
+import { Projection, SurfaceFrame, ALTITUDE_SCALE } from './Projection';
+import { GlobeProjection } from './GlobeProjection';
+
+const globe = new GlobeProjection();
+
+/**
+ * 平面投影基类
+ * 地图平面与球面在参考点处相切，参考点附近的位置在球面和平面之间变形时基本不动；
+ * 平面坐标X为经度（弧度），Y由子类根据纬度计算
+ */
+export abstract class FlatProjection extends Projection {
+    /**
+     * 地图范围内Y坐标的最大绝对值
+     */
+    protected abstract readonly maxY: number;
+    
+    // 参考点[经度, 纬度]及其在球面上的位置和局部坐标系
+    private reference: [number, number];
+    private origin: vec3;
+    private frame: SurfaceFrame;
+    
+    /**
+     * @param reference 平面与球面的切点[经度, 纬度]
+     */
+    constructor(reference: [number, number] = [0, 0]) {
+        super();
+        this.reference = [reference[0], reference[1]];
+        this.origin = vec3.fromValues(...globe.project(reference[0], reference[1]));
+        this.frame = globe.getFrame(reference[0], reference[1]);
+    }
+    
+    /**
+     * 根据纬度（弧度）计算平面Y坐标
+     */
+    protected abstract projectY(latitude: number): number;
+    
+    /**
+     * 根据平面Y坐标计算纬度（弧度）
+     */
+    protected abstract unprojectY(y: number): number;
+    
+    /**
+     * 获取平面与球面的切点[经度, 纬度]
+     */
+    public getReference(): [number, number] {
+        return [this.reference[0], this.reference[1]];
+    }
+    
+    public project(longitude: number, latitude: number, altitude: number = 0): [number, number, number] {
+        const [x, y] = this.toPlane(longitude, latitude);
+        const [refX, refY] = this.toPlane(this.reference[0], this.reference[1]);
+        
+        const point = vec3.clone(this.origin);
+        vec3.scaleAndAdd(point, point, this.frame.east, x - refX);
+        vec3.scaleAndAdd(point, point, this.frame.north, y - refY);
+        vec3.scaleAndAdd(point, point, this.frame.normal, altitude * ALTITUDE_SCALE);
+        return [point[0], point[1], point[2]];
+    }
+    
+    public unproject(x: number, y: number, z: number): [number, number] {
+        const [planeX, planeY] = this.getPlaneCoordinates(vec3.fromValues(x, y, z));
+        
+        // 地图范围以外的位置限制到边缘
+        const longitude = Math.max(-Math.PI, Math.min(Math.PI, planeX)) * 180 / Math.PI;
+        const latitude = this.unprojectY(Math.max(-this.maxY, Math.min(this.maxY, planeY))) * 180 / Math.PI;
+        return [longitude, latitude];
+    }
+    
+    public getFrame(_longitude: number, _latitude: number): SurfaceFrame {
+        return {
+            normal: vec3.clone(this.frame.normal),
+            east: vec3.clone(this.frame.east),
+            north: vec3.clone(this.frame.north)
+        };
+    }
+    
+    public intersectRay(origin: vec3, direction: vec3): vec3 | null {
+        // 只与地图平面的正面相交
+        const denominator = vec3.dot(direction, this.frame.normal);
+        if (denominator >= 0) {
+            return null;
+        }
+        
+        const t = vec3.dot(vec3.subtract(vec3.create(), this.origin, origin), this.frame.normal) / denominator;
+        if (t < 0) {
+            return null;
+        }
+        
+        const point = vec3.scaleAndAdd(vec3.create(), origin, direction, t);
+        const [planeX, planeY] = this.getPlaneCoordinates(point);
+        if (Math.abs(planeX) > Math.PI || Math.abs(planeY) > this.maxY) {
+            return null;
+        }
+        
+        return point;
+    }
+    
+    public getSurfaceDistance(point: vec3): number {
+        return vec3.dot(vec3.subtract(vec3.create(), point, this.origin), this.frame.normal);
+    }
+    
+    public getBoundingSphere(): { center: vec3; radius: number } {
+        const center = vec3.fromValues(...this.project(0, 0));
+        return { center, radius: Math.hypot(Math.PI, this.maxY) };
+    }
+    
+    /**
+     * 计算经纬度的平面坐标
+     */
+    private toPlane(longitude: number, latitude: number): [number, number] {
+        return [longitude * Math.PI / 180, this.projectY(latitude * Math.PI / 180)];
+    }
+    
+    /**
+     * 计算三维位置投影到地图平面后的平面坐标
+     */
+    private getPlaneCoordinates(point: vec3): [number, number] {
+        const [refX, refY] = this.toPlane(this.reference[0], this.reference[1]);
+        const offset = vec3.subtract(vec3.create(), point, this.origin);
+        return [
+            refX + vec3.dot(offset, this.frame.east),
+            refY + vec3.dot(offset, this.frame.north)
+        ];
+    }
+}
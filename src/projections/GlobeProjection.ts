@@ -0,0 +1,74 @@
+import { vec3 } from 'gl-matrix';
+import { Projection, SurfaceFrame, ALTITUDE_SCALE } from './Projection';
+
+/**
+ * 球面投影
+ * 地球为以原点为中心的单位球，北极指向+Y，经度0指向+X，东经90度指向-Z
+ */
+export class GlobeProjection extends Projection {
+    public readonly name = 'globe' as const;
+    
+    public project(longitude: number, latitude: number, altitude: number = 0): [number, number, number] {
+        const lon = longitude * Math.PI / 180;
+        const lat = latitude * Math.PI / 180;
+        const r = 1 + altitude * ALTITUDE_SCALE;
+        
+        return [
+            r * Math.cos(lat) * Math.cos(lon),
+            r * Math.sin(lat),
+            -r * Math.cos(lat) * Math.sin(lon)
+        ];
+    }
+    
+    public unproject(x: number, y: number, z: number): [number, number] {
+        const radius = Math.sqrt(x * x + y * y + z * z);
+        if (radius === 0) {
+            return [0, 0];
+        }
+        
+        const longitude = Math.atan2(-z, x) * 180 / Math.PI;
+        const latitude = Math.asin(Math.max(-1, Math.min(1, y / radius))) * 180 / Math.PI;
+        return [longitude, latitude];
+    }
+    
+    public getFrame(longitude: number, latitude: number): SurfaceFrame {
+        const lon = longitude * Math.PI / 180;
+        const lat = latitude * Math.PI / 180;
+        const sinLon = Math.sin(lon);
+        const cosLon = Math.cos(lon);
+        const sinLat = Math.sin(lat);
+        const cosLat = Math.cos(lat);
+        
+        return {
+            normal: vec3.fromValues(cosLat * cosLon, sinLat, -cosLat * sinLon),
+            east: vec3.fromValues(-sinLon, 0, -cosLon),
+            north: vec3.fromValues(-sinLat * cosLon, cosLat, sinLat * sinLon)
+        };
+    }
+    
+    public intersectRay(origin: vec3, direction: vec3): vec3 | null {
+        // 求解 |origin + t * direction| = 1 的较小正根
+        const b = vec3.dot(origin, direction);
+        const c = vec3.dot(origin, origin) - 1;
+        const discriminant = b * b - c;
+        if (discriminant < 0) {
+            return null;
+        }
+        
+        const sqrt = Math.sqrt(discriminant);
+        const t = -b - sqrt >= 0 ? -b - sqrt : -b + sqrt;
+        if (t < 0) {
+            return null;
+        }
+        
+        return vec3.scaleAndAdd(vec3.create(), origin, direction, t);
+    }
+    
+    public getSurfaceDistance(point: vec3): number {
+        return vec3.length(point) - 1;
+    }
+    
+    public getBoundingSphere(): { center: vec3; radius: number } {
+        return { center: vec3.create(), radius: 1 };
+    }
+}
@@ -0,0 +1,22 @@
+import { FlatProjection } from './FlatProjection';
+
+// 墨卡托投影的纬度范围（度），此时地图为正方形
+const MAX_MERCATOR_LATITUDE = 85.051129;
+
+/**
+ * 墨卡托投影
+ */
+export class MercatorProjection extends FlatProjection {
+    public readonly name = 'mercator' as const;
+    protected readonly maxY = Math.PI;
+    
+    protected projectY(latitude: number): number {
+        const limit = MAX_MERCATOR_LATITUDE * Math.PI / 180;
+        const lat = Math.max(-limit, Math.min(limit, latitude));
+        return Math.log(Math.tan(Math.PI / 4 + lat / 2));
+    }
+    
+    protected unprojectY(y: number): number {
+        return 2 * Math.atan(Math.exp(y)) - Math.PI / 2;
+    }
+}
@@ -0,0 +1,93 @@
+import { vec3 } from 'gl-matrix';
+import { Projection, ProjectionName, SurfaceFrame } from './Projection';
+
+/**
+ * 过渡投影
+ * 在两个投影之间按进度线性插值位置，用于投影切换动画；
+ * 反投影和拾取使用更接近当前形状的一方
+ */
+export class MorphProjection extends Projection {
+    public readonly name: ProjectionName;
+    
+    private from: Projection;
+    private to: Projection;
+    private t: number;
+    
+    /**
+     * @param from 起始投影
+     * @param to 目标投影
+     * @param t 进度（0为起始投影，1为目标投影）
+     */
+    constructor(from: Projection, to: Projection, t: number) {
+        super();
+        this.from = from;
+        this.to = to;
+        this.t = Math.max(0, Math.min(1, t));
+        this.name = to.name;
+    }
+    
+    public project(longitude: number, latitude: number, altitude: number = 0): [number, number, number] {
+        const a = this.from.project(longitude, latitude, altitude);
+        const b = this.to.project(longitude, latitude, altitude);
+        const t = this.t;
+        return [
+            a[0] + (b[0] - a[0]) * t,
+            a[1] + (b[1] - a[1]) * t,
+            a[2] + (b[2] - a[2]) * t
+        ];
+    }
+    
+    public unproject(x: number, y: number, z: number): [number, number] {
+        return this.getNearest().unproject(x, y, z);
+    }
+    
+    public getFrame(longitude: number, latitude: number): SurfaceFrame {
+        const a = this.from.getFrame(longitude, latitude);
+        const b = this.to.getFrame(longitude, latitude);
+        
+        // 插值法线和东方向后重新正交化
+        const normal = vec3.lerp(vec3.create(), a.normal, b.normal, this.t);
+        if (vec3.length(normal) < 1e-6) {
+            return this.getNearest().getFrame(longitude, latitude);
+        }
+        vec3.normalize(normal, normal);
+        
+        const east = vec3.lerp(vec3.create(), a.east, b.east, this.t);
+        vec3.scaleAndAdd(east, east, normal, -vec3.dot(east, normal));
+        if (vec3.length(east) < 1e-6) {
+            return this.getNearest().getFrame(longitude, latitude);
+        }
+        vec3.normalize(east, east);
+        
+        const north = vec3.cross(vec3.create(), normal, east);
+        return { normal, east, north };
+    }
+    
+    public intersectRay(origin: vec3, direction: vec3): vec3 | null {
+        return this.getNearest().intersectRay(origin, direction);
+    }
+    
+    public getSurfaceDistance(point: vec3): number {
+        return Math.min(this.from.getSurfaceDistance(point), this.to.getSurfaceDistance(point));
+    }
+    
+    public getBoundingSphere(): { center: vec3; radius: number } {
+        const a = this.from.getBoundingSphere();
+        const b = this.to.getBoundingSphere();
+        const center = vec3.lerp(vec3.create(), a.center, b.center, this.t);
+        
+        // 插值后的地表位于两个包围球中心连线附近，取能同时包含两者的半径
+        const radius = Math.max(
+            vec3.distance(center, a.center) + a.radius,
+            vec3.distance(center, b.center) + b.radius
+        );
+        return { center, radius };
+    }
+    
+    /**
+     * 获取更接近当前形状的投影
+     */
+    private getNearest(): Projection {
+        return this.t < 0.5 ? this.from : this.to;
+    }
+}
@@ -0,0 +1,66 @@
+import { vec3 } from 'gl-matrix';
+
+/**
+ * 投影名称
+ */
+export type ProjectionName = 'globe' | 'mercator' | 'equirectangular';
+
+/**
+ * 地表某点的局部坐标系（均为单位向量）
+ */
+export interface SurfaceFrame {
+    normal: vec3; // 地表法线（向上）
+    east: vec3;   // 向东
+    north: vec3;  // 向北
+}
+
+/**
+ * 高度缩放：高度每增加1个单位，离地表的距离增加0.001（地球半径为1）
+ */
+export const ALTITUDE_SCALE = 0.001;
+
+/**
+ * 投影基类
+ * 把经纬度转换为场景中的三维位置，地球渲染器、图层和相机控制器都通过当前投影计算位置
+ */
+export abstract class Projection {
+    /**
+     * 投影名称
+     */
+    public abstract readonly name: ProjectionName;
+    
+    /**
+     * 将经纬度转换为三维位置
+     * @param longitude 经度（度）
+     * @param latitude 纬度（度）
+     * @param altitude 高度
+     */
+    public abstract project(longitude: number, latitude: number, altitude?: number): [number, number, number];
+    
+    /**
+     * 将三维位置转换为经纬度[经度, 纬度]（忽略高度）
+     */
+    public abstract unproject(x: number, y: number, z: number): [number, number];
+    
+    /**
+     * 获取地表某点的局部坐标系
+     */
+    public abstract getFrame(longitude: number, latitude: number): SurfaceFrame;
+    
+    /**
+     * 计算视线与地表的交点，没有交点时返回null
+     * @param origin 视线起点
+     * @param direction 视线方向（单位向量）
+     */
+    public abstract intersectRay(origin: vec3, direction: vec3): vec3 | null;
+    
+    /**
+     * 计算点到地表的距离（地表以下为负）
+     */
+    public abstract getSurfaceDistance(point: vec3): number;
+    
+    /**
+     * 获取地表的包围球，用于计算相机远平面
+     */
+    public abstract getBoundingSphere(): { center: vec3; radius: number };
+}
@@ -0,0 +1,415 @@
+import { Engine } from '../core/Engine';
+import { LayerManager } from '../core/LayerManager';
+import { GlobeRenderer } from './GlobeRenderer';
+import { RenderGraph } from './RenderGraph';
+import { PostEffect } from '../effects/PostEffect';
+import { CopyEffect } from '../effects/CopyEffect';
+import { WebGPURenderPass } from '../backends/WebGPUBackend';
+import { WebGL2Backend } from '../backends/WebGL2Backend';
+
+/**
+ * 帧合成器
+ * 负责创建每一帧的命令编码器和渲染图：场景（地球 + 所有可见图层）
+ * 先绘制到离屏HDR颜色和深度目标，再依次经过后处理效果链，最后呈现到画布
+ * 启用多重采样时，场景绘制到多重采样附件并解析到HDR颜色目标
+ * WebGL2后端没有渲染图，场景直接绘制到画布，后处理效果链被跳过
+ */
+export class FrameComposer {
+    private engine: Engine;
+    private renderer: GlobeRenderer;
+    private layerManager: LayerManager;
+    private onError: (error: Error) => void;
+    
+    // 渲染图（画布渲染和离屏渲染各自独立，互不影响目标尺寸）
+    private graph: RenderGraph | null = null;
+    private offscreenGraph: RenderGraph | null = null;
+    
+    // 后处理效果链（按执行顺序）
+    private effects: PostEffect[] = [];
+    private presentEffect: CopyEffect = new CopyEffect('present');
+    private offscreenEffect: CopyEffect = new CopyEffect('offscreen');
+    private startTime: number = performance.now();
+    
+    // 背景颜色
+    private clearColor: [number, number, number, number] = [0.0, 0.0, 0.0, 1.0];
+    
+    // WebGL2后端跳过后处理效果时只提示一次
+    private effectsSkippedWarned: boolean = false;
+    
+    /**
+     * @param onError 后处理效果初始化失败时调用
+     */
+    constructor(engine: Engine, renderer: GlobeRenderer, layerManager: LayerManager, onError: (error: Error) => void) {
+        this.engine = engine;
+        this.renderer = renderer;
+        this.layerManager = layerManager;
+        this.onError = onError;
+    }
+    
+    /**
+     * 设置背景清除颜色
+     */
+    public setClearColor(color: [number, number, number, number]): void {
+        this.clearColor = [...color];
+    }
+    
+    /**
+     * 获取背景清除颜色
+     */
+    public getClearColor(): [number, number, number, number] {
+        return [...this.clearColor];
+    }
+    
+    /**
+     * 添加后处理效果
+     * @param effect 效果实例
+     * @param index 插入位置，默认追加到效果链末尾
+     */
+    public addEffect(effect: PostEffect, index?: number): boolean {
+        if (this.getEffect(effect.getId())) {
+            console.warn(`后处理效果 ${effect.getId()} 已存在`);
+            return false;
+        }
+        
+        if (index === undefined || index < 0 || index >= this.effects.length) {
+            this.effects.push(effect);
+        } else {
+            this.effects.splice(index, 0, effect);
+        }
+        this.engine.requestRender();
+        return true;
+    }
+    
+    /**
+     * 移除后处理效果
+     */
+    public removeEffect(id: string): boolean {
+        const index = this.effects.findIndex(effect => effect.getId() === id);
+        if (index === -1) {
+            console.warn(`后处理效果 ${id} 不存在`);
+            return false;
+        }
+        
+        const [effect] = this.effects.splice(index, 1);
+        for (const graph of [this.graph, this.offscreenGraph]) {
+            if (graph) {
+                effect.releaseTargets(graph);
+            }
+        }
+        effect.destroy();
+        this.engine.requestRender();
+        return true;
+    }
+    
+    /**
+     * 获取后处理效果
+     */
+    public getEffect(id: string): PostEffect | undefined {
+        return this.effects.find(effect => effect.getId() === id);
+    }
+    
+    /**
+     * 获取所有后处理效果（按执行顺序）
+     */
+    public getEffects(): PostEffect[] {
+        return [...this.effects];
+    }
+    
+    /**
+     * 准备渲染图的场景目标
+     */
+    private prepareGraph(graph: RenderGraph, width: number, height: number): void {
+        const sampleCount = this.engine.getSampleCount();
+        
+        graph.reset();
+        graph.setSize(width, height);
+        graph.createTarget('sceneColor', { format: this.engine.getColorFormat() });
+        graph.createTarget('sceneDepth', {
+            format: this.engine.getDepthFormat(),
+            usage: GPUTextureUsage.RENDER_ATTACHMENT,
+            sampleCount
+        });
+        
+        // 多重采样颜色附件，渲染结束后解析到sceneColor
+        if (sampleCount > 1) {
+            graph.createTarget('sceneColorMSAA', {
+                format: this.engine.getColorFormat(),
+                usage: GPUTextureUsage.RENDER_ATTACHMENT,
+                sampleCount
+            });
+        } else {
+            graph.removeTarget('sceneColorMSAA');
+        }
+    }
+    
+    /**
+     * 渲染一帧：场景 -> 后处理效果链 -> 画布
+     */
+    public render(): void {
+        if (this.engine.getBackendType() === 'webgl2') {
+            this.renderWebGL2();
+            return;
+        }
+        
+        const device = this.engine.getDevice();
+        const context = this.engine.getContext();
+        const canvas = this.engine.getCanvas();
+        
+        if (!device || !context || !canvas || canvas.width === 0 || canvas.height === 0) {
+            return;
+        }
+        
+        if (!this.graph) {
+            this.graph = new RenderGraph(device, this.engine.getStats());
+        }
+        
+        this.renderFrame(device, this.graph, context.getCurrentTexture(), this.presentEffect, this.clearColor);
+    }
+    
+    /**
+     * WebGL2后端：地球和图层直接绘制到画布的默认帧缓冲区
+     */
+    private renderWebGL2(): void {
+        const backend = this.engine.getBackend();
+        const canvas = this.engine.getCanvas();
+        
+        if (!(backend instanceof WebGL2Backend) || !canvas || canvas.width === 0 || canvas.height === 0) {
+            return;
+        }
+        
+        if (!this.effectsSkippedWarned && this.effects.some(effect => effect.isEnabled())) {
+            console.warn("WebGL2后端不支持后处理效果，效果链已跳过");
+            this.effectsSkippedWarned = true;
+        }
+        
+        const stats = this.engine.getStats();
+        this.engine.setViewportSize(canvas.width, canvas.height);
+        
+        const pass = backend.beginPass({
+            clearColor: this.clearColor,
+            clearDepth: this.engine.getDepthClearValue()
+        });
+        if (!pass) {
+            return;
+        }
+        
+        stats.beginPhase('encode:globe');
+        this.renderer.render(pass);
+        stats.endPhase('encode:globe');
+        
+        this.layerManager.render(pass);
+        
+        pass.end();
+    }
+    
+    /**
+     * 渲染一帧到离屏纹理
+     * 与画布渲染走同一条路径（地球、图层和后处理效果链），但使用独立的渲染图，
+     * 不会影响画布渲染目标的尺寸
+     * @param output 输出纹理，需要RENDER_ATTACHMENT用途
+     * @param clearColor 背景清除颜色，默认使用画布的背景颜色
+     */
+    public renderToTexture(output: GPUTexture, clearColor?: [number, number, number, number]): boolean {
+        const device = this.engine.getDevice();
+        if (!device) {
+            return false;
+        }
+        
+        if (!this.offscreenGraph) {
+            this.offscreenGraph = new RenderGraph(device, this.engine.getStats());
+        }
+        
+        const [viewportWidth, viewportHeight] = this.engine.getViewportSize();
+        
+        this.renderFrame(device, this.offscreenGraph, output, this.offscreenEffect, clearColor ?? this.clearColor);
+        
+        // 恢复画布的视口尺寸
+        this.engine.setViewportSize(viewportWidth, viewportHeight);
+        return true;
+    }
+    
+    /**
+     * 录制并提交一帧的渲染图
+     */
+    private renderFrame(
+        device: GPUDevice,
+        graph: RenderGraph,
+        output: GPUTexture,
+        presentEffect: CopyEffect,
+        clearColor: [number, number, number, number]
+    ): void {
+        const stats = this.engine.getStats();
+        
+        this.prepareGraph(graph, output.width, output.height);
+        graph.importTexture('output', output);
+        this.engine.setViewportSize(output.width, output.height);
+        
+        // 场景通道：先绘制地球，再按Z顺序绘制图层
+        graph.addPass({
+            name: 'scene',
+            inputs: [],
+            outputs: ['sceneColor', 'sceneDepth'],
+            execute: (encoder, graph) => {
+                const multisampled = graph.hasResource('sceneColorMSAA');
+                const pass = encoder.beginRenderPass({
+                    label: "Scene Pass",
+                    colorAttachments: [{
+                        view: graph.getView(multisampled ? 'sceneColorMSAA' : 'sceneColor'),
+                        resolveTarget: multisampled ? graph.getView('sceneColor') : undefined,
+                        clearValue: clearColor,
+                        loadOp: 'clear',
+                        storeOp: multisampled ? 'discard' : 'store',
+                    }],
+                    depthStencilAttachment: {
+                        view: graph.getView('sceneDepth'),
+                        depthClearValue: this.engine.getDepthClearValue(),
+                        depthLoadOp: 'clear',
+                        depthStoreOp: 'store',
+                    },
+                    timestampWrites: stats.getTimestampWrites('scene')
+                });
+                const scenePass = new WebGPURenderPass(this.engine, pass);
+                
+                stats.beginPhase('encode:globe');
+                this.renderer.render(scenePass);
+                stats.endPhase('encode:globe');
+                
+                this.layerManager.render(scenePass);
+                
+                scenePass.end();
+            }
+        });
+        
+        // 后处理效果链，在两个离屏目标之间交替读写
+        const colorFormat = this.engine.getColorFormat();
+        const time = (performance.now() - this.startTime) / 1000;
+        let current = 'sceneColor';
+        let pingPong = 0;
+        
+        for (const effect of this.effects) {
+            if (!effect.isEnabled() || !this.ensureEffect(device, effect, colorFormat)) {
+                continue;
+            }
+            
+            const input = current;
+            const output = pingPong % 2 === 0 ? 'postA' : 'postB';
+            graph.createTarget(output, { format: colorFormat });
+            
+            graph.addPass({
+                name: `effect:${effect.getId()}`,
+                inputs: [input],
+                outputs: [output],
+                execute: (encoder, graph) => {
+                    stats.beginPhase(`encode:effect:${effect.getId()}`);
+                    effect.apply({
+                        device,
+                        encoder,
+                        graph,
+                        input: graph.getView(input),
+                        output: graph.getView(output),
+                        width: graph.getWidth(),
+                        height: graph.getHeight(),
+                        time,
+                        stats
+                    });
+                    stats.endPhase(`encode:effect:${effect.getId()}`);
+                }
+            });
+            
+            current = output;
+            pingPong++;
+        }
+        
+        // 呈现通道：把最终结果写入输出纹理
+        if (this.ensureEffect(device, presentEffect, output.format, false)) {
+            const input = current;
+            graph.addPass({
+                name: 'present',
+                inputs: [input],
+                outputs: ['output'],
+                execute: (encoder, graph) => {
+                    presentEffect.apply({
+                        device,
+                        encoder,
+                        graph,
+                        input: graph.getView(input),
+                        output: graph.getView('output'),
+                        width: graph.getWidth(),
+                        height: graph.getHeight(),
+                        time,
+                        stats
+                    });
+                }
+            });
+        }
+        
+        // 创建命令编码器并执行渲染图
+        const encoder = device.createCommandEncoder({ label: "Frame Commands" });
+        graph.execute(encoder);
+        stats.resolveTimestamps(encoder);
+        
+        // 提交命令
+        stats.beginPhase('submit');
+        device.queue.submit([encoder.finish()]);
+        stats.endPhase('submit');
+        stats.readTimestamps();
+    }
+    
+    /**
+     * 确保效果已针对输出格式初始化，返回本帧是否可以使用该效果
+     * 管线在校验通过前不加入效果链，避免无效管线使整帧提交失败；校验失败时禁用效果并报告错误
+     * @param requireValidation 是否等待校验通过，内置的呈现效果无需等待
+     */
+    private ensureEffect(
+        device: GPUDevice,
+        effect: PostEffect,
+        format: GPUTextureFormat,
+        requireValidation: boolean = true
+    ): boolean {
+        if (!effect.isInitializedFor(format)) {
+            effect.initialize(device, format, this.engine.getStats()).then(
+                validated => {
+                    if (validated) {
+                        this.engine.requestRender();
+                    }
+                },
+                error => {
+                    effect.setEnabled(false);
+                    this.onError(error);
+                    this.engine.requestRender();
+                }
+            );
+        }
+        return effect.isInitializedFor(format) && (effect.isValidated() || !requireValidation);
+    }
+    
+    /**
+     * 设备丢失后丢弃所有依赖旧设备的对象
+     * 渲染目标和效果管线会在下一帧按需在新设备上重建，效果链和效果参数保留
+     */
+    public releaseDeviceResources(): void {
+        for (const effect of this.effects) {
+            effect.destroy();
+        }
+        this.presentEffect.destroy();
+        this.offscreenEffect.destroy();
+        
+        if (this.graph) {
+            this.graph.destroy();
+            this.graph = null;
+        }
+        
+        if (this.offscreenGraph) {
+            this.offscreenGraph.destroy();
+            this.offscreenGraph = null;
+        }
+    }
+    
+    /**
+     * 释放合成器资源
+     */
+    public destroy(): void {
+        this.releaseDeviceResources();
+        this.effects = [];
+    }
+}
\ No newline at end of file
@@ -0,0 +1,203 @@
+import { Engine } from '../core/Engine';
+import { Camera } from '../core/Camera';
+import { FrameComposer } from './FrameComposer';
+
+/**
+ * 截图图片格式
+ */
+export type CaptureImageFormat = 'png' | 'jpeg' | 'webp';
+
+/**
+ * 截图选项
+ */
+export interface CaptureImageOptions {
+    /**
+     * 输出宽度（像素，默认: 画布宽度）
+     */
+    width?: number;
+    
+    /**
+     * 输出高度（像素，默认: 画布高度）
+     */
+    height?: number;
+    
+    /**
+     * 图片格式（默认: png）
+     */
+    format?: CaptureImageFormat;
+    
+    /**
+     * jpeg/webp的压缩质量，0到1之间
+     */
+    quality?: number;
+    
+    /**
+     * 是否使用透明背景（默认: false，使用地图背景颜色）
+     */
+    transparentBackground?: boolean;
+}
+
+/**
+ * 截图器
+ * 把一帧渲染到指定尺寸的离屏纹理，再通过映射缓冲区读回像素
+ */
+export class ImageCapture {
+    private engine: Engine;
+    private camera: Camera;
+    private composer: FrameComposer;
+    
+    // 离屏目标格式，读回的字节顺序直接就是RGBA
+    private readonly format: GPUTextureFormat = 'rgba8unorm';
+    
+    constructor(engine: Engine, camera: Camera, composer: FrameComposer) {
+        this.engine = engine;
+        this.camera = camera;
+        this.composer = composer;
+    }
+    
+    /**
+     * 渲染一帧并读回RGBA像素（逐行从上到下，非预乘alpha）
+     */
+    public async capturePixels(options: CaptureImageOptions = {}): Promise<Uint8Array> {
+        if (this.engine.getBackendType() === 'webgl2') {
+            throw new Error('WebGL2后端不支持截图');
+        }
+        
+        const device = this.engine.getDevice();
+        const canvas = this.engine.getCanvas();
+        if (!device || !canvas) {
+            throw new Error('WebGPU引擎未初始化，无法截图');
+        }
+        
+        const width = Math.floor(options.width ?? canvas.width);
+        const height = Math.floor(options.height ?? canvas.height);
+        const maxSize = device.limits.maxTextureDimension2D;
+        if (width < 1 || height < 1 || width > maxSize || height > maxSize) {
+            throw new Error(`截图尺寸无效: ${width}x${height}（最大 ${maxSize}）`);
+        }
+        
+        const texture = device.createTexture({
+            label: "Capture Texture",
+            size: [width, height],
+            format: this.format,
+            usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.COPY_SRC,
+        });
+        
+        // 每行字节数必须按256对齐
+        const bytesPerRow = Math.ceil(width * 4 / 256) * 256;
+        const readBuffer = device.createBuffer({
+            label: "Capture Readback Buffer",
+            size: bytesPerRow * height,
+            usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
+        });
+        const stats = this.engine.getStats();
+        stats.trackTexture(texture);
+        stats.trackBuffer(readBuffer);
+        
+        try {
+            // 按截图宽高比临时调整投影
+            const aspectRatio = this.camera.getAspectRatio();
+            this.camera.setAspectRatio(width / height);
+            
+            const clearColor: [number, number, number, number] = options.transparentBackground
+                ? [0, 0, 0, 0]
+                : this.composer.getClearColor();
+            let rendered: boolean;
+            try {
+                rendered = this.composer.renderToTexture(texture, clearColor);
+            } finally {
+                this.camera.setAspectRatio(aspectRatio);
+            }
+            
+            if (!rendered) {
+                throw new Error('截图渲染失败');
+            }
+            
+            // 复制到可映射缓冲区
+            const encoder = device.createCommandEncoder({ label: "Capture Readback Commands" });
+            encoder.copyTextureToBuffer(
+                { texture },
+                { buffer: readBuffer, bytesPerRow },
+                [width, height]
+            );
+            device.queue.submit([encoder.finish()]);
+            
+            await readBuffer.mapAsync(GPUMapMode.READ);
+            const mapped = new Uint8Array(readBuffer.getMappedRange());
+            
+            // 去掉行对齐填充
+            const pixels = new Uint8Array(width * height * 4);
+            for (let y = 0; y < height; y++) {
+                pixels.set(mapped.subarray(y * bytesPerRow, y * bytesPerRow + width * 4), y * width * 4);
+            }
+            readBuffer.unmap();
+            
+            this.unpremultiplyAlpha(pixels);
+            return pixels;
+        } finally {
+            stats.release(readBuffer);
+            stats.release(texture);
+            readBuffer.destroy();
+            texture.destroy();
+        }
+    }
+    
+    /**
+     * 渲染一帧并编码为图片
+     */
+    public async capture(options: CaptureImageOptions = {}): Promise<Blob> {
+        const pixels = await this.capturePixels(options);
+        const canvas = this.engine.getCanvas()!;
+        const width = Math.floor(options.width ?? canvas.width);
+        const height = Math.floor(options.height ?? canvas.height);
+        const type = `image/${options.format ?? 'png'}`;
+        
+        const imageData = new ImageData(new Uint8ClampedArray(pixels.buffer), width, height);
+        
+        // 优先使用OffscreenCanvas编码，避免向文档插入元素
+        if (typeof OffscreenCanvas !== 'undefined') {
+            const offscreen = new OffscreenCanvas(width, height);
+            const context = offscreen.getContext('2d');
+            if (!context) {
+                throw new Error('无法创建2D上下文，无法编码截图');
+            }
+            context.putImageData(imageData, 0, 0);
+            return offscreen.convertToBlob({ type, quality: options.quality });
+        }
+        
+        const encodeCanvas = document.createElement('canvas');
+        encodeCanvas.width = width;
+        encodeCanvas.height = height;
+        const context = encodeCanvas.getContext('2d');
+        if (!context) {
+            throw new Error('无法创建2D上下文，无法编码截图');
+        }
+        context.putImageData(imageData, 0, 0);
+        
+        return new Promise<Blob>((resolve, reject) => {
+            encodeCanvas.toBlob(blob => {
+                if (blob) {
+                    resolve(blob);
+                } else {
+                    reject(new Error(`截图编码失败: ${type}`));
+                }
+            }, type, options.quality);
+        });
+    }
+    
+    /**
+     * 把预乘alpha的颜色还原为普通颜色
+     * 场景使用预乘混合绘制到透明背景上，图片格式要求非预乘颜色
+     */
+    private unpremultiplyAlpha(pixels: Uint8Array): void {
+        for (let i = 0; i < pixels.length; i += 4) {
+            const alpha = pixels[i + 3];
+            if (alpha === 0 || alpha === 255) continue;
+            
+            const scale = 255 / alpha;
+            pixels[i] = Math.min(255, Math.round(pixels[i] * scale));
+            pixels[i + 1] = Math.min(255, Math.round(pixels[i + 1] * scale));
+            pixels[i + 2] = Math.min(255, Math.round(pixels[i + 2] * scale));
+        }
+    }
+}
@@ -0,0 +1,291 @@
+import { FrameStats } from '../core/FrameStats';
+
+/**
+ * 渲染目标描述
+ */
+export interface RenderTargetDescriptor {
+    /**
+     * 纹理格式
+     */
+    format: GPUTextureFormat;
+    
+    /**
+     * 相对于渲染图尺寸的缩放比例（默认: 1）
+     */
+    scale?: number;
+    
+    /**
+     * 纹理用途（默认: RENDER_ATTACHMENT | TEXTURE_BINDING）
+     */
+    usage?: GPUTextureUsageFlags;
+    
+    /**
+     * 多重采样数（默认: 1）
+     */
+    sampleCount?: number;
+}
+
+/**
+ * 渲染图通道
+ * 通过inputs/outputs声明读写的资源，由渲染图校验依赖关系
+ */
+export interface RenderGraphPass {
+    /**
+     * 通道名称
+     */
+    name: string;
+    
+    /**
+     * 读取的资源名称
+     */
+    inputs: string[];
+    
+    /**
+     * 写入的资源名称
+     */
+    outputs: string[];
+    
+    /**
+     * 录制通道命令
+     */
+    execute(encoder: GPUCommandEncoder, graph: RenderGraph): void;
+}
+
+/**
+ * 渲染目标资源
+ */
+interface RenderTargetResource {
+    descriptor: RenderTargetDescriptor;
+    texture: GPUTexture | null;
+    view: GPUTextureView | null;
+    width: number;
+    height: number;
+}
+
+/**
+ * 渲染图
+ * 管理离屏渲染目标的分配与尺寸，并按声明顺序执行渲染通道
+ */
+export class RenderGraph {
+    private device: GPUDevice;
+    private stats: FrameStats;
+    private targets: Map<string, RenderTargetResource> = new Map();
+    private importedTextures: Map<string, GPUTexture> = new Map();
+    private importedViews: Map<string, GPUTextureView> = new Map();
+    private passes: RenderGraphPass[] = [];
+    private width: number = 1;
+    private height: number = 1;
+    
+    /**
+     * @param stats 帧统计，用于记录渲染目标占用的内存
+     */
+    constructor(device: GPUDevice, stats: FrameStats) {
+        this.device = device;
+        this.stats = stats;
+    }
+    
+    /**
+     * 设置渲染图尺寸，所有渲染目标会在下次访问时按需重建
+     */
+    public setSize(width: number, height: number): void {
+        this.width = Math.max(1, Math.floor(width));
+        this.height = Math.max(1, Math.floor(height));
+    }
+    
+    /**
+     * 获取渲染图宽度
+     */
+    public getWidth(): number {
+        return this.width;
+    }
+    
+    /**
+     * 获取渲染图高度
+     */
+    public getHeight(): number {
+        return this.height;
+    }
+    
+    /**
+     * 声明渲染目标
+     * 同名目标描述变化时会重新创建纹理
+     */
+    public createTarget(name: string, descriptor: RenderTargetDescriptor): void {
+        const existing = this.targets.get(name);
+        if (existing && this.isSameDescriptor(existing.descriptor, descriptor)) {
+            return;
+        }
+        
+        if (existing?.texture) {
+            this.destroyTexture(existing.texture);
+        }
+        
+        this.targets.set(name, {
+            descriptor: { ...descriptor },
+            texture: null,
+            view: null,
+            width: 0,
+            height: 0
+        });
+    }
+    
+    /**
+     * 移除渲染目标并释放其纹理
+     */
+    public removeTarget(name: string): void {
+        const target = this.targets.get(name);
+        if (target?.texture) {
+            this.destroyTexture(target.texture);
+        }
+        this.targets.delete(name);
+    }
+    
+    /**
+     * 导入外部纹理（例如交换链纹理），仅在当前帧有效
+     */
+    public importTexture(name: string, texture: GPUTexture): void {
+        this.importedTextures.set(name, texture);
+        this.importedViews.set(name, texture.createView());
+    }
+    
+    /**
+     * 检查资源是否存在
+     */
+    public hasResource(name: string): boolean {
+        return this.targets.has(name) || this.importedTextures.has(name);
+    }
+    
+    /**
+     * 获取资源纹理
+     */
+    public getTexture(name: string): GPUTexture {
+        const imported = this.importedTextures.get(name);
+        if (imported) {
+            return imported;
+        }
+        return this.ensureTarget(name).texture!;
+    }
+    
+    /**
+     * 获取资源视图
+     */
+    public getView(name: string): GPUTextureView {
+        const imported = this.importedViews.get(name);
+        if (imported) {
+            return imported;
+        }
+        return this.ensureTarget(name).view!;
+    }
+    
+    /**
+     * 添加渲染通道
+     */
+    public addPass(pass: RenderGraphPass): void {
+        this.passes.push(pass);
+    }
+    
+    /**
+     * 按顺序执行所有通道
+     * 读取尚未被写入的资源的通道会被跳过
+     */
+    public execute(encoder: GPUCommandEncoder): void {
+        const written = new Set<string>(this.importedTextures.keys());
+        
+        for (const pass of this.passes) {
+            const missing = pass.inputs.filter(input => !written.has(input));
+            if (missing.length > 0) {
+                console.error(`渲染通道 ${pass.name} 的输入资源未就绪: ${missing.join(', ')}`);
+                continue;
+            }
+            
+            const unknown = pass.outputs.filter(output => !this.hasResource(output));
+            if (unknown.length > 0) {
+                console.error(`渲染通道 ${pass.name} 的输出资源未声明: ${unknown.join(', ')}`);
+                continue;
+            }
+            
+            pass.execute(encoder, this);
+            
+            for (const output of pass.outputs) {
+                written.add(output);
+            }
+        }
+    }
+    
+    /**
+     * 清除本帧的通道和导入资源
+     */
+    public reset(): void {
+        this.passes = [];
+        this.importedTextures.clear();
+        this.importedViews.clear();
+    }
+    
+    /**
+     * 确保渲染目标已按当前尺寸分配
+     */
+    private ensureTarget(name: string): RenderTargetResource {
+        const target = this.targets.get(name);
+        if (!target) {
+            throw new Error(`渲染图资源 ${name} 未声明`);
+        }
+        
+        const scale = target.descriptor.scale ?? 1;
+        const width = Math.max(1, Math.floor(this.width * scale));
+        const height = Math.max(1, Math.floor(this.height * scale));
+        
+        if (target.texture && target.width === width && target.height === height) {
+            return target;
+        }
+        
+        if (target.texture) {
+            this.destroyTexture(target.texture);
+        }
+        
+        target.texture = this.device.createTexture({
+            label: `RenderGraph ${name}`,
+            size: [width, height],
+            format: target.descriptor.format,
+            usage: target.descriptor.usage ?? (GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING),
+            sampleCount: target.descriptor.sampleCount ?? 1,
+        });
+        this.stats.trackTexture(target.texture);
+        target.view = target.texture.createView();
+        target.width = width;
+        target.height = height;
+        
+        return target;
+    }
+    
+    /**
+     * 比较渲染目标描述
+     */
+    private isSameDescriptor(a: RenderTargetDescriptor, b: RenderTargetDescriptor): boolean {
+        return a.format === b.format &&
+            (a.scale ?? 1) === (b.scale ?? 1) &&
+            a.usage === b.usage &&
+            (a.sampleCount ?? 1) === (b.sampleCount ?? 1);
+    }
+    
+    /**
+     * 销毁渲染目标纹理并从内存统计中扣除
+     */
+    private destroyTexture(texture: GPUTexture): void {
+        this.stats.release(texture);
+        texture.destroy();
+    }
+    
+    /**
+     * 释放所有渲染目标
+     */
+    public destroy(): void {
+        for (const target of this.targets.values()) {
+            if (target.texture) {
+                this.destroyTexture(target.texture);
+            }
+        }
+        
+        this.targets.clear();
+        this.reset();
+    }
+}
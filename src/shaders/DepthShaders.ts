@@ -0,0 +1,59 @@
+/**
+ * 深度着色器片段
+ * 对数深度模式下，顶点着色器输出 1 + w，片段着色器写入 log2(1 + w) * 系数，
+ * 系数为 1 / log2(far + 1)，使整个可见范围都能获得足够的深度精度
+ */
+export class DepthShaders {
+    /**
+     * 顶点输出结构中的对数深度字段
+     * @param location 字段使用的location编号
+     */
+    static getVaryingField(location: number, logDepth: boolean): string {
+        return logDepth ? `@location(${location}) logDepth: f32,` : '';
+    }
+    
+    /**
+     * 顶点着色器中写入对数深度字段（需在output.position赋值之后）
+     */
+    static getVertexAssignment(logDepth: boolean): string {
+        return logDepth ? 'output.logDepth = 1.0 + output.position.w;' : '';
+    }
+    
+    /**
+     * 片段着色器入口，调用各着色器实现的shadeFragment函数
+     * @param factor 对数深度系数的WGSL表达式
+     */
+    static getFragmentEntry(logDepth: boolean, factor: string): string {
+        if (!logDepth) {
+            return `
+                @fragment
+                fn fragmentMain(input: VertexOutput) -> @location(0) vec4<f32> {
+                    return shadeFragment(input);
+                }
+            `;
+        }
+        
+        return `
+            struct DepthFragmentOutput {
+                @location(0) color: vec4<f32>,
+                @builtin(frag_depth) depth: f32,
+            };
+            
+            @fragment
+            fn fragmentMain(input: VertexOutput) -> DepthFragmentOutput {
+                var output: DepthFragmentOutput;
+                output.color = shadeFragment(input);
+                output.depth = log2(input.logDepth) * ${factor};
+                return output;
+            }
+        `;
+    }
+    
+    /**
+     * GLSL顶点着色器中把深度从[0, 1]映射到WebGL的[-1, 1]裁剪范围（需在gl_Position赋值之后）
+     * 相机的投影矩阵按WebGPU的深度范围生成，WebGL2后端只支持标准深度
+     */
+    static getGLSLDepthRemap(): string {
+        return 'gl_Position.z = gl_Position.z * 2.0 - gl_Position.w;';
+    }
+}
@@ -1,12 +1,150 @@
+import { DepthShaders } from './DepthShaders';
+
 /**
  * 地球渲染着色器
  * 包含高质量的顶点和片段着色器代码
+ * 地球和网格线共用同一个统一变量结构
  */
 export class GlobeShaders {
     /**
-     * 地球顶点着色器
+     * 地球着色器（顶点 + 片段）
+     * @param logDepth 是否写入对数深度
+     */
+    static getShader(logDepth: boolean = false): string {
+        return GlobeShaders.getUniformDeclaration() +
+            GlobeShaders.getVertexShader(logDepth) +
+            GlobeShaders.getFragmentShader(logDepth);
+    }
+    
+    /**
+     * 网格线着色器（顶点 + 片段）
+     * @param logDepth 是否写入对数深度
+     */
+    static getGridShader(logDepth: boolean = false): string {
+        return GlobeShaders.getUniformDeclaration() +
+            GlobeShaders.getGridVertexShader(logDepth) +
+            GlobeShaders.getGridFragmentShader(logDepth);
+    }
+    
+    /**
+     * 地球着色器（GLSL ES 3.00，WebGL2后端使用）
+     */
+    static getGLSLShader(): { vertex: string; fragment: string } {
+        return {
+            vertex: `#version 300 es
+                precision highp float;
+                ${GlobeShaders.getGLSLUniformDeclaration()}
+                
+                layout(location = 0) in vec3 position;
+                layout(location = 1) in vec3 normal;
+                layout(location = 2) in vec2 uv;
+                
+                out vec3 vNormal;
+                out vec2 vUv;
+                out vec3 vViewDir;
+                
+                void main() {
+                    vec4 worldPosition = uniforms.modelMatrix * vec4(position, 1.0);
+                    vNormal = normalize((uniforms.modelMatrix * vec4(normal, 0.0)).xyz);
+                    vUv = uv;
+                    vViewDir = normalize(uniforms.cameraPosition - worldPosition.xyz);
+                    
+                    gl_Position = uniforms.projectionMatrix * uniforms.viewMatrix * worldPosition;
+                    ${DepthShaders.getGLSLDepthRemap()}
+                }
+            `,
+            fragment: `#version 300 es
+                precision highp float;
+                ${GlobeShaders.getGLSLUniformDeclaration()}
+                
+                uniform sampler2D earthTexture;
+                uniform sampler2D normalTexture;
+                
+                in vec3 vNormal;
+                in vec2 vUv;
+                in vec3 vViewDir;
+                
+                out vec4 fragColor;
+                
+                // 计算菲涅尔反射
+                float fresnel(float cosTheta, float F0) {
+                    return F0 + (1.0 - F0) * pow(1.0 - cosTheta, 5.0);
+                }
+                
+                // 计算大气散射效果
+                vec3 atmosphericScattering(vec3 viewDir, vec3 normal) {
+                    float rim = 1.0 - max(0.0, dot(viewDir, normal));
+                    return vec3(0.4, 0.7, 1.0) * pow(rim, 2.0) * 0.8;
+                }
+                
+                void main() {
+                    vec4 earthColor = texture(earthTexture, vUv);
+                    vec4 normalMap = texture(normalTexture, vUv);
+                    vec3 perturbedNormal = normalize(vNormal + (normalMap.xyz * 2.0 - 1.0) * 0.1);
+                    
+                    vec3 lightDir = normalize(-uniforms.lightDirection);
+                    vec3 viewDir = normalize(vViewDir);
+                    vec3 halfDir = normalize(lightDir + viewDir);
+                    
+                    vec3 diffuse = earthColor.rgb * max(0.0, dot(perturbedNormal, lightDir));
+                    float specular = pow(max(0.0, dot(perturbedNormal, halfDir)), 32.0) * 0.3;
+                    vec3 ambient = earthColor.rgb * 0.1;
+                    vec3 atmosphere = atmosphericScattering(viewDir, perturbedNormal);
+                    float fresnelTerm = fresnel(max(0.0, dot(viewDir, perturbedNormal)), 0.04);
+                    
+                    vec3 finalColor = ambient + diffuse + specular * fresnelTerm + atmosphere;
+                    
+                    // 色调映射和伽马校正
+                    finalColor = finalColor / (finalColor + vec3(1.0));
+                    finalColor = pow(finalColor, vec3(1.0 / 2.2));
+                    
+                    fragColor = vec4(finalColor, 1.0);
+                }
+            `
+        };
+    }
+    
+    /**
+     * 网格线着色器（GLSL ES 3.00，WebGL2后端使用）
+     */
+    static getGridGLSLShader(): { vertex: string; fragment: string } {
+        return {
+            vertex: `#version 300 es
+                precision highp float;
+                ${GlobeShaders.getGLSLUniformDeclaration()}
+                
+                layout(location = 0) in vec3 position;
+                
+                out float vDistance;
+                
+                void main() {
+                    vec4 worldPosition = uniforms.modelMatrix * vec4(position, 1.0);
+                    vDistance = length(uniforms.cameraPosition - worldPosition.xyz);
+                    
+                    gl_Position = uniforms.projectionMatrix * uniforms.viewMatrix * worldPosition;
+                    ${DepthShaders.getGLSLDepthRemap()}
+                }
+            `,
+            fragment: `#version 300 es
+                precision highp float;
+                
+                in float vDistance;
+                
+                out vec4 fragColor;
+                
+                void main() {
+                    float alpha = 1.0 - smoothstep(3.0, 10.0, vDistance);
+                    float brightness = 0.6 + 0.4 * sin(vDistance * 0.1);
+                    fragColor = vec4(vec3(1.0) * brightness, alpha * 0.8);
+                }
+            `
+        };
+    }
+    
+    /**
+     * 统一变量声明
      */
-    static getVertexShader(): string {
+    static getUniformDeclaration(): string {
         return `
             struct Uniforms {
                 modelMatrix: mat4x4<f32>,
@@ -15,11 +153,35 @@ export class GlobeShaders {
                 lightDirection: vec3<f32>,
                 time: f32,
                 cameraPosition: vec3<f32>,
-                _padding: f32,
+                logDepthFactor: f32,
             };
             
             @group(0) @binding(0) var<uniform> uniforms: Uniforms;
-            
+        `;
+    }
+    
+    /**
+     * GLSL统一块声明，std140布局与WGSL的统一缓冲区布局一致
+     */
+    static getGLSLUniformDeclaration(): string {
+        return `
+            layout(std140) uniform Uniforms {
+                mat4 modelMatrix;
+                mat4 viewMatrix;
+                mat4 projectionMatrix;
+                vec3 lightDirection;
+                float time;
+                vec3 cameraPosition;
+                float logDepthFactor;
+            } uniforms;
+        `;
+    }
+    
+    /**
+     * 地球顶点着色器
+     */
+    static getVertexShader(logDepth: boolean = false): string {
+        return `
             struct VertexInput {
                 @location(0) position: vec3<f32>,
                 @location(1) normal: vec3<f32>,
@@ -32,6 +194,7 @@ export class GlobeShaders {
                 @location(1) normal: vec3<f32>,
                 @location(2) uv: vec2<f32>,
                 @location(3) viewDir: vec3<f32>,
+                ${DepthShaders.getVaryingField(4, logDepth)}
             };
             
             @vertex
@@ -53,6 +216,7 @@ export class GlobeShaders {
                 
                 // 最终位置
                 output.position = uniforms.projectionMatrix * uniforms.viewMatrix * worldPosition;
+                ${DepthShaders.getVertexAssignment(logDepth)}
                 
                 return output;
             }
@@ -62,32 +226,13 @@ export class GlobeShaders {
     /**
      * 地球片段着色器
      */
-    static getFragmentShader(): string {
+    static getFragmentShader(logDepth: boolean = false): string {
         return `
-            struct Uniforms {
-                modelMatrix: mat4x4<f32>,
-                viewMatrix: mat4x4<f32>,
-                projectionMatrix: mat4x4<f32>,
-                lightDirection: vec3<f32>,
-                time: f32,
-                cameraPosition: vec3<f32>,
-                _padding: f32,
-            };
-            
-            @group(0) @binding(0) var<uniform> uniforms: Uniforms;
             @group(0) @binding(1) var earthTexture: texture_2d<f32>;
             @group(0) @binding(2) var earthSampler: sampler;
             @group(0) @binding(3) var normalTexture: texture_2d<f32>;
             @group(0) @binding(4) var normalSampler: sampler;
             
-            struct VertexOutput {
-                @builtin(position) position: vec4<f32>,
-                @location(0) worldPos: vec3<f32>,
-                @location(1) normal: vec3<f32>,
-                @location(2) uv: vec2<f32>,
-                @location(3) viewDir: vec3<f32>,
-            };
-            
             // 计算菲涅尔反射
             fn fresnel(cosTheta: f32, F0: f32) -> f32 {
                 return F0 + (1.0 - F0) * pow(1.0 - cosTheta, 5.0);
@@ -105,8 +250,7 @@ export class GlobeShaders {
                 return atmosphereColor * rimEffect;
             }
             
-            @fragment
-            fn fragmentMain(input: VertexOutput) -> @location(0) vec4<f32> {
+            fn shadeFragment(input: VertexOutput) -> vec4<f32> {
                 // 采样地球纹理
                 var earthColor = textureSample(earthTexture, earthSampler, input.uv);
                 
@@ -147,30 +291,21 @@ export class GlobeShaders {
                 
                 return vec4<f32>(finalColor, 1.0);
             }
+            
+            ${DepthShaders.getFragmentEntry(logDepth, 'uniforms.logDepthFactor')}
         `;
     }
     
     /**
      * 网格线顶点着色器
      */
-    static getGridVertexShader(): string {
+    static getGridVertexShader(logDepth: boolean = false): string {
         return `
-            struct Uniforms {
-                modelMatrix: mat4x4<f32>,
-                viewMatrix: mat4x4<f32>,
-                projectionMatrix: mat4x4<f32>,
-                lightDirection: vec3<f32>,
-                time: f32,
-                cameraPosition: vec3<f32>,
-                _padding: f32,
-            };
-            
-            @group(0) @binding(0) var<uniform> uniforms: Uniforms;
-            
             struct VertexOutput {
                 @builtin(position) position: vec4<f32>,
                 @location(0) worldPos: vec3<f32>,
                 @location(1) distance: f32,
+                ${DepthShaders.getVaryingField(2, logDepth)}
             };
             
             @vertex
@@ -183,6 +318,7 @@ export class GlobeShaders {
                 output.distance = length(uniforms.cameraPosition - worldPosition.xyz);
                 
                 output.position = uniforms.projectionMatrix * uniforms.viewMatrix * worldPosition;
+                ${DepthShaders.getVertexAssignment(logDepth)}
                 return output;
             }
         `;
@@ -191,16 +327,9 @@ export class GlobeShaders {
     /**
      * 网格线片段着色器
      */
-    static getGridFragmentShader(): string {
+    static getGridFragmentShader(logDepth: boolean = false): string {
         return `
-            struct VertexOutput {
-                @builtin(position) position: vec4<f32>,
-                @location(0) worldPos: vec3<f32>,
-                @location(1) distance: f32,
-            };
-            
-            @fragment
-            fn fragmentMain(input: VertexOutput) -> @location(0) vec4<f32> {
+            fn shadeFragment(input: VertexOutput) -> vec4<f32> {
                 // 基础网格线颜色
                 let baseColor = vec3<f32>(1.0, 1.0, 1.0);
                 
@@ -213,6 +342,8 @@ export class GlobeShaders {
                 
                 return vec4<f32>(baseColor * brightness, alpha * 0.8);
             }
+            
+            ${DepthShaders.getFragmentEntry(logDepth, 'uniforms.logDepthFactor')}
         `;
     }
 }
\ No newline at end of file
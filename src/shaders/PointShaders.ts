@@ -0,0 +1,158 @@
+import { DepthShaders } from './DepthShaders';
+
+/**
+ * 点图层着色器
+ * 每个点以实例方式展开为屏幕对齐的四边形
+ */
+export class PointShaders {
+    /**
+     * 点图层着色器（顶点 + 片段）
+     * @param logDepth 是否写入对数深度
+     */
+    static getShader(logDepth: boolean = false): string {
+        return `
+            struct Uniforms {
+                modelMatrix: mat4x4<f32>,
+                viewMatrix: mat4x4<f32>,
+                projectionMatrix: mat4x4<f32>,
+                viewportSize: vec2<f32>,
+                pointScale: f32,
+                opacity: f32,
+                logDepthFactor: f32,
+            };
+            
+            @group(0) @binding(0) var<uniform> uniforms: Uniforms;
+            
+            struct InstanceInput {
+                @location(0) position: vec3<f32>,
+                @location(1) color: vec4<f32>,
+                @location(2) size: f32,
+            };
+            
+            struct VertexOutput {
+                @builtin(position) position: vec4<f32>,
+                @location(0) color: vec4<f32>,
+                @location(1) local: vec2<f32>,
+                ${DepthShaders.getVaryingField(2, logDepth)}
+            };
+            
+            @vertex
+            fn vertexMain(@builtin(vertex_index) vertexIndex: u32, input: InstanceInput) -> VertexOutput {
+                // WGSL没有点大小内置变量，每个点展开为一个屏幕对齐的四边形
+                var corners = array<vec2<f32>, 6>(
+                    vec2<f32>(-1.0, -1.0), vec2<f32>(1.0, -1.0), vec2<f32>(-1.0, 1.0),
+                    vec2<f32>(-1.0, 1.0), vec2<f32>(1.0, -1.0), vec2<f32>(1.0, 1.0)
+                );
+                let corner = corners[vertexIndex];
+                
+                var output: VertexOutput;
+                
+                var worldPosition = uniforms.modelMatrix * vec4<f32>(input.position, 1.0);
+                var clipPosition = uniforms.projectionMatrix * uniforms.viewMatrix * worldPosition;
+                
+                // 按像素大小在裁剪空间中偏移
+                let pixelSize = input.size * uniforms.pointScale;
+                clipPosition = vec4<f32>(clipPosition.xy + corner * pixelSize / uniforms.viewportSize * clipPosition.w, clipPosition.zw);
+                
+                output.position = clipPosition;
+                ${DepthShaders.getVertexAssignment(logDepth)}
+                output.color = input.color;
+                output.local = corner;
+                
+                return output;
+            }
+            
+            fn shadeFragment(input: VertexOutput) -> vec4<f32> {
+                // 创建圆形点
+                let dist = length(input.local);
+                
+                if (dist > 1.0) {
+                    discard;
+                }
+                
+                // 边缘柔化
+                let alpha = 1.0 - smoothstep(0.8, 1.0, dist);
+                
+                var finalColor = input.color;
+                finalColor.a *= alpha * uniforms.opacity;
+                
+                return finalColor;
+            }
+            
+            ${DepthShaders.getFragmentEntry(logDepth, 'uniforms.logDepthFactor')}
+        `;
+    }
+    
+    /**
+     * 点图层着色器（GLSL ES 3.00，WebGL2后端使用）
+     * 统一块的std140布局与WGSL的统一缓冲区布局一致
+     */
+    static getGLSLShader(): { vertex: string; fragment: string } {
+        const uniforms = `
+            layout(std140) uniform Uniforms {
+                mat4 modelMatrix;
+                mat4 viewMatrix;
+                mat4 projectionMatrix;
+                vec2 viewportSize;
+                float pointScale;
+                float opacity;
+                float logDepthFactor;
+            } uniforms;
+        `;
+        
+        return {
+            vertex: `#version 300 es
+                precision highp float;
+                ${uniforms}
+                
+                layout(location = 0) in vec3 position;
+                layout(location = 1) in vec4 color;
+                layout(location = 2) in float size;
+                
+                out vec4 vColor;
+                out vec2 vLocal;
+                
+                const vec2 corners[6] = vec2[6](
+                    vec2(-1.0, -1.0), vec2(1.0, -1.0), vec2(-1.0, 1.0),
+                    vec2(-1.0, 1.0), vec2(1.0, -1.0), vec2(1.0, 1.0)
+                );
+                
+                void main() {
+                    vec2 corner = corners[gl_VertexID];
+                    
+                    vec4 worldPosition = uniforms.modelMatrix * vec4(position, 1.0);
+                    vec4 clipPosition = uniforms.projectionMatrix * uniforms.viewMatrix * worldPosition;
+                    
+                    // 按像素大小在裁剪空间中偏移
+                    float pixelSize = size * uniforms.pointScale;
+                    clipPosition.xy += corner * pixelSize / uniforms.viewportSize * clipPosition.w;
+                    
+                    gl_Position = clipPosition;
+                    ${DepthShaders.getGLSLDepthRemap()}
+                    vColor = color;
+                    vLocal = corner;
+                }
+            `,
+            fragment: `#version 300 es
+                precision highp float;
+                ${uniforms}
+                
+                in vec4 vColor;
+                in vec2 vLocal;
+                
+                out vec4 fragColor;
+                
+                void main() {
+                    // 圆形点，边缘柔化
+                    float dist = length(vLocal);
+                    if (dist > 1.0) {
+                        discard;
+                    }
+                    
+                    float alpha = 1.0 - smoothstep(0.8, 1.0, dist);
+                    fragColor = vec4(vColor.rgb, vColor.a * alpha * uniforms.opacity);
+                }
+            `
+        };
+    }
+}
@@ -0,0 +1,239 @@
+/**
+ * 后处理着色器
+ * 所有全屏效果共享同一个顶点着色器和统一变量布局
+ */
+export class PostProcessShaders {
+    /**
+     * 全屏三角形顶点着色器
+     */
+    static getFullscreenVertexShader(): string {
+        return `
+            struct FullscreenOutput {
+                @builtin(position) position: vec4<f32>,
+                @location(0) uv: vec2<f32>,
+            };
+            
+            @vertex
+            fn vertexMain(@builtin(vertex_index) vertexIndex: u32) -> FullscreenOutput {
+                // 一个覆盖整个屏幕的三角形
+                var positions = array<vec2<f32>, 3>(
+                    vec2<f32>(-1.0, -1.0),
+                    vec2<f32>(3.0, -1.0),
+                    vec2<f32>(-1.0, 3.0)
+                );
+                let position = positions[vertexIndex];
+                
+                var output: FullscreenOutput;
+                output.position = vec4<f32>(position, 0.0, 1.0);
+                output.uv = vec2<f32>(position.x * 0.5 + 0.5, 0.5 - position.y * 0.5);
+                return output;
+            }
+        `;
+    }
+    
+    /**
+     * 效果公共声明：输入纹理、采样器和统一变量
+     * params中的含义由各个效果自行定义
+     */
+    static getEffectHeader(): string {
+        return `
+            struct EffectUniforms {
+                resolution: vec2<f32>,
+                time: f32,
+                _padding: f32,
+                params: array<vec4<f32>, 4>,
+            };
+            
+            @group(0) @binding(0) var inputTexture: texture_2d<f32>;
+            @group(0) @binding(1) var inputSampler: sampler;
+            @group(0) @binding(2) var<uniform> effectUniforms: EffectUniforms;
+        `;
+    }
+    
+    /**
+     * 效果片段着色器入口，调用各效果实现的applyEffect函数
+     */
+    static getEffectFragmentEntry(): string {
+        return `
+            @fragment
+            fn fragmentMain(input: FullscreenOutput) -> @location(0) vec4<f32> {
+                return applyEffect(input.uv);
+            }
+        `;
+    }
+    
+    /**
+     * 直接复制输入纹理
+     */
+    static getCopyEffect(): string {
+        return `
+            fn applyEffect(uv: vec2<f32>) -> vec4<f32> {
+                return textureSample(inputTexture, inputSampler, uv);
+            }
+        `;
+    }
+    
+    /**
+     * FXAA快速近似抗锯齿
+     * params[0]: x = 边缘阈值, y = 最小阈值, z = 子像素强度
+     */
+    static getFXAAEffect(): string {
+        return `
+            fn fxaaLuma(color: vec3<f32>) -> f32 {
+                return dot(color, vec3<f32>(0.299, 0.587, 0.114));
+            }
+            
+            fn applyEffect(uv: vec2<f32>) -> vec4<f32> {
+                let texel = 1.0 / effectUniforms.resolution;
+                let edgeThreshold = effectUniforms.params[0].x;
+                let edgeThresholdMin = effectUniforms.params[0].y;
+                let subpixel = effectUniforms.params[0].z;
+                
+                let center = textureSample(inputTexture, inputSampler, uv);
+                let lumaM = fxaaLuma(center.rgb);
+                let lumaNW = fxaaLuma(textureSample(inputTexture, inputSampler, uv + vec2<f32>(-1.0, -1.0) * texel).rgb);
+                let lumaNE = fxaaLuma(textureSample(inputTexture, inputSampler, uv + vec2<f32>(1.0, -1.0) * texel).rgb);
+                let lumaSW = fxaaLuma(textureSample(inputTexture, inputSampler, uv + vec2<f32>(-1.0, 1.0) * texel).rgb);
+                let lumaSE = fxaaLuma(textureSample(inputTexture, inputSampler, uv + vec2<f32>(1.0, 1.0) * texel).rgb);
+                
+                let lumaMin = min(lumaM, min(min(lumaNW, lumaNE), min(lumaSW, lumaSE)));
+                let lumaMax = max(lumaM, max(max(lumaNW, lumaNE), max(lumaSW, lumaSE)));
+                
+                // 对比度不足时不处理
+                if (lumaMax - lumaMin < max(edgeThresholdMin, lumaMax * edgeThreshold)) {
+                    return center;
+                }
+                
+                // 估计边缘方向
+                var dir = vec2<f32>(
+                    -((lumaNW + lumaNE) - (lumaSW + lumaSE)),
+                    (lumaNW + lumaSW) - (lumaNE + lumaSE)
+                );
+                let dirReduce = max((lumaNW + lumaNE + lumaSW + lumaSE) * 0.25 * subpixel * 0.125, 1.0 / 128.0);
+                let rcpDirMin = 1.0 / (min(abs(dir.x), abs(dir.y)) + dirReduce);
+                dir = clamp(dir * rcpDirMin, vec2<f32>(-8.0), vec2<f32>(8.0)) * texel;
+                
+                let rgbA = 0.5 * (
+                    textureSample(inputTexture, inputSampler, uv + dir * (1.0 / 3.0 - 0.5)).rgb +
+                    textureSample(inputTexture, inputSampler, uv + dir * (2.0 / 3.0 - 0.5)).rgb
+                );
+                let rgbB = rgbA * 0.5 + 0.25 * (
+                    textureSample(inputTexture, inputSampler, uv + dir * -0.5).rgb +
+                    textureSample(inputTexture, inputSampler, uv + dir * 0.5).rgb
+                );
+                
+                let lumaB = fxaaLuma(rgbB);
+                if (lumaB < lumaMin || lumaB > lumaMax) {
+                    return vec4<f32>(rgbA, center.a);
+                }
+                return vec4<f32>(rgbB, center.a);
+            }
+        `;
+    }
+    
+    /**
+     * 暗角
+     * params[0]: x = 强度, y = 半径, z = 柔和度
+     */
+    static getVignetteEffect(): string {
+        return `
+            fn applyEffect(uv: vec2<f32>) -> vec4<f32> {
+                let color = textureSample(inputTexture, inputSampler, uv);
+                let intensity = effectUniforms.params[0].x;
+                let radius = effectUniforms.params[0].y;
+                let softness = effectUniforms.params[0].z;
+                
+                // 按宽高比修正，使暗角保持圆形
+                let aspect = effectUniforms.resolution.x / effectUniforms.resolution.y;
+                let offset = (uv - vec2<f32>(0.5)) * vec2<f32>(aspect, 1.0);
+                let vignette = smoothstep(radius, radius - softness, length(offset));
+                
+                return vec4<f32>(color.rgb * mix(1.0 - intensity, 1.0, vignette), color.a);
+            }
+        `;
+    }
+    
+    /**
+     * 色彩分级
+     * params[0]: x = 曝光, y = 对比度, z = 饱和度, w = 亮度
+     * params[1]: xyz = 色调
+     */
+    static getColorGradingEffect(): string {
+        return `
+            fn applyEffect(uv: vec2<f32>) -> vec4<f32> {
+                let color = textureSample(inputTexture, inputSampler, uv);
+                let exposure = effectUniforms.params[0].x;
+                let contrast = effectUniforms.params[0].y;
+                let saturation = effectUniforms.params[0].z;
+                let brightness = effectUniforms.params[0].w;
+                let tint = effectUniforms.params[1].xyz;
+                
+                var rgb = color.rgb * exp2(exposure) * tint;
+                rgb = (rgb - vec3<f32>(0.5)) * contrast + vec3<f32>(0.5) + vec3<f32>(brightness);
+                
+                let luma = dot(rgb, vec3<f32>(0.2126, 0.7152, 0.0722));
+                rgb = mix(vec3<f32>(luma), rgb, saturation);
+                
+                return vec4<f32>(max(rgb, vec3<f32>(0.0)), color.a);
+            }
+        `;
+    }
+    
+    /**
+     * 泛光：提取高亮部分
+     * params[0]: x = 亮度阈值, y = 过渡宽度
+     */
+    static getBloomExtractEffect(): string {
+        return `
+            fn applyEffect(uv: vec2<f32>) -> vec4<f32> {
+                let color = textureSample(inputTexture, inputSampler, uv);
+                let threshold = effectUniforms.params[0].x;
+                let knee = effectUniforms.params[0].y;
+                
+                let luma = dot(color.rgb, vec3<f32>(0.2126, 0.7152, 0.0722));
+                let weight = smoothstep(threshold, threshold + knee, luma);
+                
+                return vec4<f32>(color.rgb * weight, 1.0);
+            }
+        `;
+    }
+    
+    /**
+     * 泛光：单方向高斯模糊
+     * params[0]: xy = 模糊方向（像素）
+     */
+    static getBloomBlurEffect(): string {
+        return `
+            fn applyEffect(uv: vec2<f32>) -> vec4<f32> {
+                let texel = effectUniforms.params[0].xy / effectUniforms.resolution;
+                let weights = array<f32, 5>(0.227027, 0.1945946, 0.1216216, 0.054054, 0.016216);
+                
+                var result = textureSample(inputTexture, inputSampler, uv).rgb * weights[0];
+                for (var i = 1; i < 5; i++) {
+                    let offset = texel * f32(i);
+                    result += textureSample(inputTexture, inputSampler, uv + offset).rgb * weights[i];
+                    result += textureSample(inputTexture, inputSampler, uv - offset).rgb * weights[i];
+                }
+                
+                return vec4<f32>(result, 1.0);
+            }
+        `;
+    }
+    
+    /**
+     * 泛光：与原图合成
+     * params[0]: x = 泛光强度
+     */
+    static getBloomCompositeEffect(): string {
+        return `
+            @group(0) @binding(3) var bloomTexture: texture_2d<f32>;
+            
+            fn applyEffect(uv: vec2<f32>) -> vec4<f32> {
+                let color = textureSample(inputTexture, inputSampler, uv);
+                let bloom = textureSample(bloomTexture, inputSampler, uv).rgb;
+                
+                return vec4<f32>(color.rgb + bloom * effectUniforms.params[0].x, color.a);
+            }
+        `;
+    }
+}
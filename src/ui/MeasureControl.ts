@@ -0,0 +1,588 @@
+import AIMap, { MapMouseEvent } from '../AIMap';
+import { EventEmitter } from '../core/EventEmitter';
+import { Geodesic } from '../data/Geodesic';
+import { GeoJSONData } from '../data/GeoDataLoader';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/**
+ * 测量单位
+ */
+export type MeasureUnits = 'km' | 'mi' | 'nmi';
+
+// 每个单位对应的米数
+const UNIT_METERS: Record<MeasureUnits, number> = {
+    km: 1000,
+    mi: 1609.344,
+    nmi: 1852
+};
+
+// 单位的显示名称
+const UNIT_LABELS: Record<MeasureUnits, string> = {
+    km: '公里',
+    mi: '英里',
+    nmi: '海里'
+};
+
+// 点击位置与顶点的屏幕距离小于此值（CSS像素）时视为点击该顶点
+const VERTEX_TOLERANCE = 8;
+
+// 绘制测地线时的加密间距（米）和每条边的最大分段数
+const PATH_SPACING = 50000;
+const PATH_MAX_SEGMENTS = 64;
+
+const LINE_COLOR = 'rgb(255, 140, 0)';
+
+/**
+ * 测量结果（距离和面积使用当前单位）
+ */
+export interface Measurement {
+    /**
+     * 顶点[经度, 纬度]
+     */
+    coordinates: Array<[number, number]>;
+    
+    /**
+     * 是否已闭合为多边形
+     */
+    closed: boolean;
+    
+    /**
+     * 单位
+     */
+    units: MeasureUnits;
+    
+    /**
+     * 到每个顶点的累计距离，第一个为0；闭合时最后一个为回到起点的周长
+     */
+    cumulativeDistances: number[];
+    
+    /**
+     * 总长度（闭合时为周长）
+     */
+    distance: number;
+    
+    /**
+     * 闭合时的面积（单位的平方），未闭合时为null
+     */
+    area: number | null;
+}
+
+/**
+ * 测量控件事件
+ */
+export interface MeasureControlEvents {
+    /**
+     * 顶点、闭合状态或单位变化
+     */
+    change: Measurement;
+}
+
+/**
+ * 测量控件选项
+ */
+export interface MeasureControlOptions {
+    /**
+     * 单位（默认: km）
+     */
+    units?: MeasureUnits;
+}
+
+/**
+ * 测地线测量控件
+ * 启用后在地球上点击添加顶点，双击结束折线，点击第一个顶点闭合为多边形；
+ * 距离和面积在WGS84椭球上计算，折线沿测地线绘制并在每个顶点标注累计距离
+ */
+export class MeasureControl extends EventEmitter<MeasureControlEvents> {
+    private map: AIMap;
+    private units: MeasureUnits;
+    private enabled: boolean = false;
+    private vertices: Array<[number, number]> = [];
+    private closed: boolean = false;
+    private finished: boolean = false;
+    private cursor: [number, number] | null = null;
+    
+    // 顶点、单位或闭合状态变化时计算的测量结果和沿测地线加密的路径，重绘时只重新投影
+    private measurement: Measurement;
+    private path: Array<[number, number]> = [];
+    private cursorPath: Array<[number, number]> = [];
+    
+    // 启用期间禁用双击放大，禁用时恢复
+    private doubleTapZoomWasEnabled: boolean = false;
+    private previousCursor: string = '';
+    
+    private overlay: SVGSVGElement | null = null;
+    private panel: HTMLDivElement | null = null;
+    private panelText: HTMLDivElement | null = null;
+    private unitSelect: HTMLSelectElement | null = null;
+    
+    private boundHandleClick: (event: MapMouseEvent) => void;
+    private boundHandleDoubleClick: () => void;
+    private boundHandleMouseMove: (event: MapMouseEvent) => void;
+    private boundRedraw: () => void;
+    
+    constructor(map: AIMap, options: MeasureControlOptions = {}) {
+        super();
+        this.map = map;
+        this.units = options.units ?? 'km';
+        this.measurement = this.computeMeasurement();
+        this.boundHandleClick = this.handleClick.bind(this);
+        this.boundHandleDoubleClick = this.finish.bind(this);
+        this.boundHandleMouseMove = this.handleMouseMove.bind(this);
+        this.boundRedraw = this.redraw.bind(this);
+    }
+    
+    /**
+     * 启用：显示面板，开始响应点击
+     */
+    public enable(): void {
+        if (this.enabled) return;
+        this.enabled = true;
+        
+        this.map.on('click', this.boundHandleClick);
+        this.map.on('dblclick', this.boundHandleDoubleClick);
+        this.map.on('mousemove', this.boundHandleMouseMove);
+        this.map.on('render', this.boundRedraw);
+        
+        this.doubleTapZoomWasEnabled = this.map.doubleTapZoom.isEnabled();
+        this.map.doubleTapZoom.disable();
+        const canvas = this.map.getCanvas();
+        this.previousCursor = canvas.style.cursor;
+        canvas.style.cursor = 'crosshair';
+        
+        this.createElements();
+        this.redraw();
+    }
+    
+    /**
+     * 禁用：隐藏测量结果和面板，保留已添加的顶点
+     */
+    public disable(): void {
+        if (!this.enabled) return;
+        this.enabled = false;
+        
+        this.map.off('click', this.boundHandleClick);
+        this.map.off('dblclick', this.boundHandleDoubleClick);
+        this.map.off('mousemove', this.boundHandleMouseMove);
+        this.map.off('render', this.boundRedraw);
+        
+        if (this.doubleTapZoomWasEnabled) {
+            this.map.doubleTapZoom.enable();
+        }
+        this.map.getCanvas().style.cursor = this.previousCursor;
+        this.cursor = null;
+        this.cursorPath = [];
+        
+        this.overlay?.remove();
+        this.panel?.remove();
+        this.overlay = null;
+        this.panel = null;
+        this.panelText = null;
+        this.unitSelect = null;
+    }
+    
+    /**
+     * 是否已启用
+     */
+    public isEnabled(): boolean {
+        return this.enabled;
+    }
+    
+    /**
+     * 设置单位
+     */
+    public setUnits(units: MeasureUnits): void {
+        if (!(units in UNIT_METERS)) {
+            throw new Error(`不支持的测量单位: ${units}`);
+        }
+        this.units = units;
+        if (this.unitSelect) {
+            this.unitSelect.value = units;
+        }
+        this.handleChange();
+    }
+    
+    /**
+     * 获取单位
+     */
+    public getUnits(): MeasureUnits {
+        return this.units;
+    }
+    
+    /**
+     * 清除所有顶点，开始新的测量
+     */
+    public clear(): void {
+        this.vertices = [];
+        this.closed = false;
+        this.finished = false;
+        this.handleChange();
+    }
+    
+    /**
+     * 结束折线，之后的点击开始新的测量
+     */
+    public finish(): void {
+        if (this.vertices.length === 0 || this.finished) return;
+        this.finished = true;
+        this.handleChange();
+    }
+    
+    /**
+     * 闭合为多边形并计算面积，至少需要3个顶点
+     */
+    public close(): boolean {
+        if (this.vertices.length < 3) {
+            return false;
+        }
+        this.closed = true;
+        this.finished = true;
+        this.handleChange();
+        return true;
+    }
+    
+    /**
+     * 获取当前测量结果
+     */
+    public getMeasurement(): Measurement {
+        return {
+            ...this.measurement,
+            coordinates: this.measurement.coordinates.map(vertex => [vertex[0], vertex[1]]),
+            cumulativeDistances: [...this.measurement.cumulativeDistances]
+        };
+    }
+    
+    /**
+     * 计算测量结果
+     */
+    private computeMeasurement(): Measurement {
+        const scale = UNIT_METERS[this.units];
+        const ring = this.closed ? [...this.vertices, this.vertices[0]] : this.vertices;
+        
+        const cumulativeDistances = [0];
+        for (let i = 1; i < ring.length; i++) {
+            const segment = Geodesic.inverse(ring[i - 1], ring[i]).distance / scale;
+            cumulativeDistances.push(cumulativeDistances[i - 1] + segment);
+        }
+        
+        return {
+            coordinates: this.vertices.map(vertex => [vertex[0], vertex[1]]),
+            closed: this.closed,
+            units: this.units,
+            cumulativeDistances: ring.length > 0 ? cumulativeDistances : [],
+            distance: cumulativeDistances[cumulativeDistances.length - 1],
+            area: this.closed ? Geodesic.area(this.vertices) / (scale * scale) : null
+        };
+    }
+    
+    /**
+     * 导出为GeoJSON：折线为LineString，闭合后为Polygon，属性中包含单位、累计距离、总长度和面积；
+     * 少于2个顶点时没有要素
+     */
+    public toGeoJSON(): GeoJSONData {
+        if (this.vertices.length < 2) {
+            return { type: 'FeatureCollection', features: [] };
+        }
+        
+        const measurement = this.getMeasurement();
+        const coordinates = measurement.coordinates.map(([longitude, latitude]) => [longitude, latitude]);
+        return {
+            type: 'FeatureCollection',
+            features: [{
+                type: 'Feature',
+                geometry: measurement.closed
+                    ? { type: 'Polygon', coordinates: [[...coordinates, coordinates[0]]] }
+                    : { type: 'LineString', coordinates },
+                properties: {
+                    units: measurement.units,
+                    cumulativeDistances: measurement.cumulativeDistances,
+                    distance: measurement.distance,
+                    ...(measurement.area !== null ? { area: measurement.area } : {})
+                }
+            }]
+        };
+    }
+    
+    /**
+     * 释放控件
+     */
+    public destroy(): void {
+        this.disable();
+        this.removeAllListeners();
+    }
+    
+    /**
+     * 点击添加顶点；点击第一个顶点闭合，点击最后一个顶点（双击的第二次点击）忽略
+     */
+    private handleClick(event: MapMouseEvent): void {
+        if (!event.lngLat) return;
+        
+        if (this.finished) {
+            this.vertices = [];
+            this.closed = false;
+            this.finished = false;
+        }
+        
+        if (this.vertices.length >= 3 && this.isNearVertex(event.point, this.vertices[0])) {
+            this.close();
+            return;
+        }
+        if (this.vertices.length > 0 && this.isNearVertex(event.point, this.vertices[this.vertices.length - 1])) {
+            return;
+        }
+        
+        this.vertices.push(event.lngLat);
+        this.handleChange();
+    }
+    
+    /**
+     * 鼠标移动时显示从最后一个顶点到光标的测地线
+     */
+    private handleMouseMove(event: MapMouseEvent): void {
+        this.cursor = this.finished ? null : event.lngLat;
+        const last = this.vertices[this.vertices.length - 1];
+        this.cursorPath = last && this.cursor ? this.densify(last, this.cursor) : [];
+        this.redraw();
+    }
+    
+    /**
+     * 画布坐标是否靠近顶点
+     */
+    private isNearVertex(point: [number, number], vertex: [number, number]): boolean {
+        const screen = this.map.project(vertex);
+        return !screen.occluded && Math.hypot(screen.x - point[0], screen.y - point[1]) < VERTEX_TOLERANCE;
+    }
+    
+    /**
+     * 测量变化后重新计算测量结果和路径，重绘并触发change事件
+     */
+    private handleChange(): void {
+        this.measurement = this.computeMeasurement();
+        
+        const vertices = this.vertices;
+        this.path = vertices.slice(0, 1);
+        for (let i = 1; i < vertices.length; i++) {
+            this.path.push(...this.densify(vertices[i - 1], vertices[i]));
+        }
+        if (this.closed) {
+            this.path.push(...this.densify(vertices[vertices.length - 1], vertices[0]));
+        }
+        
+        const last = vertices[vertices.length - 1];
+        this.cursorPath = last && this.cursor && !this.finished ? this.densify(last, this.cursor) : [];
+        
+        this.redraw();
+        this.emit('change', this.getMeasurement());
+    }
+    
+    /**
+     * 沿测地线加密一条边，返回不含起点的各点
+     */
+    private densify(from: [number, number], to: [number, number]): Array<[number, number]> {
+        const distance = Geodesic.inverse(from, to).distance;
+        const segments = Math.min(PATH_MAX_SEGMENTS, Math.max(1, Math.ceil(distance / PATH_SPACING)));
+        return Geodesic.interpolate(from, to, segments).slice(1);
+    }
+    
+    /**
+     * 创建覆盖层和面板
+     */
+    private createElements(): void {
+        const overlay = document.createElementNS(SVG_NS, 'svg');
+        overlay.style.cssText = [
+            'position: fixed',
+            'z-index: 1000',
+            'pointer-events: none',
+            'font: 12px sans-serif'
+        ].join(';');
+        document.body.appendChild(overlay);
+        
+        const panel = document.createElement('div');
+        panel.style.cssText = [
+            'position: fixed',
+            'z-index: 1001',
+            'padding: 6px 8px',
+            'background: rgba(0, 0, 0, 0.7)',
+            'color: #fff',
+            'font: 12px/1.5 sans-serif',
+            'border-radius: 3px'
+        ].join(';');
+        
+        const panelText = document.createElement('div');
+        panel.appendChild(panelText);
+        
+        const unitSelect = document.createElement('select');
+        for (const units of Object.keys(UNIT_METERS) as MeasureUnits[]) {
+            unitSelect.add(new Option(UNIT_LABELS[units], units));
+        }
+        unitSelect.value = this.units;
+        unitSelect.addEventListener('change', () => this.setUnits(unitSelect.value as MeasureUnits));
+        panel.appendChild(unitSelect);
+        
+        const clearButton = document.createElement('button');
+        clearButton.textContent = '清除';
+        clearButton.addEventListener('click', () => this.clear());
+        panel.appendChild(clearButton);
+        
+        const exportButton = document.createElement('button');
+        exportButton.textContent = '导出GeoJSON';
+        exportButton.addEventListener('click', () => this.download());
+        panel.appendChild(exportButton);
+        
+        document.body.appendChild(panel);
+        
+        this.overlay = overlay;
+        this.panel = panel;
+        this.panelText = panelText;
+        this.unitSelect = unitSelect;
+    }
+    
+    /**
+     * 下载GeoJSON文件
+     */
+    private download(): void {
+        const blob = new Blob([JSON.stringify(this.toGeoJSON(), null, 2)], { type: 'application/geo+json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'measurement.geojson';
+        link.click();
+        
+        // 部分浏览器异步开始下载，稍后再释放URL
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    }
+    
+    /**
+     * 重绘测量结果（视角变化后每帧调用），只重新投影缓存的路径和顶点
+     */
+    private redraw(): void {
+        if (!this.overlay || !this.panel || !this.panelText) return;
+        
+        // 跟随画布位置和尺寸
+        const rect = this.map.getCanvas().getBoundingClientRect();
+        this.overlay.style.left = `${rect.left}px`;
+        this.overlay.style.top = `${rect.top}px`;
+        this.overlay.setAttribute('width', String(rect.width));
+        this.overlay.setAttribute('height', String(rect.height));
+        this.panel.style.left = `${rect.right - this.panel.offsetWidth - 8}px`;
+        this.panel.style.top = `${rect.top + 8}px`;
+        
+        const measurement = this.measurement;
+        this.overlay.replaceChildren(...this.createShapes(measurement));
+        this.panelText.textContent = this.describe(measurement);
+    }
+    
+    /**
+     * 创建测地线、顶点和标注的SVG元素
+     */
+    private createShapes(measurement: Measurement): SVGElement[] {
+        const elements: SVGElement[] = [];
+        const vertices = this.vertices;
+        if (vertices.length === 0) {
+            return elements;
+        }
+        
+        // 被地球遮挡的部分断开
+        const screen = [...this.path, ...this.cursorPath].map(point => this.map.project(point));
+        let d = '';
+        let drawing = false;
+        for (const point of screen) {
+            if (point.occluded) {
+                drawing = false;
+                continue;
+            }
+            d += `${drawing ? 'L' : 'M'}${point.x.toFixed(1)},${point.y.toFixed(1)}`;
+            drawing = true;
+        }
+        
+        // 闭合且全部可见时填充
+        if (this.closed && screen.every(point => !point.occluded)) {
+            const fill = document.createElementNS(SVG_NS, 'path');
+            fill.setAttribute('d', `${d}Z`);
+            fill.setAttribute('fill', 'rgba(255, 140, 0, 0.2)');
+            elements.push(fill);
+        }
+        
+        const line = document.createElementNS(SVG_NS, 'path');
+        line.setAttribute('d', d);
+        line.setAttribute('fill', 'none');
+        line.setAttribute('stroke', LINE_COLOR);
+        line.setAttribute('stroke-width', '2');
+        elements.push(line);
+        
+        // 顶点及累计距离
+        vertices.forEach((vertex, index) => {
+            const point = this.map.project(vertex);
+            if (point.occluded) return;
+            
+            const circle = document.createElementNS(SVG_NS, 'circle');
+            circle.setAttribute('cx', String(point.x));
+            circle.setAttribute('cy', String(point.y));
+            circle.setAttribute('r', '4');
+            circle.setAttribute('fill', '#fff');
+            circle.setAttribute('stroke', LINE_COLOR);
+            circle.setAttribute('stroke-width', '2');
+            elements.push(circle);
+            
+            if (index > 0) {
+                elements.push(this.createLabel(point.x + 8, point.y - 8, this.formatDistance(measurement.cumulativeDistances[index])));
+            }
+        });
+        
+        // 面积标注在可见顶点的中心
+        if (measurement.area !== null) {
+            const visible = vertices.map(vertex => this.map.project(vertex)).filter(point => !point.occluded);
+            if (visible.length > 0) {
+                const x = visible.reduce((sum, point) => sum + point.x, 0) / visible.length;
+                const y = visible.reduce((sum, point) => sum + point.y, 0) / visible.length;
+                elements.push(this.createLabel(x, y, this.formatArea(measurement.area)));
+            }
+        }
+        
+        return elements;
+    }
+    
+    /**
+     * 创建带描边的文字标注
+     */
+    private createLabel(x: number, y: number, text: string): SVGTextElement {
+        const label = document.createElementNS(SVG_NS, 'text');
+        label.setAttribute('x', String(x));
+        label.setAttribute('y', String(y));
+        label.setAttribute('fill', '#fff');
+        label.setAttribute('stroke', 'rgba(0, 0, 0, 0.8)');
+        label.setAttribute('stroke-width', '3');
+        label.setAttribute('paint-order', 'stroke');
+        label.textContent = text;
+        return label;
+    }
+    
+    /**
+     * 面板文字
+     */
+    private describe(measurement: Measurement): string {
+        if (measurement.coordinates.length === 0) {
+            return '点击地球添加顶点，双击结束，点击起点闭合';
+        }
+        
+        const lines = [`${measurement.closed ? '周长' : '距离'} ${this.formatDistance(measurement.distance)}`];
+        if (measurement.area !== null) {
+            lines.push(`面积 ${this.formatArea(measurement.area)}`);
+        }
+        return lines.join('  ');
+    }
+    
+    /**
+     * 格式化距离
+     */
+    private formatDistance(value: number): string {
+        return `${value.toFixed(value < 10 ? 2 : 1)} ${this.units}`;
+    }
+    
+    /**
+     * 格式化面积
+     */
+    private formatArea(value: number): string {
+        return `${value.toFixed(value < 10 ? 2 : 1)} ${this.units}²`;
+    }
+}
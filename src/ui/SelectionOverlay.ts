@@ -0,0 +1,69 @@
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/**
+ * 框选区域覆盖层
+ * 在画布上方绘制半透明的选择框或套索轮廓，不拦截鼠标事件
+ */
+export class SelectionOverlay {
+    private canvas: HTMLCanvasElement;
+    private element: SVGSVGElement | null = null;
+    private polygon: SVGPolygonElement | null = null;
+    
+    constructor(canvas: HTMLCanvasElement) {
+        this.canvas = canvas;
+    }
+    
+    /**
+     * 显示区域
+     * @param points 区域顶点的画布坐标（CSS像素）
+     */
+    public show(points: Array<[number, number]>): void {
+        if (!this.element || !this.polygon) {
+            this.create();
+        }
+        
+        // 跟随画布位置和尺寸
+        const rect = this.canvas.getBoundingClientRect();
+        const element = this.element!;
+        element.style.left = `${rect.left}px`;
+        element.style.top = `${rect.top}px`;
+        element.setAttribute('width', String(rect.width));
+        element.setAttribute('height', String(rect.height));
+        
+        this.polygon!.setAttribute('points', points.map(([x, y]) => `${x},${y}`).join(' '));
+    }
+    
+    /**
+     * 隐藏区域
+     */
+    public hide(): void {
+        if (this.element) {
+            this.element.remove();
+            this.element = null;
+            this.polygon = null;
+        }
+    }
+    
+    /**
+     * 创建覆盖层元素
+     */
+    private create(): void {
+        const element = document.createElementNS(SVG_NS, 'svg');
+        element.style.cssText = [
+            'position: fixed',
+            'z-index: 1000',
+            'pointer-events: none'
+        ].join(';');
+        
+        const polygon = document.createElementNS(SVG_NS, 'polygon');
+        polygon.setAttribute('fill', 'rgba(56, 135, 190, 0.15)');
+        polygon.setAttribute('stroke', 'rgb(56, 135, 190)');
+        polygon.setAttribute('stroke-width', '1.5');
+        polygon.setAttribute('stroke-dasharray', '4 3');
+        element.appendChild(polygon);
+        document.body.appendChild(element);
+        
+        this.element = element;
+        this.polygon = polygon;
+    }
+}
@@ -0,0 +1,136 @@
+import { FrameStatsSnapshot } from '../core/FrameStats';
+
+/**
+ * 帧统计面板
+ * 以半透明文字面板覆盖在画布左上角，显示帧率、CPU/GPU耗时、绘制调用和内存
+ */
+export class StatsHUD {
+    private canvas: HTMLCanvasElement;
+    private element: HTMLDivElement | null = null;
+    private lastUpdate: number = 0;
+    
+    // 文本刷新间隔（毫秒），避免每帧修改DOM
+    private readonly updateInterval: number = 250;
+    
+    constructor(canvas: HTMLCanvasElement) {
+        this.canvas = canvas;
+    }
+    
+    /**
+     * 显示面板
+     */
+    public show(): void {
+        if (this.element) return;
+        
+        const element = document.createElement('div');
+        element.style.cssText = [
+            'position: fixed',
+            'z-index: 1000',
+            'pointer-events: none',
+            'padding: 6px 8px',
+            'background: rgba(0, 0, 0, 0.7)',
+            'color: #8f8',
+            'font: 11px/1.4 monospace',
+            'white-space: pre',
+            'border-radius: 3px'
+        ].join(';');
+        document.body.appendChild(element);
+        
+        this.element = element;
+        this.lastUpdate = 0;
+    }
+    
+    /**
+     * 隐藏面板
+     */
+    public hide(): void {
+        if (this.element) {
+            this.element.remove();
+            this.element = null;
+        }
+    }
+    
+    /**
+     * 切换面板显示状态
+     * @returns 切换后的显示状态
+     */
+    public toggle(): boolean {
+        if (this.element) {
+            this.hide();
+        } else {
+            this.show();
+        }
+        return this.isVisible();
+    }
+    
+    /**
+     * 面板是否显示
+     */
+    public isVisible(): boolean {
+        return this.element !== null;
+    }
+    
+    /**
+     * 更新面板内容（按刷新间隔节流）
+     */
+    public update(stats: FrameStatsSnapshot): void {
+        if (!this.element) return;
+        
+        const now = performance.now();
+        if (now - this.lastUpdate < this.updateInterval) return;
+        this.lastUpdate = now;
+        
+        // 跟随画布位置
+        const rect = this.canvas.getBoundingClientRect();
+        this.element.style.left = `${rect.left + 8}px`;
+        this.element.style.top = `${rect.top + 8}px`;
+        
+        this.element.textContent = this.format(stats);
+    }
+    
+    /**
+     * 格式化统计数据
+     */
+    private format(stats: FrameStatsSnapshot): string {
+        const ms = (value: number) => `${value.toFixed(2)}ms`;
+        const lines: string[] = [
+            `FPS ${stats.fps}  帧间隔 ${ms(stats.frameTime)}`,
+            `CPU ${ms(stats.cpu.total)}`
+        ];
+        
+        for (const [phase, time] of Object.entries(stats.cpu.phases)) {
+            lines.push(`  ${phase} ${ms(time)}`);
+        }
+        
+        if (stats.gpu.supported) {
+            lines.push(`GPU ${ms(stats.gpu.total)}`);
+            for (const [pass, time] of Object.entries(stats.gpu.passes)) {
+                lines.push(`  ${pass} ${ms(time)}`);
+            }
+        } else {
+            lines.push('GPU 不支持timestamp-query');
+        }
+        
+        lines.push(`绘制调用 ${stats.drawCalls}  三角形 ${stats.triangles.toLocaleString()}  顶点 ${stats.vertices.toLocaleString()}`);
+        lines.push(`缓冲区 ${this.formatBytes(stats.memory.buffers)}  纹理 ${this.formatBytes(stats.memory.textures)}`);
+        
+        return lines.join('\n');
+    }
+    
+    /**
+     * 格式化字节数
+     */
+    private formatBytes(bytes: number): string {
+        if (bytes >= 1024 * 1024) {
+            return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+        }
+        return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    
+    /**
+     * 释放面板
+     */
+    public destroy(): void {
+        this.hide();
+    }
+}